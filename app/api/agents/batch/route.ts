@@ -0,0 +1,183 @@
+// app/api/agents/batch/route.ts
+// Batch invoice processing with per-invoice Server-Sent Events progress
+
+import { NextRequest } from 'next/server';
+import { randomUUID } from 'crypto';
+
+import {
+  BATCH_CONCURRENCY,
+  BatchInvoiceInput,
+  isBatchInvoicePaused,
+  processInvoiceBatch,
+  resumeBatchInvoice,
+  validateBatchCorrections,
+} from '@/app/lib/agents/batch';
+import { ArchivedPDF, extractPDFsFromZip, isZipFile, ZipLimitError } from '@/app/lib/services/zipService';
+import type { InvoiceCorrections } from '@/app/types';
+
+const MAX_BATCH_SIZE = 50;
+const MAX_PDF_SIZE = 10 * 1024 * 1024;
+const MAX_ZIP_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Send SSE event to client
+ */
+function sendEvent(controller: ReadableStreamDefaultController, event: string, data: unknown) {
+  const encoder = new TextEncoder();
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  controller.enqueue(encoder.encode(message));
+}
+
+function badRequest(error: string): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    { status: 400, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+function createSSEResponse(handler: (controller: ReadableStreamDefaultController) => Promise<void>): Response {
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        await handler(controller);
+      } catch (error) {
+        console.error('Batch streaming error:', error);
+        sendEvent(controller, 'batch_error', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Continue one invoice paused for review, streaming its updates
+ */
+async function resumeAfterReview(request: NextRequest): Promise<Response> {
+  const body = (await request.json()) as { reviewId?: string; corrections?: InvoiceCorrections | null };
+
+  if (!body?.reviewId) {
+    return badRequest('reviewId is required to resume analysis');
+  }
+  if (!isBatchInvoicePaused(body.reviewId)) {
+    return new Response(
+      JSON.stringify({ error: 'Review session expired or not found. Please re-upload the invoice.' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { reviewId } = body;
+  const corrections = body.corrections ?? null;
+  // Reject bad corrections up front, like the chat flow, so the invoice stays paused for another try
+  try {
+    validateBatchCorrections(reviewId, corrections);
+  } catch (error) {
+    return badRequest(error instanceof Error ? error.message : 'Invalid corrections');
+  }
+
+  return createSSEResponse(async controller => {
+    await resumeBatchInvoice(reviewId, corrections, update => {
+      sendEvent(controller, 'invoice_update', update);
+    });
+  });
+}
+
+/**
+ * POST handler for batch processing
+ * - multipart with any number of `files` fields (PDFs and/or zip archives of PDFs): extract each invoice, then pause it for review
+ * - JSON with `reviewId`: continue one paused invoice with the reviewer's corrections
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      return await resumeAfterReview(request);
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+
+    if (files.length === 0) {
+      return badRequest('No files provided');
+    }
+
+    const invoices: BatchInvoiceInput[] = [];
+
+    for (const file of files) {
+      if (isZipFile(file)) {
+        if (file.size > MAX_ZIP_SIZE) {
+          return badRequest(`${file.name}: zip archives must be less than 100MB`);
+        }
+        let archived: ArchivedPDF[];
+        try {
+          // Limits apply before and while inflating, so oversized entries never reach memory whole
+          archived = extractPDFsFromZip(Buffer.from(await file.arrayBuffer()), {
+            maxEntries: MAX_BATCH_SIZE,
+            maxEntrySize: MAX_PDF_SIZE,
+            maxTotalSize: MAX_ZIP_SIZE,
+          });
+        } catch (error) {
+          if (error instanceof ZipLimitError) {
+            return badRequest(`${file.name}: ${error.message}`);
+          }
+          throw error;
+        }
+        if (archived.length === 0) {
+          return badRequest(`${file.name}: no PDF invoices found in archive`);
+        }
+        for (const { fileName, pdfBuffer } of archived) {
+          if (pdfBuffer.length > MAX_PDF_SIZE) {
+            return badRequest(`${fileName}: file size must be less than 10MB`);
+          }
+          invoices.push({ id: randomUUID(), fileName, pdfBuffer });
+        }
+        continue;
+      }
+
+      if (file.type !== 'application/pdf') {
+        return badRequest(`${file.name}: files must be PDFs or zip archives of PDFs`);
+      }
+      if (file.size > MAX_PDF_SIZE) {
+        return badRequest(`${file.name}: file size must be less than 10MB`);
+      }
+      invoices.push({ id: randomUUID(), fileName: file.name, pdfBuffer: Buffer.from(await file.arrayBuffer()) });
+    }
+
+    if (invoices.length > MAX_BATCH_SIZE) {
+      return badRequest(`Batches are limited to ${MAX_BATCH_SIZE} invoices (received ${invoices.length})`);
+    }
+
+    const payerAddress = process.env.CIRCLE_ETH_SEPOLIA_WALLET_ADDRESS || undefined;
+
+    return createSSEResponse(async controller => {
+      sendEvent(controller, 'batch_start', {
+        concurrency: BATCH_CONCURRENCY,
+        invoices: invoices.map(({ id, fileName }) => ({ id, fileName })),
+      });
+
+      await processInvoiceBatch(invoices, payerAddress, update => {
+        sendEvent(controller, 'invoice_update', update);
+      });
+
+      sendEvent(controller, 'batch_complete', { total: invoices.length });
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -2,10 +2,37 @@
 // API route for running CFO agent
 
 import { NextRequest, NextResponse } from 'next/server';
-import { runCFOAgent } from '@/app/lib/agents/graph';
+import { runCFOAgent, resumeCFOAgent } from '@/app/lib/agents/graph';
+import type { InvoiceCorrections } from '@/app/types';
+
+interface ResumeRequestBody {
+  threadId?: string;
+  corrections?: InvoiceCorrections | null;
+}
 
 export async function POST(request: NextRequest) {
   try {
+    // JSON body resumes a run paused for invoice review
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = (await request.json()) as ResumeRequestBody;
+
+      if (!body?.threadId) {
+        return NextResponse.json(
+          { error: 'threadId is required to resume a run' },
+          { status: 400 }
+        );
+      }
+
+      const run = await resumeCFOAgent(body.threadId, body.corrections ?? null);
+
+      return NextResponse.json({
+        success: true,
+        threadId: run.threadId,
+        review: run.review,
+        state: run.state,
+      });
+    }
+
     // Parse the multipart form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -39,13 +66,15 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const pdfBuffer = Buffer.from(arrayBuffer);
 
-    // Run the CFO agent workflow
-    const finalState = await runCFOAgent(pdfBuffer, file.name, payerAddress || undefined);
+    // Run the CFO agent workflow (pauses after extraction for review)
+    const run = await runCFOAgent(pdfBuffer, file.name, payerAddress || undefined);
 
     // Return the results
     return NextResponse.json({
       success: true,
-      state: finalState,
+      threadId: run.threadId,
+      review: run.review,
+      state: run.state,
     });
 
   } catch (error) {
@@ -4,21 +4,54 @@
 import { NextRequest } from 'next/server';
 import { formatUnits } from 'viem';
 
-import { AgentState, createInitialState, createThinkingLog } from '@/app/lib/agents/state';
+import { AgentState, addLog, createInitialState, createThinkingLog } from '@/app/lib/agents/state';
+import { applyInvoiceCorrections, describeWalletAddressIssue, EDITABLE_INVOICE_FIELDS } from '@/app/lib/agents/nodes/invoiceReview';
+import { duplicateCheckNode } from '@/app/lib/agents/nodes/duplicateCheck';
+import { vendorCheckNode } from '@/app/lib/agents/nodes/vendorCheck';
+import { deletePausedRun, getPausedRun, savePausedRun } from '@/app/lib/agents/pausedRuns';
+import { createRun, createRunRecorder, RunRecorder } from '@/app/lib/agents/runHistory';
+import { auditExtraction, auditInvoiceUpload, auditRecommendation, auditReview, auditScan } from '@/app/lib/agents/auditTrail';
 import { streamInvoiceExtraction, streamCFORecommendation } from '@/app/lib/services/geminiService';
-import { scanWalletAddress } from '@/app/lib/services/WalletscanService';
+import { getLLMProvider } from '@/app/lib/services/llmProvider';
+import { reconcileInvoiceTotals } from '@/app/lib/services/invoiceValidation';
+import { extractInvoiceFromTextLayer, TEXT_LAYER_MIN_CONFIDENCE } from '@/app/lib/services/invoiceParser';
+import { describeScanFreshness, scanWalletAddress } from '@/app/lib/services/WalletscanService';
+import { formatRiskBreakdown, getRecommendationFromScore } from '@/app/lib/services/riskPolicy';
+import { applyPolicyGate } from '@/app/lib/services/policyGate';
+import { StructuredOutputError } from '@/app/lib/services/structuredOutput';
+import { checkInvoiceBudgets, describeBudgetStatus } from '@/app/lib/services/budgets';
 import { buildPaymentPlan } from '@/app/lib/services/paymentPlanner';
 import { buildTreasuryPlan } from '@/app/lib/services/treasuryManager';
+import { issueTreasuryPlan } from '@/app/lib/services/treasuryPlans';
+import { createPendingPayment } from '@/app/lib/services/approvals';
+import { InvoiceCorrections, InvoiceData, InvoiceEvidenceField } from '@/app/types';
+
+// Run history recorder for each open stream
+const runRecorders = new WeakMap<ReadableStreamDefaultController, RunRecorder>();
 
 /**
- * Send SSE event through controller
+ * Send SSE event through controller (and into the run history)
  */
 function sendEvent(controller: ReadableStreamDefaultController, event: string, data: unknown) {
+  runRecorders.get(controller)?.record(event, data);
   const encoder = new TextEncoder();
   const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
   controller.enqueue(encoder.encode(message));
 }
 
+/**
+ * Thinking-log details for LLM output that failed schema validation after all retries
+ */
+function structuredOutputErrorOptions(error: unknown) {
+  if (!(error instanceof StructuredOutputError)) {
+    return undefined;
+  }
+  return {
+    details: [`${error.task} failed validation ${error.attempts} time(s):`, ...error.issues],
+    data: { task: error.task, attempts: error.attempts, issues: error.issues },
+  };
+}
+
 /**
  * Create a throttled event sender to reduce UI flickering
  * Only sends updates every intervalMs or when content grows significantly
@@ -47,6 +80,30 @@ function createThrottledSender(
   };
 }
 
+const EVIDENCE_LABELS: Record<InvoiceEvidenceField, string> = {
+  walletAddress: 'Wallet',
+  amount: 'Amount',
+  recipient: 'Recipient',
+  purpose: 'Purpose',
+  invoiceNumber: 'Invoice #',
+  issueDate: 'Issued',
+  dueDate: 'Due',
+};
+
+/**
+ * One thinking-log detail line per field: confidence, page and verbatim snippet
+ */
+function describeEvidence(invoiceData: InvoiceData): string[] {
+  return (Object.keys(EVIDENCE_LABELS) as InvoiceEvidenceField[])
+    .filter(field => invoiceData.evidence[field])
+    .map(field => {
+      const evidence = invoiceData.evidence[field]!;
+      const page = evidence.page !== null ? ` · p${evidence.page}` : '';
+      const snippet = evidence.snippet ? ` "${evidence.snippet}"` : '';
+      return `${EVIDENCE_LABELS[field]} ${Math.round(evidence.confidence * 100)}%${page}${snippet}`;
+    });
+}
+
 /**
  * PDF Processor with REAL LLM streaming
  */
@@ -71,26 +128,68 @@ async function pdfProcessorWithStream(
 
     let accumulatedReasoning = '';
     let invoiceData = null;
-    
-    // Create throttled sender for smoother UI updates
-    const throttledSend = createThrottledSender(controller, 100);
+    let logState = state;
+
+    // Try the rule-based text-layer parser first; only call the LLM when it is unsure
+    const textLayer = await extractInvoiceFromTextLayer(state.pdfBuffer);
+
+    if (textLayer && textLayer.confidence >= TEXT_LAYER_MIN_CONFIDENCE) {
+      invoiceData = textLayer.invoiceData;
+      accumulatedReasoning = `Read the PDF text layer and matched payment fields with extraction rules (confidence ${Math.round(textLayer.confidence * 100)}%). No LLM call needed.`;
+      logState = addLog(
+        logState,
+        'pdfProcessor',
+        'running',
+        `Parsed invoice from PDF text layer (confidence ${textLayer.confidence})`,
+        { source: 'text-layer', confidence: textLayer.confidence }
+      );
+    } else {
+      const llmName = getLLMProvider('extraction').name;
+      logState = addLog(
+        logState,
+        'pdfProcessor',
+        'running',
+        textLayer
+          ? `Text-layer confidence ${textLayer.confidence} below ${TEXT_LAYER_MIN_CONFIDENCE}, falling back to ${llmName}`
+          : `No usable PDF text layer, falling back to ${llmName}`,
+        {
+          source: 'llm',
+          provider: llmName,
+          confidence: textLayer?.confidence ?? null,
+          missing: textLayer?.missing ?? [],
+          notes: textLayer?.notes ?? [],
+        }
+      );
 
-    // Stream real LLM reasoning
-    for await (const chunk of streamInvoiceExtraction(state.pdfBuffer, state.fileName)) {
-      if (chunk.type === 'reasoning') {
-        accumulatedReasoning += chunk.content;
-        
-        // Send throttled updates to reduce UI flickering
-        throttledSend('thinking', createThinkingLog(
-          'pdfProcessor',
-          'processing',
-          accumulatedReasoning,
-          { 
-            progress: Math.min(90, 10 + (accumulatedReasoning.length / 20))
-          }
-        ));
-      } else if (chunk.type === 'result') {
-        invoiceData = chunk.content;
+      sendEvent(controller, 'thinking', createThinkingLog(
+        'pdfProcessor',
+        'thinking',
+        textLayer
+          ? `Text-layer parse was inconclusive (missing: ${textLayer.missing.join(', ') || 'none'}). Asking the LLM to read the document...`
+          : 'No usable text layer in this PDF. Asking the LLM to read the document...',
+        { progress: 8 }
+      ));
+
+      // Create throttled sender for smoother UI updates
+      const throttledSend = createThrottledSender(controller, 100);
+
+      // Stream real LLM reasoning
+      for await (const chunk of streamInvoiceExtraction(state.pdfBuffer, state.fileName)) {
+        if (chunk.type === 'reasoning') {
+          accumulatedReasoning += chunk.content;
+          
+          // Send throttled updates to reduce UI flickering
+          throttledSend('thinking', createThinkingLog(
+            'pdfProcessor',
+            'processing',
+            accumulatedReasoning,
+            { 
+              progress: Math.min(90, 10 + (accumulatedReasoning.length / 20))
+            }
+          ));
+        } else if (chunk.type === 'result') {
+          invoiceData = chunk.content;
+        }
       }
     }
     
@@ -106,32 +205,60 @@ async function pdfProcessorWithStream(
       throw new Error('Failed to extract invoice data');
     }
 
-    // Validate address
-    const isValidAddress = /^0x[a-fA-F0-9]{40}$/.test(invoiceData.walletAddress);
-    if (!isValidAddress) {
-      throw new Error(`Invalid Ethereum address format: ${invoiceData.walletAddress}`);
-    }
+    // A missing or malformed address is flagged for review; applyInvoiceCorrections() enforces it
+    const walletAddressIssue = describeWalletAddressIssue(invoiceData.walletAddress);
+    const totalsCheck = reconcileInvoiceTotals(invoiceData);
 
     // Send success
     sendEvent(controller, 'thinking', createThinkingLog(
       'pdfProcessor',
       'success',
-      `Extraction complete! Found wallet ${invoiceData.walletAddress.substring(0, 10)}...`,
+      `Extraction complete! ${walletAddressIssue ? `${walletAddressIssue} - please correct it in the review.` : `Found wallet ${invoiceData.walletAddress.substring(0, 10)}...`}${totalsCheck.isConsistent ? '' : ' Line items do not reconcile with the stated total.'}`,
       {
         progress: 100,
+        details: [
+          `Invoice: ${invoiceData.invoiceNumber}`,
+          ...describeEvidence(invoiceData),
+          `Line Items: ${invoiceData.lineItems.length}`,
+          totalsCheck.isConsistent ? 'Totals reconcile ✓' : `Totals mismatch ⚠ (${totalsCheck.issues.length})`,
+          ...totalsCheck.issues,
+        ],
         data: {
-          walletAddress: invoiceData.walletAddress,
-          amount: invoiceData.amount,
-          recipient: invoiceData.recipient,
-          purpose: invoiceData.purpose,
+          ...invoiceData,
+          totalsCheck,
         }
       }
     ));
 
     console.log('✅ PDF Processor Node: Extraction complete');
 
+    let nextState = addLog(
+      logState,
+      'pdfProcessor',
+      'success',
+      walletAddressIssue
+        ? `⚠️ ${walletAddressIssue} - the reviewer must correct it`
+        : `Extracted wallet: ${invoiceData.walletAddress.substring(0, 10)}...`,
+      {
+        walletAddress: invoiceData.walletAddress,
+        amount: invoiceData.amount,
+        lineItems: invoiceData.lineItems.length,
+        evidence: invoiceData.evidence,
+      }
+    );
+
+    if (!totalsCheck.isConsistent) {
+      nextState = addLog(
+        nextState,
+        'pdfProcessor',
+        'success',
+        `⚠️ Invoice totals mismatch: ${totalsCheck.issues.join('; ')}`,
+        totalsCheck
+      );
+    }
+
     return {
-      ...state,
+      ...nextState,
       invoiceData,
       currentStep: 'scanning',
     };
@@ -143,6 +270,7 @@ async function pdfProcessorWithStream(
       'pdfProcessor',
       'error',
       `Error during extraction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      structuredOutputErrorOptions(error)
     ));
 
     return {
@@ -182,26 +310,39 @@ async function walletScannerWithStream(
     sendEvent(controller, 'thinking', createThinkingLog(
       'walletScanner',
       'processing',
-      'Querying Arc RPC and ArcScan for transaction history, contract details, and available risk metadata for this address...',
+      'Querying Arc, Ethereum Sepolia and Base Sepolia RPCs and explorers in parallel for transaction history, contract details, and available risk metadata for this address...',
       { progress: 40 }
     ));
 
     const securityScan = await scanWalletAddress(walletAddress);
+    const scanFreshness = describeScanFreshness(securityScan);
 
     await new Promise(resolve => setTimeout(resolve, 400));
 
-    const riskEmoji = securityScan.riskScore >= 70 ? 'High' : securityScan.riskScore >= 40 ? 'Medium' : 'Low';
+    const riskLevel = getRecommendationFromScore(securityScan.riskScore).riskLevel;
+    const riskEmoji = { HIGH: 'High', MEDIUM: 'Medium', LOW: 'Low' }[riskLevel];
 
     sendEvent(controller, 'thinking', createThinkingLog(
       'walletScanner',
       'processing',
-      `Analysis complete. Risk assessment: ${riskEmoji} (${securityScan.riskScore}/100). Checking for ${securityScan.warnings.length} warning flags and contract verification status...`,
+      `Analysis complete${scanFreshness ? ` - ${scanFreshness}` : ''}. Risk assessment: ${riskEmoji} (${securityScan.riskScore}/100). Checking for ${securityScan.warnings.length} warning flags and contract verification status...`,
       {
         progress: 75,
         details: [
           `Risk Score: ${securityScan.riskScore}/100 (${riskEmoji})`,
+          ...(scanFreshness ? [`Wallet history ${scanFreshness}`] : []),
           `Transactions: ${securityScan.transactionCount}`,
           `Contract: ${securityScan.isContract ? (securityScan.isVerified ? 'Verified ✓' : 'Unverified ⚠') : 'EOA'}`,
+          `Score breakdown: ${formatRiskBreakdown(securityScan.riskBreakdown)}`,
+          ...securityScan.chainScans.map(chainScan => chainScan.error
+            ? `${chainScan.chainName}: unavailable`
+            : `${chainScan.chainName}: ${chainScan.riskScore}/100, ${chainScan.transactionCount} txs`),
+          ...(securityScan.counterpartyAnalysis
+            ? [`Counterparties: ${securityScan.counterpartyAnalysis.funders} funders, ${securityScan.counterpartyAnalysis.recipients} recipients, ${securityScan.counterpartyAnalysis.findings.length} risky`]
+            : []),
+          ...(securityScan.lookAlikeMatches.length > 0
+            ? [`🚨 Looks like ${securityScan.lookAlikeMatches.length} past counterparty address(es) - possible address poisoning`]
+            : []),
           ...(securityScan.warnings.length > 0 ? [`Warnings: ${securityScan.warnings.length} found`] : []),
         ]
       }
@@ -245,6 +386,96 @@ async function walletScannerWithStream(
   }
 }
 
+/**
+ * Duplicate check with streaming
+ */
+async function duplicateCheckWithStream(
+  state: AgentState,
+  controller: ReadableStreamDefaultController
+): Promise<AgentState> {
+  sendEvent(controller, 'thinking', createThinkingLog(
+    'duplicateCheck',
+    'thinking',
+    'Fingerprinting this invoice and comparing it with previously processed invoices...',
+    { progress: 30 }
+  ));
+
+  const updatedState = await duplicateCheckNode(state);
+
+  if (updatedState.currentStep === 'error') {
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'duplicateCheck',
+      'error',
+      `Duplicate check failed: ${updatedState.error}`,
+    ));
+    return updatedState;
+  }
+
+  const duplicateCheck = updatedState.duplicateCheck;
+  sendEvent(controller, 'thinking', createThinkingLog(
+    'duplicateCheck',
+    'success',
+    duplicateCheck?.isDuplicate
+      ? `This looks like a duplicate of ${duplicateCheck.original?.fileName} (processed ${duplicateCheck.original?.processedAt}). I will not recommend approving it without manual review.`
+      : 'No matching invoice in our processed history. Proceeding to the wallet scan...',
+    {
+      progress: 100,
+      details: duplicateCheck?.isDuplicate
+        ? [...duplicateCheck.reasons, ...(duplicateCheck.originalUrl ? [`Original: ${duplicateCheck.originalUrl}`] : [])]
+        : undefined,
+      data: duplicateCheck,
+    }
+  ));
+
+  return updatedState;
+}
+
+/**
+ * Vendor registry check with streaming
+ */
+async function vendorCheckWithStream(
+  state: AgentState,
+  controller: ReadableStreamDefaultController
+): Promise<AgentState> {
+  sendEvent(controller, 'thinking', createThinkingLog(
+    'vendorCheck',
+    'thinking',
+    `Looking up "${state.invoiceData?.recipient}" and its payout address in the vendor registry...`,
+    { progress: 30 }
+  ));
+
+  const updatedState = await vendorCheckNode(state);
+
+  if (updatedState.currentStep === 'error') {
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'vendorCheck',
+      'error',
+      `Vendor check failed: ${updatedState.error}`,
+    ));
+    return updatedState;
+  }
+
+  const vendorCheck = updatedState.vendorCheck;
+  const reasoning = !vendorCheck || vendorCheck.status === 'unknown-vendor'
+    ? 'This vendor is not in our registry yet, so I cannot confirm the payout address. Proceeding to the wallet scan...'
+    : vendorCheck.status === 'verified'
+    ? `${vendorCheck.vendor?.name} is a registered vendor and this payout address is on its approved list.`
+    : 'The payout address does not match what we have on file for this vendor. This is the classic invoice-redirection pattern, so this invoice will need manual review.';
+
+  sendEvent(controller, 'thinking', createThinkingLog(
+    'vendorCheck',
+    'success',
+    reasoning,
+    {
+      progress: 100,
+      details: vendorCheck?.issues.length ? vendorCheck.issues : undefined,
+      data: vendorCheck,
+    }
+  ));
+
+  return updatedState;
+}
+
 /**
  * Payment Planner with streaming
  */
@@ -269,7 +500,10 @@ async function paymentPlannerWithStream(
       { progress: 15 }
     ));
 
-    const paymentPlan = await buildPaymentPlan(state.invoiceData, state.payerAddress);
+    const [paymentPlan, budgetCheck] = await Promise.all([
+      buildPaymentPlan(state.invoiceData, state.payerAddress),
+      checkInvoiceBudgets(state.invoiceData),
+    ]);
 
     const usdcBalance = paymentPlan.usdcBalance
       ? formatUnits(BigInt(paymentPlan.usdcBalance), 6)
@@ -296,10 +530,25 @@ async function paymentPlannerWithStream(
       }
     ));
 
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'paymentPlan',
+      'processing',
+      budgetCheck.statuses.length === 0
+        ? `No budgets cover this invoice (category: ${budgetCheck.category}).`
+        : budgetCheck.overBudget
+        ? `This invoice would exceed ${budgetCheck.issues.length} budget(s) for ${budgetCheck.month}.`
+        : `Within all ${budgetCheck.statuses.length} budget(s) for ${budgetCheck.month} (category: ${budgetCheck.category}).`,
+      {
+        progress: 90,
+        details: budgetCheck.statuses.map(describeBudgetStatus),
+        data: budgetCheck,
+      }
+    ));
+
     sendEvent(controller, 'thinking', createThinkingLog(
       'paymentPlan',
       'success',
-      `Payment plan prepared: ${paymentPlan.method}`,
+      `Payment plan prepared: ${paymentPlan.method}${budgetCheck.overBudget ? ' (over budget)' : ''}`,
       { progress: 100, data: paymentPlan }
     ));
 
@@ -308,6 +557,7 @@ async function paymentPlannerWithStream(
     return {
       ...state,
       paymentPlan,
+      budgetCheck,
       currentStep: 'analyzing',
     };
   } catch (error) {
@@ -358,14 +608,11 @@ async function cfoAssistantWithStream(
     // Stream real LLM reasoning
     for await (const chunk of streamCFORecommendation(
       state.invoiceData,
-      {
-        riskScore: state.securityScan.riskScore,
-        isContract: state.securityScan.isContract,
-        isVerified: state.securityScan.isVerified,
-        hasMaliciousLabel: state.securityScan.hasMaliciousLabel,
-        warnings: state.securityScan.warnings,
-      },
-      state.paymentPlan
+      state.securityScan,
+      state.paymentPlan,
+      state.duplicateCheck,
+      state.vendorCheck,
+      state.budgetCheck
     )) {
       if (chunk.type === 'reasoning') {
         accumulatedReasoning += chunk.content;
@@ -412,7 +659,6 @@ async function cfoAssistantWithStream(
     return {
       ...state,
       recommendation,
-      currentStep: recommendation.recommendation === 'APPROVE' ? 'treasury' : 'complete',
     };
 
   } catch (error) {
@@ -422,6 +668,79 @@ async function cfoAssistantWithStream(
       'cfoAssistant',
       'error',
       `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      structuredOutputErrorOptions(error)
+    ));
+
+    return {
+      ...state,
+      currentStep: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Policy gate with streaming - hard payment rules applied to the LLM verdict
+ */
+async function policyGateWithStream(
+  state: AgentState,
+  controller: ReadableStreamDefaultController
+): Promise<AgentState> {
+  console.log('🚦 Policy Gate: Applying payment policy...');
+
+  try {
+    if (!state.invoiceData || !state.securityScan || !state.recommendation) {
+      throw new Error('Missing recommendation for policy gate');
+    }
+
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'policyGate',
+      'thinking',
+      'Checking the recommendation against the payment policy...',
+      { progress: 30 }
+    ));
+
+    const { recommendation, decision } = applyPolicyGate(state.recommendation, {
+      invoiceData: state.invoiceData,
+      securityScan: state.securityScan,
+      duplicateCheck: state.duplicateCheck,
+      vendorCheck: state.vendorCheck,
+      budgetCheck: state.budgetCheck,
+    });
+
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'policyGate',
+      'success',
+      decision.overridden
+        ? `Policy override: ${decision.llmRecommendation.recommendation} → ${decision.finalVerdict} (${decision.enforcedBy})`
+        : `Policy gate passed: ${decision.finalVerdict}`,
+      {
+        progress: 100,
+        details: [
+          `LLM verdict: ${decision.llmRecommendation.recommendation}`,
+          `Final verdict: ${decision.finalVerdict}`,
+          ...decision.firedRules.map(rule => `${rule.outcome === 'REJECT' ? '🚨' : '⚠️'} ${rule.ruleId}: ${rule.reason}`),
+        ],
+        data: decision,
+      }
+    ));
+
+    console.log(`✅ Policy Gate: ${decision.finalVerdict}`);
+
+    return {
+      ...state,
+      recommendation,
+      policyGate: decision,
+      currentStep: recommendation.recommendation === 'APPROVE' ? 'treasury' : 'complete',
+    };
+
+  } catch (error) {
+    console.error('❌ Policy Gate Error:', error);
+
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'policyGate',
+      'error',
+      `Policy gate failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
     ));
 
     return {
@@ -464,7 +783,9 @@ async function treasuryManagerWithStream(
       { progress: 30 }
     ));
 
-    const treasuryPlan = await buildTreasuryPlan(state.invoiceData);
+    // Executable plans are stored server-side; /api/treasury/execute refers to them by ID only
+    const builtPlan = await buildTreasuryPlan(state.invoiceData);
+    const treasuryPlan = builtPlan.canExecute ? await issueTreasuryPlan(builtPlan, state.runId) : builtPlan;
 
     await new Promise(r => setTimeout(r, 500));
 
@@ -508,13 +829,18 @@ async function treasuryManagerWithStream(
       ));
     }
 
+    // Executable plans wait for M-of-N sign-off before /api/treasury/execute accepts them
+    const pendingPayment = treasuryPlan.canExecute
+      ? await createPendingPayment(state.invoiceData, treasuryPlan, state.fileName, state.runId, state.duplicateCheck?.fingerprint ?? null)
+      : null;
+
     await new Promise(r => setTimeout(r, 400));
 
     sendEvent(controller, 'thinking', createThinkingLog(
       'treasuryManager',
       'success',
-      treasuryPlan.canExecute
-        ? `Execution plan ready with ${treasuryPlan.steps.length} step(s). Awaiting your approval to proceed.`
+      pendingPayment
+        ? `Execution plan ready with ${treasuryPlan.steps.length} step(s). Awaiting ${pendingPayment.tier.requiredApprovals} approval(s) (${pendingPayment.tier.label} tier) to proceed.`
         : `Cannot execute: ${treasuryPlan.reason}`,
       {
         progress: 100,
@@ -526,6 +852,7 @@ async function treasuryManagerWithStream(
     const finalState = {
       ...state,
       treasuryPlan,
+      pendingPayment,
       currentStep: 'complete' as const,
     };
 
@@ -551,11 +878,184 @@ async function treasuryManagerWithStream(
   }
 }
 
+/**
+ * Duplicate check → vendor check → wallet scan → payment plan → CFO analysis → policy gate → treasury plan, after invoice review
+ */
+async function runAnalysisSteps(
+  initialState: AgentState,
+  controller: ReadableStreamDefaultController
+): Promise<void> {
+  let state = await duplicateCheckWithStream(initialState, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  state = await vendorCheckWithStream(state, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  state = await walletScannerWithStream(state, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  await auditScan(state);
+
+  state = await paymentPlannerWithStream(state, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  state = await cfoAssistantWithStream(state, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  state = await policyGateWithStream(state, controller);
+
+  if (state.currentStep === 'error') {
+    sendEvent(controller, 'error', { error: state.error });
+    return;
+  }
+
+  await auditRecommendation(state);
+
+  // Agent 2: Treasury Manager — only if the gated verdict is APPROVE
+  if (state.recommendation?.recommendation === 'APPROVE') {
+    state = await treasuryManagerWithStream(state, controller);
+
+    if (state.currentStep === 'error') {
+      sendEvent(controller, 'error', { error: state.error });
+      return;
+    }
+  } else {
+    // Not approved — send complete without treasury plan
+    sendEvent(controller, 'complete', {
+      ...state,
+      currentStep: 'complete',
+    });
+  }
+}
+
+/**
+ * Wrap a streaming workflow in an SSE response; events are saved to the run history when it ends
+ */
+function createSSEResponse(
+  run: (controller: ReadableStreamDefaultController) => Promise<void>,
+  recorder: RunRecorder | null = null
+): Response {
+  const stream = new ReadableStream({
+    async start(controller) {
+      if (recorder) {
+        runRecorders.set(controller, recorder);
+      }
+      try {
+        await run(controller);
+      } catch (error) {
+        console.error('Streaming error:', error);
+        sendEvent(controller, 'error', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        await recorder?.flush().catch(error => {
+          console.error(`⚠️ Failed to save run ${recorder.runId}:`, error);
+        });
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Resume a run paused at invoice review with the reviewer's corrections
+ */
+async function resumeAfterReview(request: NextRequest): Promise<Response> {
+  const body = (await request.json()) as { reviewId?: string; corrections?: InvoiceCorrections | null };
+
+  if (!body?.reviewId) {
+    return new Response(
+      JSON.stringify({ error: 'reviewId is required to resume analysis' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const pausedState = getPausedRun(body.reviewId);
+  if (!pausedState) {
+    return new Response(
+      JSON.stringify({ error: 'Review session expired or not found. Please re-upload the invoice.' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  let state: AgentState;
+  try {
+    state = applyInvoiceCorrections(pausedState, body.corrections ?? null);
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid corrections' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  deletePausedRun(body.reviewId);
+  const recorder = state.runId ? await createRunRecorder(state.runId) : null;
+
+  const reviewLog = state.logs[state.logs.length - 1];
+  const { original, corrected } = (reviewLog?.data ?? {}) as {
+    original?: InvoiceCorrections;
+    corrected?: InvoiceCorrections;
+  };
+  const changes = corrected
+    ? (Object.keys(corrected) as InvoiceEvidenceField[]).map(
+      field => `${EVIDENCE_LABELS[field]}: ${original?.[field]} → ${corrected[field]}`
+    )
+    : [];
+
+  return createSSEResponse(async controller => {
+    sendEvent(controller, 'thinking', createThinkingLog(
+      'invoiceReview',
+      'success',
+      changes.length > 0
+        ? `Reviewer corrected ${changes.length} field(s). Continuing analysis with the corrected invoice...`
+        : 'Reviewer confirmed the extracted fields. Continuing analysis...',
+      { progress: 100, details: changes, data: state.invoiceData }
+    ));
+
+    await auditReview(state, body.corrections ?? null);
+    await runAnalysisSteps({ ...state, currentStep: 'scanning' }, controller);
+  }, recorder);
+}
+
 /**
  * POST handler for streaming agent workflow
+ * - multipart with `file`: extract the invoice, then pause for review
+ * - JSON with `reviewId`: resume the paused run with corrections
  */
 export async function POST(request: NextRequest) {
   try {
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      return await resumeAfterReview(request);
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -584,81 +1084,41 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const pdfBuffer = Buffer.from(arrayBuffer);
     const payerAddress = process.env.CIRCLE_ETH_SEPOLIA_WALLET_ADDRESS || undefined;
+    const runId = await createRun(file.name, 'chat');
+    const recorder = await createRunRecorder(runId);
+    await auditInvoiceUpload(runId, file.name, pdfBuffer, 'chat');
 
-    // Create stream
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          let state = createInitialState(pdfBuffer, file.name, payerAddress);
-
-          // Run workflow with streaming
-          state = await pdfProcessorWithStream(state, controller);
-
-          if (state.currentStep === 'error') {
-            sendEvent(controller, 'error', { error: state.error });
-            controller.close();
-            return;
-          }
-
-          state = await walletScannerWithStream(state, controller);
-
-          if (state.currentStep === 'error') {
-            sendEvent(controller, 'error', { error: state.error });
-            controller.close();
-            return;
-          }
+    return createSSEResponse(async controller => {
+      let state: AgentState = { ...createInitialState(pdfBuffer, file.name, payerAddress), runId };
 
-          state = await paymentPlannerWithStream(state, controller);
+      // Run workflow with streaming
+      state = await pdfProcessorWithStream(state, controller);
 
-          if (state.currentStep === 'error') {
-            sendEvent(controller, 'error', { error: state.error });
-            controller.close();
-            return;
-          }
-
-          state = await cfoAssistantWithStream(state, controller);
-
-          if (state.currentStep === 'error') {
-            sendEvent(controller, 'error', { error: state.error });
-            controller.close();
-            return;
-          }
+      if (state.currentStep === 'error') {
+        sendEvent(controller, 'error', { error: state.error });
+        return;
+      }
 
-          // Agent 2: Treasury Manager — only if CFO approved
-          if (state.recommendation?.recommendation === 'APPROVE') {
-            state = await treasuryManagerWithStream(state, controller);
+      await auditExtraction(state);
 
-            if (state.currentStep === 'error') {
-              sendEvent(controller, 'error', { error: state.error });
-              controller.close();
-              return;
-            }
-          } else {
-            // Not approved — send complete without treasury plan
-            sendEvent(controller, 'complete', {
-              ...state,
-              currentStep: 'complete',
-            });
-          }
+      // Pause for human review; the client resumes with a JSON POST
+      const reviewId = savePausedRun(state);
+      recorder?.setState(state, 'awaiting-review');
 
-        } catch (error) {
-          console.error('Streaming error:', error);
-          sendEvent(controller, 'error', {
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        } finally {
-          controller.close();
-        }
-      }
-    });
+      sendEvent(controller, 'thinking', createThinkingLog(
+        'invoiceReview',
+        'thinking',
+        'Please confirm or correct the extracted invoice fields before I scan the wallet and build the payment plan.',
+        { progress: 50 }
+      ));
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+      sendEvent(controller, 'review', {
+        reviewId,
+        invoiceData: state.invoiceData,
+        editableFields: EDITABLE_INVOICE_FIELDS,
+        walletAddressIssue: describeWalletAddressIssue(state.invoiceData!.walletAddress),
+      });
+    }, recorder);
 
   } catch (error) {
     console.error('API Error:', error);
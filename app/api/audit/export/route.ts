@@ -0,0 +1,38 @@
+// app/api/audit/export/route.ts
+// Audit log export: JSON Lines download (default) or JSON with the chain verification result
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readAuditHead, readAuditLog, verifyAuditEntries } from '@/app/lib/services/auditLog';
+
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get('format') ?? 'jsonl';
+    if (format !== 'jsonl' && format !== 'json') {
+      return NextResponse.json({ error: 'format must be jsonl or json' }, { status: 400 });
+    }
+
+    const entries = await readAuditLog();
+    const verification = verifyAuditEntries(entries, await readAuditHead());
+
+    if (format === 'json') {
+      return NextResponse.json({ exportedAt: new Date().toISOString(), verification, entries });
+    }
+
+    // Keep the head hash from each export: `pnpm verify-audit <file> --expect-head <seq>:<hash>` later proves nothing was removed
+    const body = entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+        'X-Audit-Head': `${verification.head.seq}:${verification.head.hash}`,
+        'X-Audit-Valid': String(verification.valid),
+      },
+    });
+  } catch (error) {
+    console.error('Audit export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
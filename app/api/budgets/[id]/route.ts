@@ -0,0 +1,55 @@
+// app/api/budgets/[id]/route.ts
+// Monthly budgets: update or remove a budget
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBudget, updateBudget, validateBudgetInput } from '@/app/lib/services/budgets';
+import type { BudgetInput } from '@/app/types';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as Partial<BudgetInput>;
+
+    const validationError = validateBudgetInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const budget = await updateBudget(id, body as BudgetInput);
+    if (!budget) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Budget update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!(await deleteBudget(id))) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Budget delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/budgets/route.ts
+// Monthly budgets: list this month's position and create budgets
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createBudget,
+  getBudgetStatuses,
+  loadBudgetCategories,
+  UNCATEGORIZED,
+  validateBudgetInput,
+} from '@/app/lib/services/budgets';
+import type { BudgetInput } from '@/app/types';
+
+export async function GET() {
+  try {
+    const [{ month, statuses }, categories] = await Promise.all([getBudgetStatuses(), loadBudgetCategories()]);
+    return NextResponse.json({
+      month,
+      statuses,
+      categories: [...categories.map(({ id, label }) => ({ id, label })), { id: UNCATEGORIZED, label: 'Uncategorized' }],
+    });
+  } catch (error) {
+    console.error('Budget list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as Partial<BudgetInput>;
+
+    const validationError = validateBudgetInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const budget = await createBudget(body as BudgetInput);
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    console.error('Budget create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
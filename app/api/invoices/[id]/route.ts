@@ -0,0 +1,30 @@
+// app/api/invoices/[id]/route.ts
+// GET endpoint returning a previously processed invoice (linked from duplicate warnings)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProcessedInvoice } from '@/app/lib/services/duplicateDetection';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const invoice = await getProcessedInvoice(id);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(invoice);
+  } catch (error) {
+    console.error('Processed invoice lookup error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
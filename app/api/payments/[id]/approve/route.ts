@@ -0,0 +1,12 @@
+// app/api/payments/[id]/approve/route.ts
+// Record an approver's sign-off; the payment becomes executable at quorum
+
+import { NextRequest } from 'next/server';
+import { recordDecision } from '@/app/api/payments/[id]/recordDecision';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return recordDecision(request, params, 'approve');
+}
@@ -0,0 +1,49 @@
+// app/api/payments/[id]/recordDecision.ts
+// Shared handler for the approve and reject routes: authenticate the approver, then record their decision
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApprovalDecision } from '@/app/types';
+import { authenticateApprover, recordApprovalDecision } from '@/app/lib/services/approvals';
+
+/**
+ * Record one approver's decision on a payment.
+ * 401 without an approver ID and bearer token, 403 for a bad token, 404 for an unknown payment,
+ * 409 when the decision is not allowed (already decided, not eligible, payment no longer pending).
+ */
+export async function recordDecision(
+  request: NextRequest,
+  params: Promise<{ id: string }>,
+  decision: ApprovalDecision['decision']
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const { approverId, comment } = (await request.json()) as { approverId?: string; comment?: string };
+
+    // Each approver signs with their own token (Authorization: Bearer <token>)
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!approverId || !token) {
+      return NextResponse.json({ error: 'Approver ID and token are required' }, { status: 401 });
+    }
+
+    const approver = authenticateApprover(approverId, token);
+    if (!approver) {
+      return NextResponse.json({ error: 'Unknown approver or invalid token' }, { status: 403 });
+    }
+
+    const { payment, error } = await recordApprovalDecision(id, approver, decision, comment ?? null);
+    if (!payment) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 });
+    }
+
+    return NextResponse.json({ payment });
+  } catch (error) {
+    console.error(`${decision === 'approve' ? 'Approval' : 'Rejection'} error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
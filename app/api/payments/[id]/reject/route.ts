@@ -0,0 +1,12 @@
+// app/api/payments/[id]/reject/route.ts
+// Record an approver's rejection; enough rejections cancel the payment
+
+import { NextRequest } from 'next/server';
+import { recordDecision } from '@/app/api/payments/[id]/recordDecision';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return recordDecision(request, params, 'reject');
+}
@@ -0,0 +1,27 @@
+// app/api/payments/[id]/route.ts
+// A single payment with its approval decisions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingPayment } from '@/app/lib/services/approvals';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const payment = await getPendingPayment(id);
+    if (!payment) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ payment });
+  } catch (error) {
+    console.error('Payment fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/payments/route.ts
+// Payments awaiting or past approver sign-off
+
+import { NextResponse } from 'next/server';
+import { listPendingPayments } from '@/app/lib/services/approvals';
+
+export async function GET() {
+  try {
+    const payments = await listPendingPayments();
+    return NextResponse.json({ payments });
+  } catch (error) {
+    console.error('Payment list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/runs/[id]/route.ts
+// A single analysis run: thinking logs, final state and execution step updates
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRun } from '@/app/lib/agents/runHistory';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const run = await getRun(id);
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Run fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/runs/route.ts
+// Analysis run history: one summary row per run, newest first
+
+import { NextResponse } from 'next/server';
+import { listRuns } from '@/app/lib/agents/runHistory';
+
+export async function GET() {
+  try {
+    const runs = await listRuns();
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Run list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
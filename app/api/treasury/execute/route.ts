@@ -1,9 +1,22 @@
 // app/api/treasury/execute/route.ts
-// POST endpoint to execute a treasury plan via Circle wallets
-// Uses SSE streaming to report step-by-step progress
+// POST endpoint to execute an approved payment's server-issued treasury plan via Circle wallets
+// Uses SSE streaming to report step-by-step progress; { dryRun: true } returns a simulation as JSON instead
 
 import { NextRequest } from 'next/server';
-import { executeTreasuryPlan, TreasuryPlan, ExecutionStep } from '@/app/lib/services/treasuryManager';
+import { buildTreasuryPlan, executeTreasuryPlan, ExecutionStep } from '@/app/lib/services/treasuryManager';
+import { recordInvoiceSpend } from '@/app/lib/services/budgets';
+import {
+  claimPaymentForExecution,
+  completePaymentExecution,
+  EXECUTION_HEARTBEAT_MS,
+  getPendingPaymentByPlan,
+  requestReapproval,
+  touchPaymentExecution,
+} from '@/app/lib/services/approvals';
+import { issueTreasuryPlan, markPlanExecuted, verifyPlanForExecution } from '@/app/lib/services/treasuryPlans';
+import { completedStepIds, getPlanExecution } from '@/app/lib/services/executionState';
+import { appendAuditEntry } from '@/app/lib/services/auditLog';
+import { recordExecutionEnd, recordExecutionStart, recordExecutionStep } from '@/app/lib/agents/runHistory';
 
 function sendEvent(controller: ReadableStreamDefaultController, event: string, data: unknown) {
   const encoder = new TextEncoder();
@@ -14,40 +27,164 @@ function sendEvent(controller: ReadableStreamDefaultController, event: string, d
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { treasuryPlan } = body as { treasuryPlan: TreasuryPlan };
+    const { planId, runId: requestRunId, dryRun } = body as { planId?: string; runId?: string; dryRun?: boolean };
 
-    if (!treasuryPlan) {
+    // Only a server-issued plan ID is accepted; the plan itself never comes from the client
+    if (!planId || typeof planId !== 'string') {
       return new Response(
-        JSON.stringify({ error: 'Missing treasuryPlan in request body' }),
+        JSON.stringify({ error: 'Missing planId in request body' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
-
-    if (!treasuryPlan.canExecute) {
+    // The run the client is acting on; a plan ID copied from another run is refused
+    if (!requestRunId || typeof requestRunId !== 'string') {
       return new Response(
-        JSON.stringify({ error: treasuryPlan.reason || 'Plan cannot be executed' }),
+        JSON.stringify({ error: 'Missing runId in request body' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
+    const pending = await getPendingPaymentByPlan(planId);
+    if (!pending) {
+      return new Response(
+        JSON.stringify({ error: 'Plan not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Refuse plans that expired, already ran, belong to another run or changed since they were issued
+    const { plan: treasuryPlan, error: planError, status: planStatus } = await verifyPlanForExecution(planId, requestRunId);
+    if (!treasuryPlan) {
+      return new Response(
+        JSON.stringify({ error: planError }),
+        { status: planStatus, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A dry run simulates the plan against current chain state without claiming or submitting anything
+    if (dryRun) {
+      const { success, error, simulation } = await executeTreasuryPlan(treasuryPlan, () => {}, { dryRun: true });
+      return new Response(
+        JSON.stringify({ success, error: error ?? null, simulation }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only payments that reached quorum can run; claiming also blocks a concurrent second run
+    const { payment, error: claimError } = await claimPaymentForExecution(pending.id);
+    if (!payment) {
+      return new Response(
+        JSON.stringify({ error: 'Payment not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (claimError) {
+      return new Response(
+        JSON.stringify({ error: claimError }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { invoiceData, runId } = payment;
+
+    // No payment leaves the treasury without the exact plan in the audit log
+    try {
+      await appendAuditEntry({
+        action: 'execution.started',
+        runId,
+        paymentId: payment.id,
+        data: { invoiceData, treasuryPlan, approvals: payment.decisions },
+      });
+    } catch (error) {
+      console.error('❌ Failed to write audit entry, execution refused:', error);
+      await completePaymentExecution(payment.id, 'Audit log unavailable', payment.completedSteps);
+      return new Response(
+        JSON.stringify({ error: 'Audit log unavailable; payment was not executed' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const auditOutcome = (error: string | null) =>
+      appendAuditEntry({
+        action: error ? 'execution.failed' : 'execution.completed',
+        runId,
+        paymentId: payment.id,
+        data: { error },
+      }).catch(auditError => console.error('⚠️ Failed to write audit entry:', auditError));
+
+    // Step updates are also kept in the run history of the analysis that produced the plan
+    const logToRun = (action: () => Promise<void>) => {
+      if (!runId) return Promise.resolve();
+      return action().catch(error => console.error(`⚠️ Failed to update run ${runId}:`, error));
+    };
+
+    // Keeps the claim fresh while steps run, so only a dead server lets the payment go stale and be re-claimed
+    const touchClaim = () =>
+      void touchPaymentExecution(payment.id).catch(error => console.error('⚠️ Failed to refresh execution claim:', error));
+
     // Stream execution progress via SSE
     const stream = new ReadableStream({
       async start(controller) {
+        const heartbeat = setInterval(touchClaim, EXECUTION_HEARTBEAT_MS);
         try {
+          await logToRun(() => recordExecutionStart(runId!, payment.id));
+
           // Send initial event
+          // A retry resumes the same plan: completed steps are skipped, submitted ones are polled
+          const resumed = payment.completedSteps.length > 0;
           sendEvent(controller, 'execution_start', {
             steps: treasuryPlan.steps,
-            message: 'Execution started',
+            completedSteps: payment.completedSteps,
+            message: resumed ? `Resuming execution after ${payment.completedSteps.join(', ')}` : 'Execution started',
           });
 
           const result = await executeTreasuryPlan(
             treasuryPlan,
             (stepId: string, update: Partial<ExecutionStep>) => {
               sendEvent(controller, 'step_update', { stepId, ...update });
+              touchClaim();
+              void logToRun(() => recordExecutionStep(runId!, payment.id, stepId, update));
+              void appendAuditEntry({
+                action: 'execution.step_update',
+                runId,
+                paymentId: payment.id,
+                data: { stepId, ...update },
+              }).catch(error => console.error('⚠️ Failed to write audit entry:', error));
             }
           );
 
+          // The swap quote went stale or moved: nothing was submitted, so re-plan and ask for sign-off again
+          if (result.requiresReapproval) {
+            const error = result.error ?? 'Swap quote changed';
+            const rebuilt = await buildTreasuryPlan(invoiceData);
+            const freshPlan = rebuilt.canExecute ? await issueTreasuryPlan(rebuilt, runId) : null;
+            const updated = await requestReapproval(payment.id, freshPlan ?? rebuilt, error);
+            await logToRun(() => recordExecutionEnd(runId!, payment.id, error));
+            await auditOutcome(error);
+
+            sendEvent(controller, 'execution_error', {
+              success: false,
+              error,
+              requiresReapproval: updated?.status === 'pending',
+              payment: updated,
+              treasuryPlan: freshPlan ?? rebuilt,
+            });
+            return;
+          }
+
+          const completedSteps = completedStepIds(await getPlanExecution(planId));
+          await completePaymentExecution(payment.id, result.success ? null : result.error ?? 'Execution failed', completedSteps);
+          await logToRun(() => recordExecutionEnd(runId!, payment.id, result.success ? null : result.error ?? 'Execution failed'));
+          await auditOutcome(result.success ? null : result.error ?? 'Execution failed');
+
           if (result.success) {
+            await markPlanExecuted(planId);
+
+            // Count the payment against this month's budgets
+            await recordInvoiceSpend(invoiceData).catch(error => {
+              console.error('⚠️ Failed to record spend:', error);
+            });
+
             sendEvent(controller, 'execution_complete', {
               success: true,
               message: 'All steps completed successfully',
@@ -60,11 +197,17 @@ export async function POST(request: NextRequest) {
           }
         } catch (error) {
           console.error('Execution stream error:', error);
+          const message = error instanceof Error ? error.message : 'Unknown execution error';
+          const completedSteps = completedStepIds(await getPlanExecution(planId).catch(() => null));
+          await completePaymentExecution(payment.id, message, completedSteps.length > 0 ? completedSteps : payment.completedSteps);
+          await logToRun(() => recordExecutionEnd(runId!, payment.id, message));
+          await auditOutcome(message);
           sendEvent(controller, 'execution_error', {
             success: false,
             error: error instanceof Error ? error.message : 'Unknown execution error',
           });
         } finally {
+          clearInterval(heartbeat);
           controller.close();
         }
       },
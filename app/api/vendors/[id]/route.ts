@@ -0,0 +1,55 @@
+// app/api/vendors/[id]/route.ts
+// Vendor registry: update or remove a vendor
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteVendor, updateVendor, validateVendorInput } from '@/app/lib/services/vendorRegistry';
+import type { VendorInput } from '@/app/types';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as Partial<VendorInput>;
+
+    const validationError = validateVendorInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const vendor = await updateVendor(id, body as VendorInput);
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ vendor });
+  } catch (error) {
+    console.error('Vendor update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!(await deleteVendor(id))) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Vendor delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/vendors/route.ts
+// Vendor registry: list and register vendors
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createVendor, listVendors, validateVendorInput } from '@/app/lib/services/vendorRegistry';
+import type { VendorInput } from '@/app/types';
+
+export async function GET() {
+  try {
+    const vendors = await listVendors();
+    return NextResponse.json({ vendors });
+  } catch (error) {
+    console.error('Vendor list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as Partial<VendorInput>;
+
+    const validationError = validateVendorInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const vendor = await createVendor(body as VendorInput);
+    return NextResponse.json({ vendor }, { status: 201 });
+  } catch (error) {
+    console.error('Vendor create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
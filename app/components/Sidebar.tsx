@@ -3,14 +3,17 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { MessageSquarePlus, Landmark, FileText } from 'lucide-react';
+import { MessageSquarePlus, Landmark, FileText, ListChecks, Building2, History } from 'lucide-react';
 
 export function Sidebar() {
   const pathname = usePathname();
 
   const navItems = [
     { href: '/', label: 'Pay Invoice', icon: FileText },
+    { href: '/queue', label: 'Invoice Queue', icon: ListChecks },
     { href: '/treasury', label: 'Treasury', icon: Landmark },
+    { href: '/vendors', label: 'Vendors', icon: Building2 },
+    { href: '/history', label: 'History', icon: History },
   ];
 
   return (
@@ -0,0 +1,118 @@
+// components/chat/ApprovalPanel.tsx
+// M-of-N sign-off for a pending payment: quorum progress, decisions so far and approve/reject controls
+
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle, Loader2, Users, XCircle } from 'lucide-react';
+
+import type { ApprovalDecision, PendingPayment } from '@/app/types';
+
+interface ApprovalPanelProps {
+  payment: PendingPayment;
+  onDecision: (approverId: string, token: string, decision: ApprovalDecision['decision'], comment: string) => Promise<void>;
+  isDeciding?: boolean;
+}
+
+export function ApprovalPanel({ payment, onDecision, isDeciding }: ApprovalPanelProps): React.JSX.Element {
+  const undecided = payment.eligibleApprovers.filter(
+    approver => !payment.decisions.some(decision => decision.approverId === approver.id)
+  );
+  const [approverId, setApproverId] = useState(undecided[0]?.id ?? '');
+  const [comment, setComment] = useState('');
+  // The selected approver's secret token; sent with the decision and never stored
+  const [token, setToken] = useState('');
+
+  const approvals = payment.decisions.filter(decision => decision.decision === 'approve').length;
+  const required = payment.tier.requiredApprovals;
+  const selectedApprover = undecided.some(approver => approver.id === approverId) ? approverId : undecided[0]?.id ?? '';
+
+  const decide = async (decision: ApprovalDecision['decision']) => {
+    if (!selectedApprover || !token.trim()) return;
+    await onDecision(selectedApprover, token.trim(), decision, comment);
+    setToken('');
+    setComment('');
+  };
+
+  const inputClass = 'rounded-lg bg-white px-3 py-1.5 text-sm text-zinc-800 ring-1 ring-zinc-200 focus:outline-none focus:ring-2 focus:ring-[#ccf437]';
+
+  return (
+    <div className="rounded-xl border border-zinc-200/80 bg-gradient-to-br from-zinc-50 to-zinc-100/50 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+          <Users className="h-3.5 w-3.5" />
+          <span>Approvals — {payment.tier.label} tier</span>
+        </div>
+        <span className={`rounded-full px-2.5 py-0.5 text-[11px] font-bold ${
+          payment.status === 'rejected'
+            ? 'bg-red-100 text-red-700'
+            : approvals >= required
+            ? 'bg-green-100 text-green-700'
+            : 'bg-zinc-200 text-zinc-600'
+        }`}>
+          {payment.status === 'rejected' ? 'Rejected' : `${Math.min(approvals, required)} of ${required}`}
+        </span>
+      </div>
+
+      {/* Decisions so far */}
+      {payment.decisions.length > 0 && (
+        <div className="mb-3 space-y-1.5">
+          {payment.decisions.map(decision => (
+            <div key={decision.approverId} className="flex items-start gap-2 text-sm">
+              {decision.decision === 'approve' ? (
+                <CheckCircle className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-600" />
+              ) : (
+                <XCircle className="mt-0.5 h-4 w-4 flex-shrink-0 text-red-600" />
+              )}
+              <div className="min-w-0">
+                <span className="font-medium text-zinc-900">{decision.approverName}</span>
+                <span className="text-zinc-500"> {decision.decision === 'approve' ? 'approved' : 'rejected'} at {new Date(decision.decidedAt).toLocaleTimeString()}</span>
+                {decision.comment && <p className="text-xs text-zinc-500">“{decision.comment}”</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Sign-off controls */}
+      {payment.status === 'pending' && undecided.length > 0 && (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <select value={selectedApprover} onChange={event => setApproverId(event.target.value)} className={inputClass}>
+            {undecided.map(approver => <option key={approver.id} value={approver.id}>{approver.name}</option>)}
+          </select>
+          <input
+            type="password"
+            value={token}
+            onChange={event => setToken(event.target.value)}
+            placeholder="Approver token"
+            autoComplete="off"
+            className={inputClass}
+          />
+          <input
+            value={comment}
+            onChange={event => setComment(event.target.value)}
+            placeholder="Comment (optional)"
+            className={`${inputClass} flex-1`}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => decide('approve')}
+              disabled={isDeciding || !token.trim()}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-black px-3 py-1.5 text-xs font-semibold text-white hover:bg-zinc-800 disabled:opacity-50"
+            >
+              {isDeciding && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              Approve
+            </button>
+            <button
+              onClick={() => decide('reject')}
+              disabled={isDeciding || !token.trim()}
+              className="rounded-lg px-3 py-1.5 text-xs font-semibold text-red-600 ring-1 ring-red-200 hover:bg-red-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
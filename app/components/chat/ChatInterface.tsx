@@ -10,10 +10,12 @@ import { toast } from 'react-hot-toast';
 import { MessageList } from './MessageList';
 import { AgentThinkingTrace } from './AgentThinkingTrace';
 import { ChatMessages } from './ChatMessages';
+import { InvoiceReview, PendingInvoiceReview } from './InvoiceReview';
 import { useAgent } from '../AgentProvider';
 import { ThinkingLog } from '@/app/lib/agents/state';
 import { ExecutionStep } from '@/app/lib/services/treasuryManager';
 import type { ChatHistoryMessage, ChatMessage } from '@/app/types/chat';
+import type { ApprovalDecision, InvoiceCorrections, PendingPayment } from '@/app/types';
 
 const ANALYSIS_TRIGGER_PATTERN = /\b(analy[sz]e|analysis|review|scan|audit|check|process|summari[sz]e|extract|evaluate)\b/i;
 
@@ -47,10 +49,12 @@ export function ChatInterface(): React.JSX.Element {
   } = useAgent();
   const [thinkingLogs, setThinkingLogs] = useState<ThinkingLog[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [isApproving, setIsApproving] = useState(false);
+  const [isDeciding, setIsDeciding] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionDone, setExecutionDone] = useState(false);
   const [executionSteps, setExecutionSteps] = useState<ExecutionStep[]>([]);
+  const [pendingReview, setPendingReview] = useState<PendingInvoiceReview | null>(null);
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
   const eventSourceRef = useRef<EventSource | null>(null);
   const showToast = useCallback((message: string): void => {
     toast(message, {
@@ -80,6 +84,76 @@ export function ChatInterface(): React.JSX.Element {
     }
   };
 
+  const consumeAnalysisStream = useCallback(async (response: Response): Promise<void> => {
+    // Handle streaming response
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Failed to initialize stream reader');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim().startsWith('event: ')) {
+          const eventType = line.replace('event: ', '').split('\n')[0];
+          const dataMatch = line.match(/data: (.+)/);
+          
+          if (dataMatch) {
+            try {
+              const data = JSON.parse(dataMatch[1]);
+
+              switch (eventType) {
+                case 'thinking':
+                  setThinkingLogs(prev => {
+                    // Update existing log or add new one
+                    const existingIndex = prev.findIndex(l => l.step === data.step);
+                    if (existingIndex >= 0) {
+                      const updated = [...prev];
+                      // Preserve stable id to avoid remount/flicker
+                      updated[existingIndex] = {
+                        ...data,
+                        id: prev[existingIndex].id,
+                      };
+                      return updated;
+                    }
+                    return [...prev, data];
+                  });
+                  break;
+
+                case 'review':
+                  // Extraction done — wait for the reviewer before continuing
+                  setPendingReview(data);
+                  setIsStreaming(false);
+                  setIsLoading(false);
+                  break;
+
+                case 'complete':
+                  setAgentState(data);
+                  setIsStreaming(false);
+                  setIsLoading(false);
+                  break;
+
+                case 'error':
+                  throw new Error(data.error || 'Analysis failed');
+              }
+            } catch (e) {
+              console.error('Failed to parse SSE data:', e);
+            }
+          }
+        }
+      }
+    }
+  }, [setAgentState, setIsLoading]);
+
   const handleSubmit = async () => {
     if (!selectedFile) return;
 
@@ -92,6 +166,7 @@ export function ChatInterface(): React.JSX.Element {
     setIsStreaming(true);
     setAgentState(null);
     setThinkingLogs([]);
+    setPendingReview(null);
 
     try {
       const formData = new FormData();
@@ -108,66 +183,7 @@ export function ChatInterface(): React.JSX.Element {
         throw new Error(errorData.error || 'Failed to start analysis');
       }
 
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to initialize stream reader');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim().startsWith('event: ')) {
-            const eventType = line.replace('event: ', '').split('\n')[0];
-            const dataMatch = line.match(/data: (.+)/);
-            
-            if (dataMatch) {
-              try {
-                const data = JSON.parse(dataMatch[1]);
-
-                switch (eventType) {
-                  case 'thinking':
-                    setThinkingLogs(prev => {
-                      // Update existing log or add new one
-                      const existingIndex = prev.findIndex(l => l.step === data.step);
-                      if (existingIndex >= 0) {
-                        const updated = [...prev];
-                        // Preserve stable id to avoid remount/flicker
-                        updated[existingIndex] = {
-                          ...data,
-                          id: prev[existingIndex].id,
-                        };
-                        return updated;
-                      }
-                      return [...prev, data];
-                    });
-                    break;
-
-                  case 'complete':
-                    setAgentState(data);
-                    setIsStreaming(false);
-                    setIsLoading(false);
-                    break;
-
-                  case 'error':
-                    throw new Error(data.error || 'Analysis failed');
-                }
-              } catch (e) {
-                console.error('Failed to parse SSE data:', e);
-              }
-            }
-          }
-        }
-      }
+      await consumeAnalysisStream(response);
 
     } catch (error) {
       console.error('Error processing invoice:', error);
@@ -177,18 +193,55 @@ export function ChatInterface(): React.JSX.Element {
         pdfBuffer: null,
         fileName: selectedFile.name,
         payerAddress: null,
+        runId: null,
         currentStep: 'error',
         invoiceData: null,
         securityScan: null,
         paymentPlan: null,
         recommendation: null,
+        duplicateCheck: null,
+        vendorCheck: null,
+        budgetCheck: null,
+        policyGate: null,
         treasuryPlan: null,
+        pendingPayment: null,
         logs: [],
         error: error instanceof Error ? error.message : 'Unknown error occurred',
       });
     }
   };
 
+  const handleConfirmReview = async (corrections: InvoiceCorrections): Promise<void> => {
+    if (!pendingReview) return;
+
+    setIsSubmittingReview(true);
+    setIsLoading(true);
+    setIsStreaming(true);
+
+    try {
+      const response = await fetch('/api/agents/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewId: pendingReview.reviewId, corrections }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to continue analysis');
+      }
+
+      setPendingReview(null);
+      await consumeAnalysisStream(response);
+    } catch (error) {
+      console.error('Error resuming analysis:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to continue analysis');
+      setIsStreaming(false);
+      setIsLoading(false);
+    } finally {
+      setIsSubmittingReview(false);
+    }
+  };
+
   const handleSendMessage = async (): Promise<void> => {
     if (isChatLoading || isLoading) return;
 
@@ -241,19 +294,58 @@ export function ChatInterface(): React.JSX.Element {
     }
   };
 
-  const handleApprove = async () => {
-    if (!agentState?.treasuryPlan?.canExecute) return;
+  const handleDecision = async (
+    approverId: string,
+    token: string,
+    decision: ApprovalDecision['decision'],
+    comment: string
+  ): Promise<void> => {
+    const payment = agentState?.pendingPayment;
+    if (!agentState || !payment) return;
+
+    setIsDeciding(true);
+    try {
+      const response = await fetch(`/api/payments/${payment.id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ approverId, comment }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record decision');
+      }
+
+      const updated = data.payment as PendingPayment;
+      setAgentState({ ...agentState, pendingPayment: updated });
+      if (updated.status === 'approved') {
+        showToast('Quorum reached — payment can be executed');
+      } else if (updated.status === 'rejected') {
+        showToast('Payment rejected');
+      }
+    } catch (error) {
+      console.error('Approval decision failed:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to record decision');
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const handleExecute = async () => {
+    const payment = agentState?.pendingPayment;
+    if (!agentState?.treasuryPlan?.canExecute || !payment) return;
 
-    setIsApproving(true);
     setIsExecuting(true);
     // Initialize execution steps from the plan
     setExecutionSteps(agentState.treasuryPlan.steps.map(s => ({ ...s })));
+    // Steps done so far; a failed payment resumes after them
+    const completedSteps = [...payment.completedSteps];
 
     try {
       const response = await fetch('/api/treasury/execute', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ treasuryPlan: agentState.treasuryPlan }),
+        body: JSON.stringify({ planId: payment.planId, runId: agentState.runId }),
       });
 
       if (!response.ok) {
@@ -267,6 +359,8 @@ export function ChatInterface(): React.JSX.Element {
 
       const decoder = new TextDecoder();
       let buffer = '';
+      // Set by execution_complete / execution_error; a stream that ends without either failed mid-run
+      let finished = false;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -282,46 +376,62 @@ export function ChatInterface(): React.JSX.Element {
             const dataMatch = line.match(/data: (.+)/);
 
             if (dataMatch) {
+              // Only a malformed event is skipped; execution errors below must reach the outer catch
+              let data;
               try {
-                const data = JSON.parse(dataMatch[1]);
-
-                switch (eventType) {
-                  case 'step_update':
-                    setExecutionSteps(prev =>
-                      prev.map(s =>
-                        s.id === data.stepId
-                          ? { ...s, ...data }
-                          : s
-                      )
-                    );
-                    break;
+                data = JSON.parse(dataMatch[1]);
+              } catch (e) {
+                console.error('Failed to parse execution SSE:', e);
+                continue;
+              }
 
-                  case 'execution_complete':
-                    showToast('Payment executed successfully');
+              switch (eventType) {
+                case 'step_update':
+                  if (data.status === 'success' && !completedSteps.includes(data.stepId)) {
+                    completedSteps.push(data.stepId);
+                  }
+                  setExecutionSteps(prev =>
+                    prev.map(s =>
+                      s.id === data.stepId
+                        ? { ...s, ...data }
+                        : s
+                    )
+                  );
+                  break;
+
+                case 'execution_complete':
+                  finished = true;
+                  setAgentState({ ...agentState, pendingPayment: { ...payment, status: 'executed' } });
+                  showToast('Payment executed successfully');
+                  setIsExecuting(false);
+                  setExecutionDone(true);
+                  break;
+
+                case 'execution_error':
+                  finished = true;
+                  // The swap quote changed: the payment is back for sign-off on a fresh plan
+                  if (data.requiresReapproval) {
+                    setAgentState({ ...agentState, treasuryPlan: data.treasuryPlan, pendingPayment: data.payment });
+                    setExecutionSteps([]);
                     setIsExecuting(false);
-                    setExecutionDone(true);
+                    showToast(data.error);
                     break;
-
-                  case 'execution_error':
-                    throw new Error(data.error || 'Execution failed');
-                }
-              } catch (e) {
-                if (e instanceof Error && e.message !== 'Execution failed') {
-                  console.error('Failed to parse execution SSE:', e);
-                } else {
-                  throw e;
-                }
+                  }
+                  throw new Error(data.error || 'Execution failed');
               }
             }
           }
         }
       }
+
+      if (!finished) {
+        throw new Error('Execution stream ended before the payment finished');
+      }
     } catch (error) {
       console.error('Execution failed:', error);
       showToast(error instanceof Error ? error.message : 'Execution failed');
+      setAgentState({ ...agentState, pendingPayment: { ...payment, status: 'failed', completedSteps } });
       setIsExecuting(false);
-    } finally {
-      setIsApproving(false);
     }
   };
 
@@ -333,6 +443,7 @@ export function ChatInterface(): React.JSX.Element {
     setSelectedFile(null);
     setAgentState(null);
     setThinkingLogs([]);
+    setPendingReview(null);
     setIsStreaming(false);
     setIsLoading(false);
     setExecutionSteps([]);
@@ -360,14 +471,27 @@ export function ChatInterface(): React.JSX.Element {
           </div>
         )}
 
+        {/* Invoice Review - confirm or correct extracted fields */}
+        {pendingReview && (
+          <div className="max-w-2xl mx-auto">
+            <InvoiceReview
+              key={pendingReview.reviewId}
+              review={pendingReview}
+              onConfirm={handleConfirmReview}
+              isSubmitting={isSubmittingReview}
+            />
+          </div>
+        )}
+
         {/* Results */}
         {agentState && agentState.currentStep === 'complete' && (
           <div className="max-w-2xl mx-auto">
             <MessageList
               state={agentState}
               isLoading={isLoading}
-              onApprove={handleApprove}
-              isApproving={isApproving}
+              onExecute={handleExecute}
+              onDecision={handleDecision}
+              isDeciding={isDeciding}
               executionSteps={executionSteps.length > 0 ? executionSteps : undefined}
               isExecuting={isExecuting}
               executionDone={executionDone}
@@ -0,0 +1,106 @@
+// components/chat/InvoiceReview.tsx
+// Editable extracted invoice fields, confirmed by a reviewer before analysis continues
+
+'use client';
+
+import React, { useState } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+
+import type { InvoiceCorrections, InvoiceData, InvoiceEvidenceField } from '@/app/types';
+
+const FIELD_LABELS: Record<InvoiceEvidenceField, string> = {
+  walletAddress: 'Wallet Address',
+  amount: 'Amount',
+  recipient: 'Recipient',
+  purpose: 'Purpose',
+  invoiceNumber: 'Invoice #',
+  issueDate: 'Issued',
+  dueDate: 'Due',
+};
+
+export interface PendingInvoiceReview {
+  reviewId: string;
+  invoiceData: InvoiceData;
+  editableFields: InvoiceEvidenceField[];
+  walletAddressIssue: string | null;
+}
+
+interface InvoiceReviewProps {
+  review: PendingInvoiceReview;
+  onConfirm: (corrections: InvoiceCorrections) => void;
+  isSubmitting?: boolean;
+}
+
+export function InvoiceReview({ review, onConfirm, isSubmitting }: InvoiceReviewProps): React.JSX.Element {
+  const [values, setValues] = useState<InvoiceCorrections>(() =>
+    Object.fromEntries(review.editableFields.map(field => [field, review.invoiceData[field]]))
+  );
+
+  const handleConfirm = () => {
+    // Only send fields the reviewer actually changed
+    const corrections: InvoiceCorrections = {};
+    for (const field of review.editableFields) {
+      const value = values[field]?.trim();
+      if (value && value !== review.invoiceData[field]) {
+        corrections[field] = value;
+      }
+    }
+    onConfirm(corrections);
+  };
+
+  return (
+    <div className="rounded-2xl border border-amber-200 bg-gradient-to-br from-amber-50/80 to-yellow-50/50 p-6 shadow-[0_4px_20px_-4px_rgba(0,0,0,0.08)]">
+      <div className="mb-4 flex items-center gap-2.5">
+        <div className="flex h-9 w-9 items-center justify-center rounded-xl bg-white text-amber-600 shadow-sm ring-1 ring-amber-200/60">
+          <ClipboardCheck className="h-4.5 w-4.5" />
+        </div>
+        <div>
+          <p className="text-base font-semibold text-zinc-900">Review extracted fields</p>
+          <p className="text-xs text-zinc-500">Correct anything misread before the wallet scan and payment plan run.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {review.editableFields.map(field => {
+          const evidence = review.invoiceData.evidence?.[field];
+          // Flag stays until the reviewer types a different address
+          const flagged = field === 'walletAddress' && review.walletAddressIssue !== null
+            && values.walletAddress?.trim() === review.invoiceData.walletAddress;
+          return (
+            <label
+              key={field}
+              className={`flex flex-col gap-1 ${field === 'walletAddress' || field === 'purpose' ? 'sm:col-span-2' : ''}`}
+            >
+              <span className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-wider text-zinc-400">
+                {FIELD_LABELS[field]}
+                {evidence && (
+                  <span className={`normal-case tracking-normal ${evidence.confidence >= 0.8 ? 'text-[#8ab320]' : 'text-amber-600'}`}>
+                    {Math.round(evidence.confidence * 100)}% confidence
+                  </span>
+                )}
+              </span>
+              <input
+                type="text"
+                value={values[field] ?? ''}
+                onChange={event => setValues(prev => ({ ...prev, [field]: event.target.value }))}
+                disabled={isSubmitting}
+                className={`rounded-lg bg-white px-3 py-1.5 text-sm text-zinc-800 ring-1 focus:outline-none focus:ring-2 focus:ring-[#ccf437] ${flagged ? 'ring-red-300' : 'ring-zinc-200'} ${field === 'walletAddress' ? 'font-mono text-xs' : ''}`}
+              />
+              {flagged && (
+                <span className="text-xs text-red-600">{review.walletAddressIssue} - enter the payout address from the invoice</span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={handleConfirm}
+        disabled={isSubmitting}
+        className="mt-5 w-full rounded-xl bg-black px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-zinc-800 disabled:bg-zinc-400"
+      >
+        {isSubmitting ? 'Continuing analysis...' : 'Confirm & Continue'}
+      </button>
+    </div>
+  );
+}
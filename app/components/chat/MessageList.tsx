@@ -19,12 +19,27 @@ import {
 } from 'lucide-react';
 import { AgentState } from '@/app/lib/agents/state';
 import { ExecutionStep } from '@/app/lib/services/treasuryManager';
+import { reconcileInvoiceTotals } from '@/app/lib/services/invoiceValidation';
+import { ApprovalPanel } from './ApprovalPanel';
+import {
+  AddressLookAlike,
+  ApprovalDecision,
+  BudgetCheck,
+  ChainScan,
+  DuplicateInvoiceCheck,
+  FieldEvidence,
+  InvoiceData,
+  RiskScoreContribution,
+  RiskThresholds,
+  VendorCheck,
+} from '@/app/types';
 
 interface MessageListProps {
   state: AgentState | null;
   isLoading: boolean;
-  onApprove?: () => void;
-  isApproving?: boolean;
+  onExecute?: () => void;
+  onDecision?: (approverId: string, token: string, decision: ApprovalDecision['decision'], comment: string) => Promise<void>;
+  isDeciding?: boolean;
   executionSteps?: ExecutionStep[];
   isExecuting?: boolean;
   executionDone?: boolean;
@@ -122,19 +137,44 @@ function CardHeader({
   );
 }
 
+// Extraction confidence and the verbatim text a field was read from
+function EvidenceNote({ evidence }: { evidence: FieldEvidence }) {
+  const percent = Math.round(evidence.confidence * 100);
+  return (
+    <div className="flex flex-col gap-0.5 text-[11px] leading-snug">
+      <span className={`font-semibold ${
+        evidence.confidence >= 0.8
+          ? 'text-[#8ab320]'
+          : evidence.confidence >= 0.5
+          ? 'text-amber-600'
+          : 'text-red-600'
+      }`}>
+        {percent}% confidence{evidence.page !== null ? ` · page ${evidence.page}` : ''}
+      </span>
+      {evidence.snippet && (
+        <span className="truncate font-mono text-zinc-400" title={evidence.snippet}>
+          “{evidence.snippet}”
+        </span>
+      )}
+    </div>
+  );
+}
+
 // Data field component for consistent styling
 function DataField({ 
   label, 
   value, 
   isCode = false,
   highlight = false,
-  size = 'default'
+  size = 'default',
+  evidence
 }: { 
   label: string; 
   value: React.ReactNode; 
   isCode?: boolean;
   highlight?: boolean;
   size?: 'default' | 'large';
+  evidence?: FieldEvidence;
 }) {
   return (
     <div className="flex flex-col gap-1.5">
@@ -153,6 +193,293 @@ function DataField({
           {value}
         </span>
       )}
+      {evidence && <EvidenceNote evidence={evidence} />}
+    </div>
+  );
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Line item breakdown with reconciliation against the stated totals
+function InvoiceBreakdown({ invoiceData }: { invoiceData: InvoiceData }) {
+  const totalsCheck = reconcileInvoiceTotals(invoiceData);
+  const totalsRows = [
+    { label: 'Subtotal', value: invoiceData.subtotal ?? totalsCheck.lineItemsSum },
+    { label: 'Discount', value: invoiceData.discount !== null ? -invoiceData.discount : null },
+    { label: 'Tax', value: invoiceData.tax },
+    { label: 'Total', value: totalsCheck.statedTotal },
+  ].filter(row => row.value !== null);
+
+  if (invoiceData.lineItems.length === 0 && totalsRows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-5 rounded-xl border border-zinc-200/80 bg-gradient-to-br from-zinc-50 to-zinc-100/50 p-4">
+      <div className="mb-3 text-xs font-semibold uppercase tracking-wider text-zinc-500">
+        Line Items
+      </div>
+      {invoiceData.lineItems.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[11px] uppercase tracking-wider text-zinc-400">
+              <th className="pb-2 font-semibold">Description</th>
+              <th className="pb-2 text-right font-semibold">Qty</th>
+              <th className="pb-2 text-right font-semibold">Unit</th>
+              <th className="pb-2 text-right font-semibold">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-200/60">
+            {invoiceData.lineItems.map((item, idx) => (
+              <tr key={idx} className="text-zinc-700">
+                <td className="py-1.5 pr-2">{item.description}</td>
+                <td className="py-1.5 text-right tabular-nums">{item.quantity}</td>
+                <td className="py-1.5 text-right tabular-nums">{formatMoney(item.unitPrice)}</td>
+                <td className="py-1.5 text-right tabular-nums font-medium">{formatMoney(item.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {totalsRows.length > 0 && (
+        <div className="mt-3 space-y-1 border-t border-zinc-200/80 pt-3">
+          {totalsRows.map(row => (
+            <div key={row.label} className="flex justify-between text-sm">
+              <span className={row.label === 'Total' ? 'font-semibold text-zinc-900' : 'text-zinc-500'}>{row.label}</span>
+              <span className={`tabular-nums ${row.label === 'Total' ? 'font-bold text-zinc-900' : 'text-zinc-700'}`}>
+                {formatMoney(row.value as number)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {!totalsCheck.isConsistent && (
+        <div className="mt-3 rounded-lg bg-gradient-to-br from-amber-50 to-orange-50/50 p-3 ring-1 ring-amber-200/60">
+          <div className="mb-1.5 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-amber-700">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            <span>Totals Do Not Reconcile</span>
+          </div>
+          <div className="space-y-1">
+            {totalsCheck.issues.map((issue, idx) => (
+              <div key={idx} className="text-xs text-amber-800 leading-relaxed">{issue}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Warning shown when the invoice matches one processed earlier
+function DuplicateNotice({ duplicateCheck }: { duplicateCheck: DuplicateInvoiceCheck }) {
+  return (
+    <div className="mt-5 rounded-xl bg-gradient-to-br from-red-50 to-rose-50/50 p-4 ring-1 ring-red-200/60">
+      <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-red-700">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        <span>Possible Duplicate</span>
+      </div>
+      <div className="space-y-1.5 text-sm text-red-800">
+        {duplicateCheck.reasons.map((reason, idx) => (
+          <p key={idx} className="leading-relaxed">{reason}</p>
+        ))}
+      </div>
+      {duplicateCheck.originalUrl && duplicateCheck.original && (
+        <a
+          href={duplicateCheck.originalUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-flex text-xs font-semibold text-red-700 underline underline-offset-2 hover:text-red-900"
+        >
+          View original ({duplicateCheck.original.fileName}, {new Date(duplicateCheck.original.processedAt).toLocaleDateString()})
+        </a>
+      )}
+    </div>
+  );
+}
+
+// Vendor registry result: confirmation, or a redirection warning
+function VendorNotice({ vendorCheck }: { vendorCheck: VendorCheck }) {
+  if (vendorCheck.status === 'verified') {
+    return (
+      <div className="mt-5 flex items-center gap-2 rounded-xl bg-[#ccf437]/10 px-4 py-3 text-sm text-zinc-700 ring-1 ring-[#ccf437]/40">
+        <CheckCircle className="h-4 w-4 text-[#8ab320]" />
+        <span>Payout address approved for registered vendor <strong>{vendorCheck.vendor?.name}</strong></span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-5 rounded-xl bg-gradient-to-br from-red-50 to-rose-50/50 p-4 ring-1 ring-red-200/60">
+      <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-red-700">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        <span>Payout Address Not On File</span>
+      </div>
+      <div className="space-y-1.5 text-sm text-red-800">
+        {vendorCheck.issues.map((issue, idx) => (
+          <p key={idx} className="leading-relaxed">{issue}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Remaining monthly budget for the invoice's vendor and category
+function BudgetNotice({ budgetCheck }: { budgetCheck: BudgetCheck }) {
+  if (!budgetCheck.overBudget) {
+    const tightest = budgetCheck.statuses.reduce((min, status) => (status.remainingAfter < min.remainingAfter ? status : min));
+    return (
+      <div className="mt-5 flex items-center gap-2 rounded-xl bg-zinc-50 px-4 py-3 text-sm text-zinc-700 ring-1 ring-zinc-200/60">
+        <CheckCircle className="h-4 w-4 text-[#8ab320]" />
+        <span>
+          Within budget: {tightest.remainingAfter.toFixed(2)} {tightest.budget.currency} left
+          {tightest.budget.scope === 'overall' ? ' overall' : ` for ${tightest.budget.key}`} after this invoice
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-5 rounded-xl bg-gradient-to-br from-amber-50 to-orange-50/50 p-4 ring-1 ring-amber-200/60">
+      <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-amber-700">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        <span>Over Budget ({budgetCheck.month})</span>
+      </div>
+      <div className="space-y-1.5 text-sm text-amber-800">
+        {budgetCheck.issues.map((issue, idx) => (
+          <p key={idx} className="leading-relaxed">{issue}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Address with its matching leading/trailing characters emphasized
+function HighlightedAddress({ address, prefix, suffix }: { address: string; prefix: number; suffix: number }) {
+  const head = address.slice(0, 2 + prefix);
+  const tail = suffix > 0 ? address.slice(-suffix) : '';
+  const middle = address.slice(head.length, address.length - tail.length);
+  return (
+    <code className="break-all font-mono text-xs">
+      <span className="font-bold text-red-700">{head}</span>
+      <span className="text-zinc-500">{middle}</span>
+      <span className="font-bold text-red-700">{tail}</span>
+    </code>
+  );
+}
+
+// Prominent address-poisoning warning: invoice address vs. the counterparty it mimics
+function LookAlikeAlert({ address, matches }: { address: string; matches: AddressLookAlike[] }) {
+  return (
+    <div className="mb-4 rounded-xl bg-gradient-to-br from-red-50 to-rose-50/50 p-4 ring-2 ring-red-300">
+      <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-red-700">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        <span>Possible Address Poisoning</span>
+      </div>
+      <p className="mb-3 text-sm text-red-800">
+        The invoice address looks like an address we have transacted with, but it is not the same address.
+      </p>
+      {matches.map(match => (
+        <div key={match.counterparty} className="mb-2 space-y-1 last:mb-0">
+          <div className="flex flex-col gap-0.5">
+            <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Invoice</span>
+            <HighlightedAddress address={address.toLowerCase()} prefix={match.matchingPrefix} suffix={match.matchingSuffix} />
+          </div>
+          <div className="flex flex-col gap-0.5">
+            <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">
+              {match.paidBefore ? 'Previously paid' : 'Past counterparty'}
+            </span>
+            <HighlightedAddress address={match.counterparty} prefix={match.matchingPrefix} suffix={match.matchingSuffix} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Risk policy rules that produced the score
+function ScoreBreakdown({ breakdown }: { breakdown: RiskScoreContribution[] }) {
+  return (
+    <div className="mb-4 space-y-1.5">
+      <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Why this score</span>
+      {breakdown.map(contribution => (
+        <div key={contribution.ruleId} className="flex items-center justify-between text-sm">
+          <span className="text-zinc-600">{contribution.label}</span>
+          <span className="font-semibold tabular-nums text-zinc-800">
+            {contribution.setsScore
+              ? `= ${contribution.points}`
+              : `${contribution.points >= 0 ? '+' : ''}${contribution.points}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function describeChainContract(chainScan: ChainScan): string {
+  if (!chainScan.isContract) return 'EOA';
+  if (chainScan.contract?.isSafe) return `Safe ${chainScan.contract.safeThreshold}/${chainScan.contract.safeOwners.length}`;
+  if (chainScan.contract?.isErc20) return `Token contract${chainScan.contract.tokenSymbol ? ` (${chainScan.contract.tokenSymbol})` : ''}`;
+  const kind = chainScan.contract?.isProxy ? 'proxy' : 'contract';
+  return chainScan.isVerified ? `Verified ${kind}` : `Unverified ${kind}`;
+}
+
+type RiskBand = 'high' | 'medium' | 'low' | 'unscored';
+
+const RISK_BAND_STYLES: Record<RiskBand, { label: string; text: string; badge: string; bar: string }> = {
+  high: {
+    label: 'High Risk',
+    text: 'text-red-600',
+    badge: 'bg-red-100 text-red-700',
+    bar: 'bg-gradient-to-r from-red-400 to-red-500 shadow-lg shadow-red-500/30',
+  },
+  medium: {
+    label: 'Medium Risk',
+    text: 'text-amber-600',
+    badge: 'bg-amber-100 text-amber-700',
+    bar: 'bg-gradient-to-r from-amber-400 to-orange-500 shadow-lg shadow-amber-500/30',
+  },
+  low: {
+    label: 'Low Risk',
+    text: 'text-[#a8cc2a]',
+    badge: 'bg-[#ccf437]/20 text-[#8ab320]',
+    bar: 'bg-gradient-to-r from-[#ccf437] to-[#a8cc2a] shadow-lg shadow-[#ccf437]/30',
+  },
+  unscored: {
+    label: 'Risk Score',
+    text: 'text-zinc-600',
+    badge: 'bg-zinc-100 text-zinc-600',
+    bar: 'bg-zinc-400',
+  },
+};
+
+// Bands use the policy thresholds saved with the scan; scans saved without them are not banded
+function riskBand(score: number, thresholds: RiskThresholds | undefined): RiskBand {
+  if (!thresholds) return 'unscored';
+  return score >= thresholds.reject ? 'high' : score >= thresholds.review ? 'medium' : 'low';
+}
+
+// Per-chain risk behind the aggregated score
+function ChainBreakdown({ chainScans, thresholds }: { chainScans: ChainScan[]; thresholds: RiskThresholds | undefined }) {
+  return (
+    <div className="mb-4 divide-y divide-zinc-100 rounded-xl ring-1 ring-zinc-200/80">
+      {chainScans.map(chainScan => (
+        <div key={chainScan.chain} className="flex items-center justify-between px-4 py-2 text-sm">
+          <span className="font-medium text-zinc-700">{chainScan.chainName}</span>
+          {chainScan.error ? (
+            <span className="text-xs text-zinc-400">Unavailable</span>
+          ) : (
+            <span className="flex items-center gap-3 text-xs text-zinc-500">
+              <span>{chainScan.transactionCount} txs</span>
+              <span>{describeChainContract(chainScan)}</span>
+              <span className={`font-semibold tabular-nums ${RISK_BAND_STYLES[riskBand(chainScan.riskScore, thresholds)].text}`}>
+                {chainScan.riskScore}/100
+              </span>
+            </span>
+          )}
+        </div>
+      ))}
     </div>
   );
 }
@@ -171,7 +498,7 @@ function FlowConnector() {
   );
 }
 
-export function MessageList({ state, isLoading, onApprove, isApproving, executionSteps, isExecuting, executionDone }: MessageListProps) {
+export function MessageList({ state, isLoading, onExecute, onDecision, isDeciding, executionSteps, isExecuting, executionDone }: MessageListProps) {
   if (!state && !isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -189,6 +516,9 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
   const hasSecurity = Boolean(state?.securityScan);
   const hasRecommendation = Boolean(state?.recommendation);
   const hasTreasury = Boolean(state?.treasuryPlan);
+  const riskStyle = state?.securityScan
+    ? RISK_BAND_STYLES[riskBand(state.securityScan.riskScore, state.securityScan.riskThresholds)]
+    : RISK_BAND_STYLES.unscored;
 
   return (
     <div className="flex flex-col gap-5">
@@ -229,22 +559,48 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
               label="Wallet Address" 
               value={`${state.invoiceData.walletAddress.slice(0, 10)}...${state.invoiceData.walletAddress.slice(-8)}`}
               isCode
+              evidence={state.invoiceData.evidence?.walletAddress}
             />
             <DataField 
               label="Amount" 
               value={state.invoiceData.amount}
               highlight
               size="large"
+              evidence={state.invoiceData.evidence?.amount}
             />
             <DataField 
               label="Recipient" 
               value={state.invoiceData.recipient}
+              evidence={state.invoiceData.evidence?.recipient}
             />
             <DataField 
               label="Purpose" 
               value={state.invoiceData.purpose}
+              evidence={state.invoiceData.evidence?.purpose}
             />
+            {state.invoiceData.invoiceNumber !== 'NOT_FOUND' && (
+              <DataField
+                label="Invoice Number"
+                value={state.invoiceData.invoiceNumber}
+                evidence={state.invoiceData.evidence?.invoiceNumber}
+              />
+            )}
+            {(state.invoiceData.issueDate !== 'NOT_FOUND' || state.invoiceData.dueDate !== 'NOT_FOUND') && (
+              <DataField
+                label="Issued / Due"
+                value={`${state.invoiceData.issueDate} → ${state.invoiceData.dueDate}`}
+                evidence={state.invoiceData.evidence?.dueDate ?? state.invoiceData.evidence?.issueDate}
+              />
+            )}
           </div>
+
+          <InvoiceBreakdown invoiceData={state.invoiceData} />
+
+          {state.duplicateCheck?.isDuplicate && <DuplicateNotice duplicateCheck={state.duplicateCheck} />}
+          {state.vendorCheck && state.vendorCheck.status !== 'unknown-vendor' && (
+            <VendorNotice vendorCheck={state.vendorCheck} />
+          )}
+          {state.budgetCheck && state.budgetCheck.statuses.length > 0 && <BudgetNotice budgetCheck={state.budgetCheck} />}
         </Card>
       )}
       {state?.invoiceData && (state.securityScan || state.paymentPlan || state.recommendation || state.treasuryPlan) && (
@@ -260,16 +616,8 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
             step={2}
             isComplete={hasSecurity}
             badge={
-              <div className={`
-                flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-bold
-                ${state.securityScan.riskScore >= 70
-                  ? 'bg-red-100 text-red-700'
-                  : state.securityScan.riskScore >= 40
-                  ? 'bg-amber-100 text-amber-700'
-                  : 'bg-[#ccf437]/20 text-[#8ab320]'
-                }
-              `}>
-                {state.securityScan.riskScore >= 70 ? 'High Risk' : state.securityScan.riskScore >= 40 ? 'Medium Risk' : 'Low Risk'}
+              <div className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-bold ${riskStyle.badge}`}>
+                {riskStyle.label}
               </div>
             }
           />
@@ -277,32 +625,30 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
           <div className="mb-5">
             <div className="mb-2 flex items-center justify-between">
               <span className="text-sm font-medium text-zinc-600">Risk Assessment</span>
-              <span className={`
-                text-2xl font-bold tabular-nums
-                ${state.securityScan.riskScore >= 70
-                  ? 'text-red-600'
-                  : state.securityScan.riskScore >= 40
-                  ? 'text-amber-600'
-                  : 'text-[#a8cc2a]'
-                }
-              `}>
+              <span className={`text-2xl font-bold tabular-nums ${riskStyle.text}`}>
                 {state.securityScan.riskScore}<span className="text-sm font-medium text-zinc-400">/100</span>
               </span>
             </div>
             <div className="h-3 w-full overflow-hidden rounded-full bg-zinc-100 shadow-inner">
               <div
-                className={`h-full rounded-full transition-all duration-700 ease-out ${
-                  state.securityScan.riskScore >= 70
-                    ? 'bg-gradient-to-r from-red-400 to-red-500 shadow-lg shadow-red-500/30'
-                    : state.securityScan.riskScore >= 40
-                    ? 'bg-gradient-to-r from-amber-400 to-orange-500 shadow-lg shadow-amber-500/30'
-                    : 'bg-gradient-to-r from-[#ccf437] to-[#a8cc2a] shadow-lg shadow-[#ccf437]/30'
-                }`}
+                className={`h-full rounded-full transition-all duration-700 ease-out ${riskStyle.bar}`}
                 style={{ width: `${Math.max(state.securityScan.riskScore, 3)}%` }}
               />
             </div>
           </div>
 
+          {state.securityScan.riskBreakdown?.length > 0 && (
+            <ScoreBreakdown breakdown={state.securityScan.riskBreakdown} />
+          )}
+
+          {state.securityScan.chainScans?.length > 0 && (
+            <ChainBreakdown chainScans={state.securityScan.chainScans} thresholds={state.securityScan.riskThresholds} />
+          )}
+
+          {state.securityScan.lookAlikeMatches?.length > 0 && state.invoiceData && (
+            <LookAlikeAlert address={state.invoiceData.walletAddress} matches={state.securityScan.lookAlikeMatches} />
+          )}
+
           {state.securityScan.warnings.length > 0 && (
             <div className="rounded-xl bg-gradient-to-br from-amber-50 to-orange-50/50 p-4 ring-1 ring-amber-200/60">
               <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-amber-700">
@@ -391,6 +737,14 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
             {state.recommendation.summary}
           </p>
 
+          {state.policyGate?.overridden && (
+            <div className="mb-5 rounded-xl bg-zinc-50 px-4 py-3 text-xs text-zinc-600 ring-1 ring-zinc-200">
+              <span className="font-semibold text-zinc-800">Policy override:</span>{' '}
+              LLM recommended {state.policyGate.llmRecommendation.recommendation}, enforced{' '}
+              {state.policyGate.finalVerdict} by rule <code>{state.policyGate.enforcedBy}</code>
+            </div>
+          )}
+
           <div className={`
             rounded-xl p-4
             ${state.recommendation.recommendation === 'APPROVE'
@@ -489,7 +843,9 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
                 {state.treasuryPlan.swapQuoteEth && (
                   <DataField
                     label="Swap Cost (ETH)"
-                    value={`~${parseFloat(state.treasuryPlan.swapQuoteEth).toFixed(6)} ETH`}
+                    value={`~${parseFloat(state.treasuryPlan.swapQuoteEth).toFixed(6)} ETH${
+                      state.treasuryPlan.swapQuote ? ` (block ${state.treasuryPlan.swapQuote.blockNumber})` : ''
+                    }`}
                   />
                 )}
                 <DataField
@@ -510,6 +866,7 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
               <div className="space-y-3">
                 {(executionSteps || state.treasuryPlan.steps).map((step, idx) => {
                   const stepStatus = step.status;
+                  const simulated = state.treasuryPlan?.simulation?.steps.find(sim => sim.stepId === step.id);
                   return (
                     <div key={step.id} className="flex items-start gap-3">
                       <div className={`
@@ -536,6 +893,17 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
                       <div className="flex-1 min-w-0">
                         <div className="text-sm font-medium text-zinc-900">{step.name}</div>
                         <div className="text-xs text-zinc-500">{step.description}</div>
+                        {simulated && stepStatus === 'pending' && (
+                          <div className={`mt-1 text-[11px] ${simulated.status === 'failed' ? 'text-red-600' : 'text-zinc-400'}`}>
+                            {simulated.status === 'failed'
+                              ? `Simulation reverted: ${simulated.error}`
+                              : [
+                                  simulated.status === 'success' ? 'Simulated' : 'Not simulated',
+                                  simulated.gasEstimate && `gas ~${Number(simulated.gasEstimate).toLocaleString()}`,
+                                  ...simulated.balanceChanges.map(change => `${change.amount.startsWith('-') ? '' : '+'}${change.amount} ${change.token}`),
+                                ].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
                         {step.txHash && step.txHash.startsWith('0x') && (
                           <a
                             href={getTxExplorerUrl(step.txHash, step.id)}
@@ -569,7 +937,7 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
             </div>
           )}
 
-          {/* Approval Button / Done State */}
+          {/* Sign-off / Execute Button / Done State */}
           {state.treasuryPlan.canExecute && (
             <div className="mt-5 flex flex-col gap-3">
               {executionDone ? (
@@ -577,36 +945,55 @@ export function MessageList({ state, isLoading, onApprove, isApproving, executio
                   <CheckCircle className="h-5 w-5 text-green-600" />
                   <span className="text-sm font-bold text-green-700">Payment Executed Successfully</span>
                 </div>
-              ) : onApprove && (
-                <button
-                  onClick={onApprove}
-                  disabled={isApproving || isExecuting}
-                  className={`
-                    group relative inline-flex items-center justify-center gap-2 rounded-xl px-6 py-3.5 text-sm font-bold transition-all duration-200
-                    ${isApproving || isExecuting
-                      ? 'bg-zinc-100 text-zinc-400 cursor-not-allowed'
-                      : 'bg-gradient-to-r from-violet-700 to-violet-900 text-white shadow-lg shadow-violet-900/20 hover:shadow-xl hover:shadow-violet-900/30 hover:-translate-y-0.5 active:translate-y-0'
-                    }
-                  `}
-                >
-                  {isExecuting ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Executing...
-                    </>
-                  ) : isApproving ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Submitting...
-                    </>
-                  ) : (
-                    <>
-                      <Landmark className="h-4 w-4" />
-                      Approve & Execute
-                      <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-0.5" />
-                    </>
+              ) : (
+                <>
+                  {state.pendingPayment?.status === 'pending' && state.pendingPayment.executionError && (
+                    <div className="mb-3 flex items-start gap-2.5 rounded-xl bg-amber-50 p-3 text-xs text-amber-800 ring-1 ring-amber-200/60">
+                      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-amber-600" />
+                      <span className="leading-relaxed">Re-approval required: {state.pendingPayment.executionError}</span>
+                    </div>
                   )}
-                </button>
+                  {state.pendingPayment && onDecision && (
+                    <ApprovalPanel payment={state.pendingPayment} onDecision={onDecision} isDeciding={isDeciding} />
+                  )}
+                  {onExecute && state.pendingPayment?.status !== 'rejected' && (() => {
+                    const quorumReached = state.pendingPayment?.status === 'approved' || state.pendingPayment?.status === 'failed';
+                    const isDisabled = isExecuting || !quorumReached;
+                    return (
+                      <button
+                        onClick={onExecute}
+                        disabled={isDisabled}
+                        className={`
+                          group relative inline-flex items-center justify-center gap-2 rounded-xl px-6 py-3.5 text-sm font-bold transition-all duration-200
+                          ${isDisabled
+                            ? 'bg-zinc-100 text-zinc-400 cursor-not-allowed'
+                            : 'bg-gradient-to-r from-violet-700 to-violet-900 text-white shadow-lg shadow-violet-900/20 hover:shadow-xl hover:shadow-violet-900/30 hover:-translate-y-0.5 active:translate-y-0'
+                          }
+                        `}
+                      >
+                        {isExecuting ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Executing...
+                          </>
+                        ) : !quorumReached ? (
+                          <>
+                            <Clock className="h-4 w-4" />
+                            Awaiting Approvals
+                          </>
+                        ) : (
+                          <>
+                            <Landmark className="h-4 w-4" />
+                            {state.pendingPayment?.status !== 'failed'
+                              ? 'Execute Payment'
+                              : state.pendingPayment.completedSteps.length > 0 ? 'Resume Execution' : 'Retry Execution'}
+                            <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-0.5" />
+                          </>
+                        )}
+                      </button>
+                    );
+                  })()}
+                </>
               )}
             </div>
           )}
@@ -0,0 +1,163 @@
+// components/queue/InvoiceQueueItem.tsx
+// One invoice row in the batch queue: progress, recommendation and treasury plan
+
+'use client';
+
+import React from 'react';
+import { CheckCircle2, FileText, Loader2, XCircle } from 'lucide-react';
+
+import { ApprovalPanel } from '@/app/components/chat/ApprovalPanel';
+import { InvoiceReview } from '@/app/components/chat/InvoiceReview';
+import type { BatchInvoiceUpdate } from '@/app/lib/agents/batch';
+import type { ApprovalDecision, InvoiceCorrections } from '@/app/types';
+
+export type QueueExecutionStatus = 'idle' | 'executing' | 'done' | 'failed';
+
+export interface QueueInvoice extends BatchInvoiceUpdate {
+  execution: QueueExecutionStatus;
+  executionError: string | null;
+}
+
+// Keyed by the last completed graph node, so each label describes the work now in progress
+const STEP_LABELS: Record<string, string> = {
+  pdfProcessor: 'Confirming extracted fields',
+  invoiceReview: 'Checking for duplicates',
+  duplicateChecker: 'Checking vendor',
+  vendorChecker: 'Scanning wallet',
+  walletScanner: 'Planning payment',
+  paymentPlanner: 'CFO analysis',
+  cfoAssistant: 'Applying payment policy',
+  policyEnforcer: 'Finalizing',
+  treasuryManager: 'Building treasury plan',
+};
+
+const RECOMMENDATION_STYLES = {
+  APPROVE: 'bg-[#ccf437]/20 text-[#5c7a0f] ring-[#ccf437]/60',
+  REVIEW: 'bg-amber-50 text-amber-700 ring-amber-200',
+  REJECT: 'bg-red-50 text-red-700 ring-red-200',
+};
+
+interface InvoiceQueueItemProps {
+  invoice: QueueInvoice;
+  onExecute: (invoice: QueueInvoice) => void;
+  onDecision: (invoice: QueueInvoice, approverId: string, token: string, decision: ApprovalDecision['decision'], comment: string) => Promise<void>;
+  onConfirmReview: (invoice: QueueInvoice, corrections: InvoiceCorrections) => void;
+  isSubmittingReview?: boolean;
+  disabled?: boolean;
+}
+
+export function InvoiceQueueItem({
+  invoice,
+  onExecute,
+  onDecision,
+  onConfirmReview,
+  isSubmittingReview,
+  disabled,
+}: InvoiceQueueItemProps): React.JSX.Element {
+  const { state } = invoice;
+  const recommendation = state?.recommendation;
+  const treasuryPlan = state?.treasuryPlan;
+  const pendingPayment = state?.pendingPayment;
+  const quorumReached = pendingPayment?.status === 'approved' || pendingPayment?.status === 'failed';
+
+  return (
+    <div className="rounded-2xl border border-zinc-200/80 bg-white p-5 shadow-[0_4px_20px_-4px_rgba(0,0,0,0.08)]">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-xl bg-zinc-100 text-zinc-600">
+            <FileText className="h-4 w-4" />
+          </div>
+          <div className="min-w-0">
+            <p className="truncate text-sm font-semibold text-zinc-900">{invoice.fileName}</p>
+            <p className="text-xs text-zinc-500">
+              {invoice.status === 'queued' && 'Queued'}
+              {invoice.status === 'processing' && (STEP_LABELS[invoice.step ?? ''] ?? 'Extracting invoice')}
+              {invoice.status === 'awaiting-review' && 'Awaiting review of extracted fields'}
+              {invoice.status === 'complete' && state?.invoiceData &&
+                `${state.invoiceData.amount} → ${state.invoiceData.recipient}`}
+              {invoice.status === 'error' && (invoice.error ?? 'Failed')}
+            </p>
+          </div>
+        </div>
+
+        {invoice.status === 'processing' && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-zinc-400" />}
+        {invoice.status === 'error' && <XCircle className="h-4 w-4 flex-shrink-0 text-red-500" />}
+        {recommendation && (
+          <span className={`flex-shrink-0 rounded-full px-2.5 py-1 text-[11px] font-bold ring-1 ${RECOMMENDATION_STYLES[recommendation.recommendation]}`}>
+            {recommendation.recommendation} · {recommendation.riskLevel}
+          </span>
+        )}
+      </div>
+
+      {invoice.status === 'awaiting-review' && invoice.review && (
+        <div className="mt-4">
+          <InvoiceReview
+            key={invoice.review.reviewId}
+            review={invoice.review}
+            onConfirm={corrections => onConfirmReview(invoice, corrections)}
+            isSubmitting={isSubmittingReview}
+          />
+        </div>
+      )}
+
+      {recommendation && (
+        <p className="mt-3 text-sm text-zinc-600">{recommendation.summary}</p>
+      )}
+
+      {state?.duplicateCheck?.isDuplicate && state.duplicateCheck.originalUrl && (
+        <a
+          href={state.duplicateCheck.originalUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-flex text-xs font-semibold text-red-700 underline underline-offset-2 hover:text-red-900"
+        >
+          Possible duplicate of {state.duplicateCheck.original?.fileName}
+        </a>
+      )}
+
+      {treasuryPlan && (
+        <div className="mt-4 flex items-center justify-between gap-3 rounded-xl bg-zinc-50 px-4 py-3 ring-1 ring-zinc-200/60">
+          <div className="min-w-0 text-xs text-zinc-600">
+            <p className="font-semibold text-zinc-800">
+              {treasuryPlan.arcSufficient
+                ? `Direct transfer — ${treasuryPlan.arcBalance} ${treasuryPlan.invoiceCurrency} available on Arc`
+                : treasuryPlan.canExecute
+                ? `${treasuryPlan.steps.length} steps to cover ${treasuryPlan.deficit} ${treasuryPlan.invoiceCurrency} deficit`
+                : treasuryPlan.reason ?? 'Plan cannot be executed'}
+            </p>
+            {invoice.executionError && <p className="mt-1 text-red-600">{invoice.executionError}</p>}
+          </div>
+
+          {invoice.execution === 'done' ? (
+            <span className="flex flex-shrink-0 items-center gap-1 text-xs font-semibold text-[#5c7a0f]">
+              <CheckCircle2 className="h-4 w-4" /> Paid
+            </span>
+          ) : treasuryPlan.canExecute && pendingPayment?.status !== 'rejected' && (
+            <button
+              onClick={() => onExecute(invoice)}
+              disabled={disabled || invoice.execution === 'executing' || !quorumReached}
+              className="flex-shrink-0 rounded-lg bg-black px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-zinc-800 disabled:bg-zinc-400"
+            >
+              {invoice.execution === 'executing'
+                ? 'Executing...'
+                : !quorumReached
+                ? 'Awaiting approvals'
+                : invoice.execution === 'failed'
+                ? (pendingPayment?.completedSteps.length ? 'Resume' : 'Retry')
+                : 'Pay'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {pendingPayment && invoice.execution !== 'done' && (
+        <div className="mt-3">
+          <ApprovalPanel
+            payment={pendingPayment}
+            onDecision={(approverId, token, decision, comment) => onDecision(invoice, approverId, token, decision, comment)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Budget, BudgetInput, BudgetStatus } from '@/app/types';
+
+interface BudgetCategoryOption {
+  id: string;
+  label: string;
+}
+
+interface BudgetListProps {
+  month: string;
+  statuses: BudgetStatus[];
+  categories: BudgetCategoryOption[];
+  onAdd: (input: BudgetInput) => Promise<boolean>;
+  onDelete: (budget: Budget) => Promise<void>;
+}
+
+const SCOPE_LABELS: Record<Budget['scope'], string> = {
+  overall: 'Overall',
+  vendor: 'Vendor',
+  category: 'Category',
+};
+
+const CURRENCY_OPTIONS = ['USDC', 'EURC'];
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function BudgetList({ month, statuses, categories, onAdd, onDelete }: BudgetListProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [scope, setScope] = useState<Budget['scope']>('category');
+  const [key, setKey] = useState('');
+  const [currency, setCurrency] = useState(CURRENCY_OPTIONS[0]);
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+
+  const categoryLabel = (id: string) => categories.find(category => category.id === id)?.label ?? id;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const saved = await onAdd({
+      scope,
+      key: scope === 'category' ? key || categories[0]?.id || '' : key,
+      currency,
+      monthlyLimit: Number(monthlyLimit),
+    });
+    if (saved) {
+      setIsAdding(false);
+      setKey('');
+      setMonthlyLimit('');
+    }
+  };
+
+  const inputClass = 'rounded-lg bg-white px-3 py-1.5 text-sm text-zinc-800 ring-1 ring-zinc-200 focus:outline-none focus:ring-2 focus:ring-[#ccf437]';
+
+  return (
+    <div className="rounded-2xl border border-zinc-100 bg-white p-5 shadow-sm">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="font-semibold text-zinc-900">Budgets</div>
+          <div className="text-xs text-zinc-400">Spend executed in {month}; invoices over budget go to review</div>
+        </div>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1.5 rounded-lg border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-600 hover:bg-zinc-50"
+          >
+            <Plus size={14} /> Add budget
+          </button>
+        )}
+      </div>
+
+      {/* Add form */}
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="mb-4 grid gap-3 rounded-xl bg-zinc-50 p-4 sm:grid-cols-5">
+          <select value={scope} onChange={event => { setScope(event.target.value as Budget['scope']); setKey(''); }} className={inputClass}>
+            {Object.entries(SCOPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          {scope === 'category' ? (
+            <select value={key || categories[0]?.id || ''} onChange={event => setKey(event.target.value)} className={inputClass}>
+              {categories.map(category => <option key={category.id} value={category.id}>{category.label}</option>)}
+            </select>
+          ) : scope === 'vendor' ? (
+            <input value={key} onChange={event => setKey(event.target.value)} placeholder="Vendor name" className={inputClass} required />
+          ) : (
+            <span className="self-center text-xs text-zinc-400">All payments</span>
+          )}
+          <select value={currency} onChange={event => setCurrency(event.target.value)} className={inputClass}>
+            {CURRENCY_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={monthlyLimit}
+            onChange={event => setMonthlyLimit(event.target.value)}
+            placeholder="Monthly limit"
+            className={inputClass}
+            required
+          />
+          <div className="flex items-center gap-2">
+            <button type="submit" className="rounded-lg bg-black px-3 py-1.5 text-xs font-semibold text-white hover:bg-zinc-800">
+              Save
+            </button>
+            <button type="button" onClick={() => setIsAdding(false)} className="rounded-lg px-3 py-1.5 text-xs font-semibold text-zinc-500 hover:bg-zinc-100">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Budget rows */}
+      {statuses.length === 0 ? (
+        <div className="text-xs text-zinc-400 py-2">No budgets set</div>
+      ) : (
+        <div className="space-y-3">
+          {statuses.map(({ budget, spent, committed, remaining }) => {
+            const usedPct = Math.min(100, ((spent + committed) / budget.monthlyLimit) * 100);
+            const barColor = remaining <= 0 ? 'bg-rose-500' : usedPct >= 80 ? 'bg-amber-500' : 'bg-emerald-500';
+            return (
+              <div key={budget.id} className="rounded-lg bg-zinc-50 px-3 py-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="rounded-full bg-white px-2 py-0.5 text-[11px] font-bold text-zinc-500 border border-zinc-200">
+                      {SCOPE_LABELS[budget.scope]}
+                    </span>
+                    <span className="truncate text-sm font-medium text-zinc-700">
+                      {budget.scope === 'overall' ? 'All payments' : budget.scope === 'category' ? categoryLabel(budget.key) : budget.key}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-zinc-900">
+                      {formatAmount(spent)} / {formatAmount(budget.monthlyLimit)} {budget.currency}
+                    </span>
+                    <button onClick={() => onDelete(budget)} className="rounded-lg p-1.5 text-zinc-400 hover:bg-red-50 hover:text-red-600">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-zinc-200">
+                  <div className={`h-full ${barColor}`} style={{ width: `${usedPct}%` }} />
+                </div>
+                <div className={`mt-1 text-xs ${remaining <= 0 ? 'text-rose-600' : 'text-zinc-400'}`}>
+                  {remaining <= 0 ? 'Budget used up' : `${formatAmount(remaining)} ${budget.currency} remaining`}
+                  {committed > 0 && ` · ${formatAmount(committed)} ${budget.currency} committed to open payments`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
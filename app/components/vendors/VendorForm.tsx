@@ -0,0 +1,128 @@
+// components/vendors/VendorForm.tsx
+// Create or edit a vendor registry entry
+
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+import type { PayoutChain, Vendor, VendorInput, VendorPayoutAddress } from '@/app/types';
+
+const CHAIN_OPTIONS: { value: PayoutChain; label: string }[] = [
+  { value: 'ARC-TESTNET', label: 'Arc Testnet' },
+  { value: 'ETH-SEPOLIA', label: 'ETH Sepolia' },
+  { value: 'BASE-SEPOLIA', label: 'Base Sepolia' },
+];
+
+const CURRENCY_OPTIONS = ['USDC', 'EURC'];
+
+interface VendorFormProps {
+  vendor?: Vendor | null;
+  onSubmit: (input: VendorInput) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export function VendorForm({ vendor, onSubmit, onCancel }: VendorFormProps): React.JSX.Element {
+  const [name, setName] = useState(vendor?.name ?? '');
+  const [aliases, setAliases] = useState(vendor?.aliases.join(', ') ?? '');
+  const [preferredCurrency, setPreferredCurrency] = useState(vendor?.preferredCurrency ?? '');
+  const [payoutAddresses, setPayoutAddresses] = useState<VendorPayoutAddress[]>(
+    vendor?.payoutAddresses ?? [{ chain: 'ARC-TESTNET', address: '' }]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updatePayout = (idx: number, patch: Partial<VendorPayoutAddress>) => {
+    setPayoutAddresses(prev => prev.map((payout, i) => (i === idx ? { ...payout, ...patch } : payout)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name,
+        aliases: aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+        payoutAddresses,
+        preferredCurrency: preferredCurrency || null,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'rounded-lg bg-white px-3 py-1.5 text-sm text-zinc-800 ring-1 ring-zinc-200 focus:outline-none focus:ring-2 focus:ring-[#ccf437]';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-2xl border border-zinc-200/80 bg-white p-5 shadow-sm">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Vendor name</span>
+          <input value={name} onChange={event => setName(event.target.value)} className={inputClass} required />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Preferred currency</span>
+          <select value={preferredCurrency} onChange={event => setPreferredCurrency(event.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {CURRENCY_OPTIONS.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 sm:col-span-2">
+          <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Aliases (comma separated)</span>
+          <input value={aliases} onChange={event => setAliases(event.target.value)} className={inputClass} placeholder="Acme Labs, ACME Inc." />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Approved payout addresses</span>
+        {payoutAddresses.map((payout, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <select
+              value={payout.chain}
+              onChange={event => updatePayout(idx, { chain: event.target.value as PayoutChain })}
+              className={inputClass}
+            >
+              {CHAIN_OPTIONS.map(chain => <option key={chain.value} value={chain.value}>{chain.label}</option>)}
+            </select>
+            <input
+              value={payout.address}
+              onChange={event => updatePayout(idx, { address: event.target.value })}
+              placeholder="0x..."
+              className={`${inputClass} flex-1 font-mono text-xs`}
+              required
+            />
+            <button
+              type="button"
+              onClick={() => setPayoutAddresses(prev => prev.filter((_, i) => i !== idx))}
+              disabled={payoutAddresses.length === 1}
+              className="rounded-lg p-2 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-700 disabled:opacity-40"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setPayoutAddresses(prev => [...prev, { chain: 'ARC-TESTNET', address: '' }])}
+          className="flex items-center gap-1 text-xs font-semibold text-zinc-500 hover:text-zinc-800"
+        >
+          <Plus className="h-3.5 w-3.5" /> Add address
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="rounded-xl px-4 py-2 text-sm font-medium text-zinc-500 hover:text-zinc-800">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-xl bg-black px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-zinc-800 disabled:bg-zinc-400"
+        >
+          {isSaving ? 'Saving...' : vendor ? 'Save vendor' : 'Add vendor'}
+        </button>
+      </div>
+    </form>
+  );
+}
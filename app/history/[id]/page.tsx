@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+import { AgentThinkingTrace } from '@/app/components/chat/AgentThinkingTrace';
+import { MessageList } from '@/app/components/chat/MessageList';
+import type { AnalysisRun } from '@/app/lib/agents/runHistory';
+import type { ExecutionStep } from '@/app/types';
+
+/**
+ * Plan steps with the recorded step updates of the latest execution applied
+ */
+function replayExecutionSteps(run: AnalysisRun): ExecutionStep[] | undefined {
+  const execution = run.executions[run.executions.length - 1];
+  const steps = run.state?.treasuryPlan?.steps;
+  if (!execution || !steps) return undefined;
+
+  return execution.stepUpdates.reduce(
+    (current, { stepId, update }) => current.map(step => (step.id === stepId ? { ...step, ...update } : step)),
+    steps.map(step => ({ ...step }))
+  );
+}
+
+export default function RunDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [run, setRun] = useState<AnalysisRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRun = async () => {
+      try {
+        const res = await fetch(`/api/runs/${id}`);
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || 'Failed to load run');
+        }
+        setRun((await res.json()).run);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load run');
+      }
+    };
+    fetchRun();
+  }, [id]);
+
+  const lastExecution = run?.executions[run.executions.length - 1];
+
+  return (
+    <div className="flex flex-1 flex-col overflow-y-auto p-6">
+      <div className="mx-auto w-full max-w-2xl space-y-6">
+        <Link href="/history" className="inline-flex items-center gap-1.5 text-sm text-zinc-500 hover:text-zinc-800">
+          <ArrowLeft className="h-4 w-4" /> History
+        </Link>
+
+        {error && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-6 text-center text-sm font-medium text-rose-600">{error}</div>
+        )}
+
+        {!run && !error && <div className="h-28 animate-pulse rounded-2xl bg-zinc-100" />}
+
+        {run && (
+          <>
+            {/* Header */}
+            <div>
+              <h1 className="truncate text-2xl font-semibold text-zinc-900">{run.fileName}</h1>
+              <p className="text-sm text-zinc-500">
+                Analyzed {new Date(run.createdAt).toLocaleString()} · last updated {new Date(run.updatedAt).toLocaleString()}
+              </p>
+            </div>
+
+            {run.thinkingLogs.length > 0 && <AgentThinkingTrace logs={run.thinkingLogs} isStreaming={false} />}
+
+            {run.state && run.status === 'complete' && (
+              <MessageList
+                state={run.state}
+                isLoading={false}
+                executionSteps={replayExecutionSteps(run)}
+                executionDone={lastExecution?.status === 'executed'}
+              />
+            )}
+
+            {run.error && (
+              <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">{run.error}</div>
+            )}
+
+            {/* Execution attempts */}
+            {run.executions.length > 0 && (
+              <div className="rounded-2xl border border-zinc-200/80 bg-white p-5 shadow-sm">
+                <p className="mb-3 text-[11px] font-semibold uppercase tracking-wider text-zinc-400">Execution attempts</p>
+                <div className="space-y-3">
+                  {run.executions.map(execution => (
+                    <div key={execution.startedAt} className="text-sm">
+                      <p className="font-medium text-zinc-900">
+                        {new Date(execution.startedAt).toLocaleString()} — {execution.status}
+                      </p>
+                      {execution.error && <p className="text-xs text-red-600">{execution.error}</p>}
+                      <div className="mt-1 space-y-0.5">
+                        {execution.stepUpdates.map((entry, idx) => (
+                          <p key={idx} className="text-xs text-zinc-500">
+                            <span className="font-mono">{new Date(entry.at).toLocaleTimeString()}</span> {entry.stepId}: {entry.update.status}
+                            {entry.update.txHash && <span className="font-mono"> {entry.update.txHash.slice(0, 14)}...</span>}
+                            {entry.update.error && <span className="text-red-600"> {entry.update.error}</span>}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { FileText } from 'lucide-react';
+
+import type { RunSummary } from '@/app/lib/agents/runHistory';
+
+const VERDICT_STYLES = {
+  APPROVE: 'bg-[#ccf437]/20 text-[#5c7a0f] ring-[#ccf437]/60',
+  REVIEW: 'bg-amber-50 text-amber-700 ring-amber-200',
+  REJECT: 'bg-red-50 text-red-700 ring-red-200',
+};
+
+const STATUS_LABELS: Record<RunSummary['status'], string> = {
+  'running': 'Running',
+  'awaiting-review': 'Awaiting field review',
+  'complete': 'Complete',
+  'error': 'Failed',
+};
+
+const EXECUTION_LABELS: Record<NonNullable<RunSummary['executionStatus']>, string> = {
+  executing: 'Executing',
+  executed: 'Paid',
+  failed: 'Execution failed',
+};
+
+export default function HistoryPage() {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const res = await fetch('/api/runs');
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || 'Failed to load history');
+        }
+        setRuns((await res.json()).runs);
+      } catch (e) {
+        toast(e instanceof Error ? e.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRuns();
+  }, []);
+
+  return (
+    <div className="flex flex-1 flex-col overflow-y-auto p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-zinc-900">History</h1>
+          <p className="text-sm text-zinc-500">
+            Every analysis run with its reasoning, recommendation and execution results.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="h-28 animate-pulse rounded-2xl bg-zinc-100" />
+        ) : runs.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-zinc-300 p-8 text-center text-sm text-zinc-500">
+            No invoices analyzed yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map(run => (
+              <Link
+                key={run.id}
+                href={`/history/${run.id}`}
+                className="flex items-center justify-between gap-3 rounded-2xl border border-zinc-200/80 bg-white p-5 shadow-sm transition-colors hover:bg-zinc-50"
+              >
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-xl bg-zinc-100 text-zinc-600">
+                    <FileText className="h-4 w-4" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-zinc-900">{run.fileName}</p>
+                    <p className="truncate text-xs text-zinc-500">
+                      {new Date(run.createdAt).toLocaleString()}
+                      {run.amount && ` · ${run.amount}`}
+                      {run.recipient && ` → ${run.recipient}`}
+                      {run.source === 'batch' && ' · batch'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-2">
+                  <span className="text-xs text-zinc-500">
+                    {run.executionStatus ? EXECUTION_LABELS[run.executionStatus] : STATUS_LABELS[run.status]}
+                  </span>
+                  {run.verdict && (
+                    <span className={`rounded-full px-2.5 py-1 text-[11px] font-bold ring-1 ${VERDICT_STYLES[run.verdict]}`}>
+                      {run.verdict}
+                    </span>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
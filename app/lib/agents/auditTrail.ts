@@ -0,0 +1,67 @@
+// lib/agents/auditTrail.ts
+// Audit log entries for the analysis stages of a run (upload, extraction, review, scan, recommendation)
+
+import { InvoiceCorrections } from '@/app/types';
+import { appendAuditEntry, hashFile } from '@/app/lib/services/auditLog';
+import { AgentState } from './state';
+
+export async function auditInvoiceUpload(
+  runId: string | null,
+  fileName: string,
+  pdfBuffer: Buffer,
+  source: 'chat' | 'batch'
+): Promise<void> {
+  await appendAuditEntry({
+    action: 'invoice.uploaded',
+    runId,
+    data: { fileName, source, size: pdfBuffer.length, sha256: hashFile(pdfBuffer) },
+  });
+}
+
+export async function auditExtraction(state: AgentState): Promise<void> {
+  await appendAuditEntry({
+    action: 'invoice.extracted',
+    runId: state.runId,
+    data: { fileName: state.fileName, invoiceData: state.invoiceData },
+  });
+}
+
+/**
+ * The reviewer's confirmation or corrections, with the fields the analysis continues with
+ */
+export async function auditReview(state: AgentState, corrections: InvoiceCorrections | null): Promise<void> {
+  await appendAuditEntry({
+    action: 'invoice.reviewed',
+    actor: 'reviewer',
+    runId: state.runId,
+    data: { corrections, invoiceData: state.invoiceData },
+  });
+}
+
+export async function auditScan(state: AgentState): Promise<void> {
+  await appendAuditEntry({
+    action: 'wallet.scanned',
+    runId: state.runId,
+    data: {
+      walletAddress: state.invoiceData?.walletAddress ?? null,
+      securityScan: state.securityScan,
+      duplicateCheck: state.duplicateCheck,
+      vendorCheck: state.vendorCheck,
+    },
+  });
+}
+
+/**
+ * The gated verdict, with the LLM's own verdict and the policy rules that applied
+ */
+export async function auditRecommendation(state: AgentState): Promise<void> {
+  await appendAuditEntry({
+    action: 'recommendation.issued',
+    runId: state.runId,
+    data: {
+      recommendation: state.recommendation,
+      policyGate: state.policyGate,
+      budgetCheck: state.budgetCheck,
+    },
+  });
+}
@@ -0,0 +1,263 @@
+// lib/agents/batch.ts
+// Runs the CFO agent workflow over many invoices with bounded concurrency
+
+import { buildTreasuryPlan } from '@/app/lib/services/treasuryManager';
+import { issueTreasuryPlan } from '@/app/lib/services/treasuryPlans';
+import { createPendingPayment } from '@/app/lib/services/approvals';
+import { InvoiceCorrections } from '@/app/types';
+import { createRun, saveRunState } from './runHistory';
+import { auditExtraction, auditInvoiceUpload, auditRecommendation, auditReview, auditScan } from './auditTrail';
+import { CFOAgentRun, runCFOAgent, resumeCFOAgent } from './graph';
+import { applyInvoiceCorrections, InvoiceReviewRequest } from './nodes/invoiceReview';
+import { AgentState } from './state';
+
+// Invoices processed at the same time (Gemini and explorer rate limits)
+export const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY || '3'));
+
+// Matches the graph's paused-thread TTL; an unreviewed invoice has to be re-uploaded after this
+const PAUSED_INVOICE_TTL_MS = 30 * 60 * 1000;
+
+export type BatchInvoiceStatus = 'queued' | 'processing' | 'awaiting-review' | 'complete' | 'error';
+
+/**
+ * Extracted fields waiting for a reviewer; `reviewId` is the paused graph thread
+ */
+export interface BatchInvoiceReview extends InvoiceReviewRequest {
+  reviewId: string;
+}
+
+export interface BatchInvoiceInput {
+  id: string;
+  fileName: string;
+  pdfBuffer: Buffer;
+}
+
+/**
+ * Progress update for a single invoice in the batch
+ */
+export interface BatchInvoiceUpdate {
+  id: string;
+  fileName: string;
+  status: BatchInvoiceStatus;
+  step: string | null;
+  state: AgentState | null;
+  review: BatchInvoiceReview | null;
+  error: string | null;
+}
+
+type BatchUpdater = (patch: Partial<BatchInvoiceUpdate>) => void;
+
+// Invoices paused at the review interrupt, keyed by graph thread
+const pausedInvoices = new Map<
+  string,
+  { id: string; fileName: string; runId: string; state: AgentState; expiresAt: number }
+>();
+
+function pruneExpired(now: number): void {
+  for (const [threadId, entry] of pausedInvoices) {
+    if (entry.expiresAt <= now) {
+      pausedInvoices.delete(threadId);
+    }
+  }
+}
+
+function createUpdater(
+  invoice: { id: string; fileName: string },
+  onUpdate: (update: BatchInvoiceUpdate) => void
+): BatchUpdater {
+  return patch =>
+    onUpdate({
+      id: invoice.id,
+      fileName: invoice.fileName,
+      status: 'processing',
+      step: null,
+      state: null,
+      review: null,
+      error: null,
+      ...patch,
+    });
+}
+
+function toBatchState(run: CFOAgentRun, runId: string): AgentState {
+  return {
+    ...run.state,
+    pdfBuffer: null,
+    treasuryPlan: run.state.treasuryPlan ?? null,
+    pendingPayment: run.state.pendingPayment ?? null,
+    runId,
+  };
+}
+
+/**
+ * Record a finished graph run and, if approved, build its treasury plan and pending payment
+ */
+async function completeInvoice(
+  fileName: string,
+  runId: string,
+  run: CFOAgentRun,
+  update: BatchUpdater
+): Promise<void> {
+  let state = toBatchState(run, runId);
+
+  if (state.currentStep === 'error') {
+    await saveRunState(runId, state, 'error', state.error);
+    update({ status: 'error', state, error: state.error });
+    return;
+  }
+
+  await auditScan(state);
+  await auditRecommendation(state);
+
+  if (state.recommendation?.recommendation === 'APPROVE' && state.invoiceData) {
+    update({ step: 'treasuryManager' });
+    const builtPlan = await buildTreasuryPlan(state.invoiceData);
+    const treasuryPlan = builtPlan.canExecute ? await issueTreasuryPlan(builtPlan, runId) : builtPlan;
+    const pendingPayment = treasuryPlan.canExecute
+      ? await createPendingPayment(state.invoiceData, treasuryPlan, fileName, runId, state.duplicateCheck?.fingerprint ?? null)
+      : null;
+    state = { ...state, treasuryPlan, pendingPayment };
+  }
+
+  state = { ...state, currentStep: 'complete' };
+  await saveRunState(runId, state, 'complete');
+  update({ status: 'complete', state });
+}
+
+async function failInvoice(fileName: string, runId: string | null, error: unknown, update: BatchUpdater): Promise<void> {
+  console.error(`❌ Batch invoice failed (${fileName}):`, error);
+  if (runId) {
+    await saveRunState(runId, null, 'error', error instanceof Error ? error.message : 'Unknown error')
+      .catch(saveError => console.error('⚠️ Failed to save batch run:', saveError));
+  }
+  update({
+    status: 'error',
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
+
+/**
+ * Run one invoice through extraction and pause it for review.
+ * The rest of the analysis runs once a reviewer confirms the fields via resumeBatchInvoice().
+ */
+async function processInvoice(
+  invoice: BatchInvoiceInput,
+  payerAddress: string | undefined,
+  onUpdate: (update: BatchInvoiceUpdate) => void
+): Promise<void> {
+  const update = createUpdater(invoice, onUpdate);
+  const onStep = (node: string) => update({ step: node });
+  let runId: string | null = null;
+
+  try {
+    update({});
+    runId = await createRun(invoice.fileName, 'batch');
+    await auditInvoiceUpload(runId, invoice.fileName, invoice.pdfBuffer, 'batch');
+
+    const run = await runCFOAgent(invoice.pdfBuffer, invoice.fileName, payerAddress, onStep);
+    const state = toBatchState(run, runId);
+
+    if (run.review) {
+      await auditExtraction(state);
+      await saveRunState(runId, state, 'awaiting-review');
+
+      const now = Date.now();
+      pruneExpired(now);
+      pausedInvoices.set(run.threadId, {
+        id: invoice.id,
+        fileName: invoice.fileName,
+        runId,
+        state,
+        expiresAt: now + PAUSED_INVOICE_TTL_MS,
+      });
+      update({ status: 'awaiting-review', state, review: { ...run.review, reviewId: run.threadId } });
+      return;
+    }
+
+    // Only a failed extraction skips the review interrupt
+    if (state.currentStep !== 'error') {
+      await auditExtraction(state);
+    }
+    await completeInvoice(invoice.fileName, runId, run, update);
+  } catch (error) {
+    await failInvoice(invoice.fileName, runId, error, update);
+  }
+}
+
+/**
+ * Check whether a batch invoice is still paused for review
+ */
+export function isBatchInvoicePaused(reviewId: string): boolean {
+  pruneExpired(Date.now());
+  return pausedInvoices.has(reviewId);
+}
+
+/**
+ * Check a reviewer's corrections against a paused batch invoice without resuming it.
+ * Throws the same error applyInvoiceCorrections() would raise when the graph resumes.
+ */
+export function validateBatchCorrections(reviewId: string, corrections: InvoiceCorrections | null): void {
+  const paused = pausedInvoices.get(reviewId);
+  if (!paused) {
+    throw new Error('Review session expired or not found. Please re-upload the invoice.');
+  }
+  applyInvoiceCorrections(paused.state, corrections);
+}
+
+/**
+ * Continue a batch invoice paused for review with the reviewer's corrections
+ * @param reviewId - Review ID from the invoice's awaiting-review update
+ * @param corrections - Edited fields, or null to confirm the extraction as-is
+ * @param onUpdate - Called whenever the invoice changes status or step
+ */
+export async function resumeBatchInvoice(
+  reviewId: string,
+  corrections: InvoiceCorrections | null,
+  onUpdate: (update: BatchInvoiceUpdate) => void
+): Promise<void> {
+  pruneExpired(Date.now());
+  const paused = pausedInvoices.get(reviewId);
+  if (!paused) {
+    throw new Error('Review session expired or not found. Please re-upload the invoice.');
+  }
+  pausedInvoices.delete(reviewId);
+
+  const update = createUpdater(paused, onUpdate);
+  const onStep = (node: string) => update({ step: node });
+
+  try {
+    update({ step: 'invoiceReview' });
+    const run = await resumeCFOAgent(reviewId, corrections, onStep);
+    await auditReview(toBatchState(run, paused.runId), corrections);
+    await completeInvoice(paused.fileName, paused.runId, run, update);
+  } catch (error) {
+    await failInvoice(paused.fileName, paused.runId, error, update);
+  }
+}
+
+/**
+ * Process a batch of invoices, at most BATCH_CONCURRENCY at a time
+ * @param invoices - PDFs to process, in queue order
+ * @param payerAddress - Treasury wallet paying the invoices
+ * @param onUpdate - Called whenever an invoice changes status or step
+ */
+export async function processInvoiceBatch(
+  invoices: BatchInvoiceInput[],
+  payerAddress: string | undefined,
+  onUpdate: (update: BatchInvoiceUpdate) => void
+): Promise<void> {
+  console.log(`📦 Processing batch of ${invoices.length} invoices (concurrency ${BATCH_CONCURRENCY})`);
+
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < invoices.length) {
+      const invoice = invoices[nextIndex++];
+      await processInvoice(invoice, payerAddress, onUpdate);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(BATCH_CONCURRENCY, invoices.length) }, worker)
+  );
+
+  console.log('📦 Batch complete');
+}
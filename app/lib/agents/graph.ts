@@ -1,14 +1,21 @@
 // lib/agents/graph.ts
 // LangGraph workflow definition for CFO Agent
 
-import { StateGraph, START, END, Annotation } from '@langchain/langgraph';
+import { randomUUID } from 'crypto';
+import { StateGraph, START, END, Annotation, Command, MemorySaver } from '@langchain/langgraph';
+import { BudgetCheck, DuplicateInvoiceCheck, InvoiceCorrections, PolicyGateDecision, VendorCheck } from '@/app/types';
 import { AgentState, createInitialState } from './state';
 import { pdfProcessorNode } from './nodes/pdfProcessor';
+import { invoiceReviewNode, InvoiceReviewRequest } from './nodes/invoiceReview';
+import { duplicateCheckNode } from './nodes/duplicateCheck';
+import { vendorCheckNode } from './nodes/vendorCheck';
 import { walletScannerNode } from './nodes/walletScanner';
 import { paymentPlannerNode } from './nodes/paymentPlanner';
 import { cfoAssistantNode } from './nodes/cfoAssistant';
+import { policyGateNode } from './nodes/policyGate';
 
 // Define state annotation using LangGraph's Annotation API
+// Node names must differ from these state keys (LangGraph rejects a node named like a channel)
 const AgentStateAnnotation = Annotation.Root({
   pdfBuffer: Annotation<Buffer | null>({
     value: (x, y) => y ?? x ?? null,
@@ -42,6 +49,22 @@ const AgentStateAnnotation = Annotation.Root({
     value: (x, y) => y ?? x ?? null,
     default: () => null,
   }),
+  duplicateCheck: Annotation<DuplicateInvoiceCheck | null>({
+    value: (x, y) => y ?? x ?? null,
+    default: () => null,
+  }),
+  vendorCheck: Annotation<VendorCheck | null>({
+    value: (x, y) => y ?? x ?? null,
+    default: () => null,
+  }),
+  budgetCheck: Annotation<BudgetCheck | null>({
+    value: (x, y) => y ?? x ?? null,
+    default: () => null,
+  }),
+  policyGate: Annotation<PolicyGateDecision | null>({
+    value: (x, y) => y ?? x ?? null,
+    default: () => null,
+  }),
   logs: Annotation<any[]>({
     value: (x, y) => y ?? x ?? [],
     default: () => [],
@@ -52,14 +75,49 @@ const AgentStateAnnotation = Annotation.Root({
   }),
 });
 
+// Checkpoints paused runs so they can be resumed after invoice review
+const checkpointer = new MemorySaver();
+
+// Checkpoints hold the full PDF: finished threads are deleted at once, paused ones after 30 minutes unreviewed
+const PAUSED_THREAD_TTL_MS = 30 * 60 * 1000;
+const pausedThreads = new Map<string, number>();
+
+async function deleteThread(threadId: string): Promise<void> {
+  pausedThreads.delete(threadId);
+  await checkpointer.deleteThread(threadId);
+}
+
+async function evictExpiredThreads(now: number): Promise<void> {
+  for (const [threadId, expiresAt] of pausedThreads) {
+    if (expiresAt <= now) {
+      console.log(`🧹 Dropping unreviewed workflow ${threadId}`);
+      await deleteThread(threadId);
+    }
+  }
+}
+
+/**
+ * Result of running (or resuming) the workflow.
+ * When `review` is set the graph is paused waiting for invoice corrections.
+ */
+export interface CFOAgentRun {
+  threadId: string;
+  state: AgentState;
+  review: InvoiceReviewRequest | null;
+}
+
 /**
  * Create the CFO Agent workflow graph
  * 
  * Workflow:
  * 1. PDF Processor → Extract invoice data
- * 2. Wallet Scanner → Check wallet security
- * 3. Payment Planner → Build swap plan
- * 4. CFO Assistant → Generate recommendation
+ * 2. Invoice Review → Pause for human corrections (interrupt)
+ * 3. Duplicate Check → Fingerprint against processed invoices
+ * 4. Vendor Check → Compare payout address with the vendor registry
+ * 5. Wallet Scanner → Check wallet security
+ * 6. Payment Planner → Build swap plan
+ * 7. CFO Assistant → Generate recommendation
+ * 8. Policy Gate → Enforce hard rules on the recommendation
  */
 export function createCFOAgentGraph() {
   // Define the state graph using Annotation with method chaining
@@ -68,6 +126,15 @@ export function createCFOAgentGraph() {
     .addNode('pdfProcessor', async (state: any) => {
       return await pdfProcessorNode(state);
     })
+    .addNode('invoiceReview', async (state: AgentState) => {
+      return await invoiceReviewNode(state);
+    })
+    .addNode('duplicateChecker', async (state: AgentState) => {
+      return await duplicateCheckNode(state);
+    })
+    .addNode('vendorChecker', async (state: AgentState) => {
+      return await vendorCheckNode(state);
+    })
     .addNode('walletScanner', async (state: any) => {
       return await walletScannerNode(state);
     })
@@ -77,40 +144,128 @@ export function createCFOAgentGraph() {
     .addNode('cfoAssistant', async (state: any) => {
       return await cfoAssistantNode(state);
     })
+    .addNode('policyEnforcer', async (state: AgentState) => {
+      return await policyGateNode(state);
+    })
     .addEdge(START, 'pdfProcessor')
-    .addEdge('pdfProcessor', 'walletScanner')
+    .addEdge('pdfProcessor', 'invoiceReview')
+    .addEdge('invoiceReview', 'duplicateChecker')
+    .addEdge('duplicateChecker', 'vendorChecker')
+    .addEdge('vendorChecker', 'walletScanner')
     .addEdge('walletScanner', 'paymentPlanner')
     .addEdge('paymentPlanner', 'cfoAssistant')
-    .addEdge('cfoAssistant', END);
+    .addEdge('cfoAssistant', 'policyEnforcer')
+    .addEdge('policyEnforcer', END);
 
   // Compile the graph
-  return workflow.compile();
+  return workflow.compile({ checkpointer });
+}
+
+// Called as each node finishes, e.g. to report per-invoice progress
+export type CFOAgentStepCallback = (node: string) => void;
+
+type CFOAgentGraph = ReturnType<typeof createCFOAgentGraph>;
+
+/**
+ * Run the graph to completion or the next interrupt.
+ * Streams node updates so callers can follow progress.
+ */
+async function runGraph(
+  graph: CFOAgentGraph,
+  input: Parameters<CFOAgentGraph['stream']>[0],
+  threadId: string,
+  onStep?: CFOAgentStepCallback
+): Promise<CFOAgentRun> {
+  const config = { configurable: { thread_id: threadId } };
+
+  try {
+    const updates = await graph.stream(input, { ...config, streamMode: 'updates' });
+    for await (const update of updates) {
+      Object.keys(update)
+        .filter(node => node !== '__interrupt__')
+        .forEach(node => onStep?.(node));
+    }
+
+    // Final state and pending interrupt (if any) come from the checkpoint
+    const snapshot = await graph.getState(config);
+    const pending = snapshot.tasks.flatMap(task => task.interrupts ?? []);
+    const review = (pending[0]?.value as InvoiceReviewRequest | undefined) ?? null;
+
+    // Only a thread waiting for review needs its checkpoint
+    if (review) {
+      pausedThreads.set(threadId, Date.now() + PAUSED_THREAD_TTL_MS);
+    } else {
+      await deleteThread(threadId);
+    }
+
+    return { threadId, state: snapshot.values as AgentState, review };
+  } catch (error) {
+    await deleteThread(threadId);
+    throw error;
+  }
 }
 
 /**
  * Run the CFO agent workflow
+ * Pauses after extraction until resumeCFOAgent() is called with corrections.
  * @param pdfBuffer - The PDF file buffer
  * @param fileName - Name of the PDF file
- * @returns Final agent state with all results
+ * @param onStep - Optional callback fired as each node completes
+ * @returns Agent state so far, plus the review request while paused
  */
 export async function runCFOAgent(
   pdfBuffer: Buffer,
   fileName: string,
-  payerAddress?: string
-): Promise<AgentState> {
+  payerAddress?: string,
+  onStep?: CFOAgentStepCallback
+): Promise<CFOAgentRun> {
   console.log('🚀 Starting CFO Agent Workflow...');
   console.log(`📄 File: ${fileName}`);
   
+  await evictExpiredThreads(Date.now());
+
   // Create the graph
   const graph = createCFOAgentGraph();
+  const threadId = randomUUID();
   
   // Create initial state
   const initialState = createInitialState(pdfBuffer, fileName, payerAddress);
   
-  // Run the workflow
-  const finalState = await graph.invoke(initialState);
+  // Run the workflow until it finishes or pauses for review
+  const run = await runGraph(graph, initialState, threadId, onStep);
+
+  console.log(run.review ? '⏸️ CFO Agent Workflow paused for invoice review' : 'CFO Agent Workflow Complete');
   
+  return run;
+}
+
+/**
+ * Resume a paused workflow with the reviewer's invoice corrections
+ * @param threadId - Thread returned by runCFOAgent
+ * @param corrections - Edited fields, or null to accept the extraction as-is
+ * @param onStep - Optional callback fired as each node completes
+ */
+export async function resumeCFOAgent(
+  threadId: string,
+  corrections: InvoiceCorrections | null,
+  onStep?: CFOAgentStepCallback
+): Promise<CFOAgentRun> {
+  console.log(`▶️ Resuming CFO Agent Workflow: ${threadId}`);
+
+  await evictExpiredThreads(Date.now());
+
+  const graph = createCFOAgentGraph();
+  const config = { configurable: { thread_id: threadId } };
+
+  const snapshot = await graph.getState(config);
+  if (!pausedThreads.has(threadId) || !snapshot.next || snapshot.next.length === 0) {
+    throw new Error('No paused workflow found for this thread');
+  }
+
+  // LangGraph rejects an empty resume value, so "no changes" is an empty object
+  const run = await runGraph(graph, new Command({ resume: corrections ?? {} }), threadId, onStep);
+
   console.log('CFO Agent Workflow Complete');
-  
-  return finalState as AgentState;
+
+  return run;
 }
@@ -2,6 +2,7 @@
 // CFO Assistant Agent Node - Generates final recommendation
 
 import { generateCFORecommendation } from '@/app/lib/services/geminiService';
+import { StructuredOutputError } from '@/app/lib/services/structuredOutput';
 import { AgentState, addLog } from '../state';
 
 /**
@@ -9,6 +10,11 @@ import { AgentState, addLog } from '../state';
  * Analyzes invoice data and security scan to provide final recommendation
  */
 export async function cfoAssistantNode(state: AgentState): Promise<AgentState> {
+  // Keep the earlier step's error rather than recommending on partial data
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
   console.log('🤖 CFO Assistant Node: Generating recommendation...');
   
   try {
@@ -32,17 +38,14 @@ export async function cfoAssistantNode(state: AgentState): Promise<AgentState> {
       throw new Error('No payment plan available for analysis');
     }
     
-    // Generate recommendation using Gemini
+    // Generate recommendation with the configured LLM provider; the policy gate node enforces hard rules next
     const recommendation = await generateCFORecommendation(
       state.invoiceData,
-      {
-        riskScore: state.securityScan.riskScore,
-        isContract: state.securityScan.isContract,
-        isVerified: state.securityScan.isVerified,
-        hasMaliciousLabel: state.securityScan.hasMaliciousLabel,
-        warnings: state.securityScan.warnings,
-      },
-      state.paymentPlan
+      state.securityScan,
+      state.paymentPlan,
+      state.duplicateCheck,
+      state.vendorCheck,
+      state.budgetCheck
     );
     
     // Update state with recommendation
@@ -82,7 +85,10 @@ export async function cfoAssistantNode(state: AgentState): Promise<AgentState> {
       state,
       'cfoAssistant',
       'error',
-      error instanceof Error ? error.message : 'Unknown error during analysis'
+      error instanceof Error ? error.message : 'Unknown error during analysis',
+      error instanceof StructuredOutputError
+        ? { task: error.task, attempts: error.attempts, issues: error.issues }
+        : undefined
     );
     
     return {
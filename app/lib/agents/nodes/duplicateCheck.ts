@@ -0,0 +1,64 @@
+// lib/agents/nodes/duplicateCheck.ts
+// Duplicate Check Node - Fingerprints the invoice and compares it with approved invoices
+
+import { checkInvoiceDuplicate } from '@/app/lib/services/duplicateDetection';
+import { AgentState, addLog } from '../state';
+
+/**
+ * Duplicate Check Node
+ * Runs after review so the fingerprint uses the corrected invoice fields
+ */
+export async function duplicateCheckNode(state: AgentState): Promise<AgentState> {
+  // Nothing to fingerprint if extraction already failed
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
+  console.log('🧾 Duplicate Check Node: Fingerprinting invoice...');
+
+  try {
+    if (!state.pdfBuffer) {
+      throw new Error('No PDF available for fingerprinting');
+    }
+
+    // State restored from a checkpoint carries the PDF as JSON ({ type: 'Buffer', data: [...] })
+    const pdfBuffer = Buffer.isBuffer(state.pdfBuffer)
+      ? state.pdfBuffer
+      : Buffer.from((state.pdfBuffer as unknown as { data: number[] }).data);
+
+    const duplicateCheck = await checkInvoiceDuplicate(pdfBuffer, state.invoiceData);
+
+    const updatedState = addLog(
+      state,
+      'duplicateCheck',
+      'success',
+      duplicateCheck.isDuplicate
+        ? `⚠️ Possible duplicate (${duplicateCheck.matchType}) of ${duplicateCheck.original?.fileName}`
+        : 'No matching invoice found in processed history',
+      duplicateCheck
+    );
+
+    console.log(`✅ Duplicate Check Node: ${duplicateCheck.isDuplicate ? 'duplicate found' : 'no duplicate'}`);
+
+    return {
+      ...updatedState,
+      duplicateCheck,
+    };
+
+  } catch (error) {
+    console.error('❌ Duplicate Check Node Error:', error);
+
+    const errorState = addLog(
+      state,
+      'duplicateCheck',
+      'error',
+      error instanceof Error ? error.message : 'Unknown error during duplicate check'
+    );
+
+    return {
+      ...errorState,
+      currentStep: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,152 @@
+// lib/agents/nodes/invoiceReview.ts
+// Invoice Review Node - Pauses for a human to confirm or correct extracted fields
+
+import { interrupt } from '@langchain/langgraph';
+
+import { InvoiceCorrections, InvoiceData, InvoiceEvidenceField } from '@/app/types';
+import { AgentState, addLog } from '../state';
+
+// Fields a reviewer may edit before the remaining nodes run
+export const EDITABLE_INVOICE_FIELDS: InvoiceEvidenceField[] = [
+  'walletAddress',
+  'amount',
+  'recipient',
+  'purpose',
+  'invoiceNumber',
+  'issueDate',
+  'dueDate',
+];
+
+const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Payload surfaced to the client while the graph is paused
+ */
+export interface InvoiceReviewRequest {
+  invoiceData: InvoiceData;
+  editableFields: InvoiceEvidenceField[];
+  walletAddressIssue: string | null;   // Why the extracted address cannot be paid; the reviewer must correct it
+}
+
+/**
+ * Why a payout address cannot be paid, or null for a well-formed EVM address.
+ * Extraction only flags this so the reviewer can fix it; it is enforced once corrections are applied.
+ */
+export function describeWalletAddressIssue(walletAddress: string): string | null {
+  if (walletAddress === 'NOT_FOUND') {
+    return 'Could not extract wallet address from invoice';
+  }
+  if (!EVM_ADDRESS.test(walletAddress)) {
+    return `Invalid Ethereum address format: ${walletAddress}`;
+  }
+  return null;
+}
+
+/**
+ * Apply reviewer corrections to the extracted invoice.
+ * Original and corrected values are both recorded in the state logs.
+ */
+export function applyInvoiceCorrections(
+  state: AgentState,
+  corrections: InvoiceCorrections | null | undefined
+): AgentState {
+  if (!state.invoiceData) {
+    throw new Error('No invoice data available for review');
+  }
+
+  const original = state.invoiceData;
+  const changedFields = EDITABLE_INVOICE_FIELDS.filter(field => {
+    const value = corrections?.[field];
+    return typeof value === 'string' && value.trim().length > 0 && value.trim() !== original[field];
+  });
+
+  if (changedFields.length === 0) {
+    // Confirming as-is is only allowed for an address that can actually be paid
+    const addressIssue = describeWalletAddressIssue(original.walletAddress);
+    if (addressIssue) {
+      throw new Error(addressIssue);
+    }
+    return addLog(
+      state,
+      'invoiceReview',
+      'success',
+      'Reviewer confirmed extracted invoice fields without changes',
+      { original }
+    );
+  }
+
+  const corrected: InvoiceData = {
+    ...original,
+    evidence: { ...original.evidence },
+  };
+  const originalValues: InvoiceCorrections = {};
+  const correctedValues: InvoiceCorrections = {};
+
+  for (const field of changedFields) {
+    const value = corrections![field]!.trim();
+    originalValues[field] = original[field];
+    correctedValues[field] = value;
+    corrected[field] = value;
+    // Human-entered values are authoritative and have no document source
+    corrected.evidence[field] = { confidence: 1, snippet: null, page: null };
+  }
+
+  const addressIssue = describeWalletAddressIssue(corrected.walletAddress);
+  if (addressIssue) {
+    throw new Error(addressIssue);
+  }
+
+  const updatedState = addLog(
+    state,
+    'invoiceReview',
+    'success',
+    `Reviewer corrected ${changedFields.join(', ')}`,
+    { original: originalValues, corrected: correctedValues }
+  );
+
+  return {
+    ...updatedState,
+    invoiceData: corrected,
+  };
+}
+
+/**
+ * Invoice Review Node
+ * Interrupts the graph after extraction; resumes with the reviewer's corrections
+ */
+export async function invoiceReviewNode(state: AgentState): Promise<AgentState> {
+  // Nothing to review if extraction already failed
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
+  console.log('📝 Invoice Review Node: Waiting for reviewer...');
+
+  // Must stay outside try/catch: interrupt() pauses the graph by throwing
+  const corrections = interrupt<InvoiceReviewRequest, InvoiceCorrections | null>({
+    invoiceData: state.invoiceData,
+    editableFields: EDITABLE_INVOICE_FIELDS,
+    walletAddressIssue: describeWalletAddressIssue(state.invoiceData.walletAddress),
+  });
+
+  try {
+    const updatedState = applyInvoiceCorrections(state, corrections);
+    console.log('✅ Invoice Review Node: Review applied');
+    return updatedState;
+  } catch (error) {
+    console.error('❌ Invoice Review Node Error:', error);
+
+    const errorState = addLog(
+      state,
+      'invoiceReview',
+      'error',
+      error instanceof Error ? error.message : 'Unknown error during invoice review'
+    );
+
+    return {
+      ...errorState,
+      currentStep: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
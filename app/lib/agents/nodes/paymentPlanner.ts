@@ -1,14 +1,21 @@
 // lib/agents/nodes/paymentPlanner.ts
-// Builds a swap/payment plan using Uniswap v4 SDK
+// Builds a swap/payment plan using Uniswap v4 SDK and checks monthly budgets
 
+import { checkInvoiceBudgets } from '@/app/lib/services/budgets';
 import { buildPaymentPlan } from '@/app/lib/services/paymentPlanner';
 import { AgentState, addLog } from '../state';
 
 /**
  * Payment Planner Node
- * Computes wallet balances, swap quotes, and prepared MetaMask transaction data.
+ * Computes wallet balances, swap quotes, and prepared MetaMask transaction data,
+ * and the remaining vendor/category/overall budgets for this month.
  */
 export async function paymentPlannerNode(state: AgentState): Promise<AgentState> {
+  // Nothing to plan if an earlier step failed
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
   console.log('💳 Payment Planner Node: Preparing swap plan...');
 
   try {
@@ -27,11 +34,15 @@ export async function paymentPlannerNode(state: AgentState): Promise<AgentState>
       throw new Error('No payer wallet address provided for payment planning');
     }
 
-    const paymentPlan = await buildPaymentPlan(state.invoiceData, state.payerAddress);
+    const [paymentPlan, budgetCheck] = await Promise.all([
+      buildPaymentPlan(state.invoiceData, state.payerAddress),
+      checkInvoiceBudgets(state.invoiceData),
+    ]);
 
     updatedState = {
       ...updatedState,
       paymentPlan,
+      budgetCheck,
       currentStep: 'analyzing',
     };
 
@@ -47,6 +58,16 @@ export async function paymentPlannerNode(state: AgentState): Promise<AgentState>
       }
     );
 
+    updatedState = addLog(
+      updatedState,
+      'paymentPlan',
+      'success',
+      budgetCheck.overBudget
+        ? `⚠️ Over budget: ${budgetCheck.issues.join('; ')}`
+        : `Budgets: ${budgetCheck.statuses.length} apply (category ${budgetCheck.category}), all within limits`,
+      budgetCheck
+    );
+
     console.log('✅ Payment Planner Node: Completed');
     return updatedState;
   } catch (error) {
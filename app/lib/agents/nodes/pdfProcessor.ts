@@ -2,7 +2,12 @@
 // PDF Processor Agent Node - Extracts invoice data from PDF
 
 import { extractInvoiceFromPDF } from '@/app/lib/services/geminiService';
+import { getLLMProvider } from '@/app/lib/services/llmProvider';
+import { reconcileInvoiceTotals } from '@/app/lib/services/invoiceValidation';
+import { extractInvoiceFromTextLayer, TEXT_LAYER_MIN_CONFIDENCE } from '@/app/lib/services/invoiceParser';
+import { StructuredOutputError } from '@/app/lib/services/structuredOutput';
 import { AgentState, addLog } from '../state';
+import { describeWalletAddressIssue } from './invoiceReview';
 
 /**
  * PDF Processor Node
@@ -25,19 +30,43 @@ export async function pdfProcessorNode(state: AgentState): Promise<AgentState> {
       throw new Error('No PDF buffer provided');
     }
     
-    // Extract invoice data using Gemini
-    const invoiceData = await extractInvoiceFromPDF(state.pdfBuffer, state.fileName);
-    
-    // Check if wallet address was found
-    if (invoiceData.walletAddress === 'NOT_FOUND') {
-      throw new Error('Could not extract wallet address from invoice');
+    // Try the rule-based text-layer parser first; only call the LLM when it is unsure
+    const textLayer = await extractInvoiceFromTextLayer(state.pdfBuffer);
+    let invoiceData;
+
+    if (textLayer && textLayer.confidence >= TEXT_LAYER_MIN_CONFIDENCE) {
+      invoiceData = textLayer.invoiceData;
+      updatedState = addLog(
+        updatedState,
+        'pdfProcessor',
+        'running',
+        `Parsed invoice from PDF text layer (confidence ${textLayer.confidence})`,
+        { source: 'text-layer', confidence: textLayer.confidence }
+      );
+    } else {
+      const llmName = getLLMProvider('extraction').name;
+      updatedState = addLog(
+        updatedState,
+        'pdfProcessor',
+        'running',
+        textLayer
+          ? `Text-layer confidence ${textLayer.confidence} below ${TEXT_LAYER_MIN_CONFIDENCE}, falling back to ${llmName}`
+          : `No usable PDF text layer, falling back to ${llmName}`,
+        {
+          source: 'llm',
+          provider: llmName,
+          confidence: textLayer?.confidence ?? null,
+          missing: textLayer?.missing ?? [],
+          notes: textLayer?.notes ?? [],
+        }
+      );
+
+      // Extract invoice data with the configured LLM provider
+      invoiceData = await extractInvoiceFromPDF(state.pdfBuffer, state.fileName);
     }
     
-    // Validate Ethereum address format
-    const isValidAddress = /^0x[a-fA-F0-9]{40}$/.test(invoiceData.walletAddress);
-    if (!isValidAddress) {
-      throw new Error(`Invalid Ethereum address format: ${invoiceData.walletAddress}`);
-    }
+    // A missing or malformed address is flagged for the reviewer rather than failing the run
+    const walletAddressIssue = describeWalletAddressIssue(invoiceData.walletAddress);
     
     // Update state with extracted data
     updatedState = {
@@ -51,9 +80,29 @@ export async function pdfProcessorNode(state: AgentState): Promise<AgentState> {
       updatedState,
       'pdfProcessor',
       'success',
-      `Extracted wallet: ${invoiceData.walletAddress.substring(0, 10)}...`,
-      { walletAddress: invoiceData.walletAddress, amount: invoiceData.amount }
+      walletAddressIssue
+        ? `⚠️ ${walletAddressIssue} - the reviewer must correct it`
+        : `Extracted wallet: ${invoiceData.walletAddress.substring(0, 10)}...`,
+      {
+        walletAddress: invoiceData.walletAddress,
+        amount: invoiceData.amount,
+        invoiceNumber: invoiceData.invoiceNumber,
+        lineItems: invoiceData.lineItems.length,
+        evidence: invoiceData.evidence,
+      }
     );
+
+    // Flag line items that don't add up to the stated total
+    const totalsCheck = reconcileInvoiceTotals(invoiceData);
+    if (!totalsCheck.isConsistent) {
+      updatedState = addLog(
+        updatedState,
+        'pdfProcessor',
+        'success',
+        `⚠️ Invoice totals mismatch: ${totalsCheck.issues.join('; ')}`,
+        totalsCheck
+      );
+    }
     
     console.log('✅ PDF Processor Node: Extraction complete');
     return updatedState;
@@ -66,7 +115,10 @@ export async function pdfProcessorNode(state: AgentState): Promise<AgentState> {
       state,
       'pdfProcessor',
       'error',
-      error instanceof Error ? error.message : 'Unknown error during extraction'
+      error instanceof Error ? error.message : 'Unknown error during extraction',
+      error instanceof StructuredOutputError
+        ? { task: error.task, attempts: error.attempts, issues: error.issues }
+        : undefined
     );
     
     return {
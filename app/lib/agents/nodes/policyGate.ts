@@ -0,0 +1,40 @@
+// lib/agents/nodes/policyGate.ts
+// Policy Gate Node - Enforces hard payment rules on the CFO recommendation
+
+import { applyPolicyGate } from '@/app/lib/services/policyGate';
+import { AgentState, addLog } from '../state';
+
+/**
+ * Policy Gate Node
+ * Downgrades the LLM recommendation when a deterministic rule requires it
+ */
+export async function policyGateNode(state: AgentState): Promise<AgentState> {
+  // Nothing to gate if an earlier step failed
+  if (state.currentStep === 'error' || !state.recommendation || !state.invoiceData || !state.securityScan) {
+    return state;
+  }
+
+  console.log('🚦 Policy Gate Node: Applying payment policy...');
+
+  const { recommendation, decision } = applyPolicyGate(state.recommendation, {
+    invoiceData: state.invoiceData,
+    securityScan: state.securityScan,
+    duplicateCheck: state.duplicateCheck,
+    vendorCheck: state.vendorCheck,
+    budgetCheck: state.budgetCheck,
+  });
+
+  const message = decision.overridden
+    ? `🚦 ${decision.llmRecommendation.recommendation} downgraded to ${decision.finalVerdict} by ${decision.enforcedBy}`
+    : `Policy gate passed: ${decision.finalVerdict}${decision.firedRules.length > 0 ? ` (${decision.firedRules.length} rule(s) noted)` : ''}`;
+
+  const updatedState = addLog(state, 'policyGate', 'success', message, decision);
+
+  console.log(`✅ Policy Gate Node: ${decision.finalVerdict}`);
+
+  return {
+    ...updatedState,
+    recommendation,
+    policyGate: decision,
+  };
+}
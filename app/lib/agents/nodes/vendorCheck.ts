@@ -0,0 +1,54 @@
+// lib/agents/nodes/vendorCheck.ts
+// Vendor Check Node - Compares recipient and payout address with the vendor registry
+
+import { checkInvoiceVendor, isVendorReviewRequired } from '@/app/lib/services/vendorRegistry';
+import { AgentState, addLog } from '../state';
+
+/**
+ * Vendor Check Node
+ * Flags known vendors whose invoice asks for payment to an unregistered address
+ */
+export async function vendorCheckNode(state: AgentState): Promise<AgentState> {
+  // Nothing to check if an earlier step failed
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
+  console.log('🏢 Vendor Check Node: Checking vendor registry...');
+
+  try {
+    const vendorCheck = await checkInvoiceVendor(state.invoiceData);
+
+    const message = {
+      'verified': `Payout address matches the registry for ${vendorCheck.vendor?.name}`,
+      'address-changed': `⚠️ Payout address changed for known vendor ${vendorCheck.vendor?.name}`,
+      'address-of-other-vendor': `⚠️ Payout address belongs to registered vendor ${vendorCheck.addressOwner?.name}`,
+      'unknown-vendor': 'Vendor not in registry',
+    }[vendorCheck.status];
+
+    const updatedState = addLog(state, 'vendorCheck', 'success', message, vendorCheck);
+
+    console.log(`✅ Vendor Check Node: ${vendorCheck.status}${isVendorReviewRequired(vendorCheck) ? ' (review required)' : ''}`);
+
+    return {
+      ...updatedState,
+      vendorCheck,
+    };
+
+  } catch (error) {
+    console.error('❌ Vendor Check Node Error:', error);
+
+    const errorState = addLog(
+      state,
+      'vendorCheck',
+      'error',
+      error instanceof Error ? error.message : 'Unknown error during vendor check'
+    );
+
+    return {
+      ...errorState,
+      currentStep: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
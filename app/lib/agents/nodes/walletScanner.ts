@@ -1,7 +1,8 @@
 // lib/agents/nodes/walletScanner.ts
 // Wallet Scanner Agent Node - Checks wallet security using Etherscan
 
-import { scanWalletAddress } from '@/app/lib/services/WalletscanService';
+import { describeScanFreshness, scanWalletAddress } from '@/app/lib/services/WalletscanService';
+import { getRecommendationFromScore } from '@/app/lib/services/riskPolicy';
 import { AgentState, addLog } from '../state';
 
 /**
@@ -9,6 +10,11 @@ import { AgentState, addLog } from '../state';
  * Scans the extracted wallet address for security risks
  */
 export async function walletScannerNode(state: AgentState): Promise<AgentState> {
+  // Nothing to scan if an earlier step failed
+  if (state.currentStep === 'error' || !state.invoiceData) {
+    return state;
+  }
+
   console.log('🔍 Wallet Scanner Node: Starting security scan...');
   
   try {
@@ -38,17 +44,20 @@ export async function walletScannerNode(state: AgentState): Promise<AgentState>
     };
     
     // Add success log with risk info
-    const riskEmoji = securityScan.riskScore >= 70 ? '🔴' : securityScan.riskScore >= 40 ? '🟡' : '🟢';
+    const scanFreshness = describeScanFreshness(securityScan);
+    const riskEmoji = { HIGH: '🔴', MEDIUM: '🟡', LOW: '🟢' }[getRecommendationFromScore(securityScan.riskScore).riskLevel];
     updatedState = addLog(
       updatedState,
       'walletScanner',
       'success',
-      `${riskEmoji} Risk Score: ${securityScan.riskScore}/100`,
+      `${riskEmoji} Risk Score: ${securityScan.riskScore}/100${scanFreshness ? ` (${scanFreshness})` : ''}`,
       {
         riskScore: securityScan.riskScore,
         isContract: securityScan.isContract,
         isVerified: securityScan.isVerified,
         warnings: securityScan.warnings,
+        chainScans: securityScan.chainScans,
+        riskBreakdown: securityScan.riskBreakdown,
       }
     );
     
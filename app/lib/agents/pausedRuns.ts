@@ -0,0 +1,46 @@
+// lib/agents/pausedRuns.ts
+// In-memory store for streaming runs paused at the invoice review step
+
+import { randomUUID } from 'crypto';
+
+import { AgentState } from './state';
+
+// Unreviewed runs are dropped after 30 minutes
+const PAUSED_RUN_TTL_MS = 30 * 60 * 1000;
+
+const pausedRuns = new Map<string, { state: AgentState; expiresAt: number }>();
+
+function pruneExpired(now: number): void {
+  for (const [reviewId, entry] of pausedRuns) {
+    if (entry.expiresAt <= now) {
+      pausedRuns.delete(reviewId);
+    }
+  }
+}
+
+/**
+ * Store a run awaiting review and return its review ID
+ */
+export function savePausedRun(state: AgentState): string {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const reviewId = randomUUID();
+  pausedRuns.set(reviewId, { state, expiresAt: now + PAUSED_RUN_TTL_MS });
+  return reviewId;
+}
+
+/**
+ * Look up a paused run (null if unknown or expired)
+ */
+export function getPausedRun(reviewId: string): AgentState | null {
+  pruneExpired(Date.now());
+  return pausedRuns.get(reviewId)?.state ?? null;
+}
+
+/**
+ * Remove a paused run once it has been resumed
+ */
+export function deletePausedRun(reviewId: string): void {
+  pausedRuns.delete(reviewId);
+}
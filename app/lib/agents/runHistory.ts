@@ -0,0 +1,274 @@
+// lib/agents/runHistory.ts
+// Server-side record of each analysis run: thinking logs, final state and execution step updates
+
+import { randomUUID } from 'crypto';
+
+import { ExecutionStep } from '@/app/types';
+import { readStore, updateStore } from '@/app/lib/services/localStore';
+import { AgentState, ThinkingLog } from './state';
+
+const RUN_INDEX_STORE = 'runs';
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type RunStatus = 'running' | 'awaiting-review' | 'complete' | 'error';
+
+// Agent state as persisted (the PDF itself is not stored)
+export type StoredAgentState = AgentState & { pdfBuffer: null };
+
+export interface ExecutionStepUpdate {
+  stepId: string;
+  update: Partial<ExecutionStep>;
+  at: string;
+}
+
+export interface RunExecution {
+  paymentId: string;
+  status: 'executing' | 'executed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  stepUpdates: ExecutionStepUpdate[];
+}
+
+export interface AnalysisRun {
+  id: string;
+  fileName: string;
+  source: 'chat' | 'batch';
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  thinkingLogs: ThinkingLog[];
+  state: StoredAgentState | null;
+  error: string | null;
+  executions: RunExecution[];
+}
+
+// One row per run for the history list
+export interface RunSummary {
+  id: string;
+  fileName: string;
+  source: AnalysisRun['source'];
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  invoiceNumber: string | null;
+  amount: string | null;
+  recipient: string | null;
+  verdict: 'APPROVE' | 'REVIEW' | 'REJECT' | null;
+  executionStatus: RunExecution['status'] | null;
+}
+
+function runStore(id: string): string {
+  return `run-${id}`;
+}
+
+function toStoredState(state: AgentState): StoredAgentState {
+  return { ...state, pdfBuffer: null };
+}
+
+function toSummary(run: AnalysisRun): RunSummary {
+  return {
+    id: run.id,
+    fileName: run.fileName,
+    source: run.source,
+    status: run.status,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    invoiceNumber: run.state?.invoiceData?.invoiceNumber ?? null,
+    amount: run.state?.invoiceData?.amount ?? null,
+    recipient: run.state?.invoiceData?.recipient ?? null,
+    verdict: run.state?.recommendation?.recommendation ?? null,
+    executionStatus: run.executions[run.executions.length - 1]?.status ?? null,
+  };
+}
+
+/**
+ * Apply a change to a run and refresh its history row; updates to one run are serialized
+ */
+async function updateRun(id: string, change: (run: AnalysisRun) => AnalysisRun): Promise<AnalysisRun | null> {
+  const saved = await updateStore<AnalysisRun | null, AnalysisRun | null>(runStore(id), null, run => {
+    const updated = run ? { ...change(run), updatedAt: new Date().toISOString() } : null;
+    return { data: updated, result: updated };
+  });
+  if (!saved) {
+    return null;
+  }
+
+  await updateStore<RunSummary[], void>(RUN_INDEX_STORE, [], summaries => ({
+    data: [toSummary(saved), ...summaries.filter(summary => summary.id !== id)],
+    result: undefined,
+  }));
+  return saved;
+}
+
+/**
+ * Start a run record; returns its ID
+ */
+export async function createRun(fileName: string, source: AnalysisRun['source']): Promise<string> {
+  const now = new Date().toISOString();
+  const run: AnalysisRun = {
+    id: randomUUID(),
+    fileName,
+    source,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    thinkingLogs: [],
+    state: null,
+    error: null,
+    executions: [],
+  };
+  await updateStore<AnalysisRun | null, void>(runStore(run.id), null, () => ({ data: run, result: undefined }));
+  await updateStore<RunSummary[], void>(RUN_INDEX_STORE, [], summaries => ({
+    data: [toSummary(run), ...summaries],
+    result: undefined,
+  }));
+  console.log(`🗂️ Run ${run.id} started (${source}: ${fileName})`);
+  return run.id;
+}
+
+/**
+ * Look up a run (null if the ID is malformed or unknown)
+ */
+export async function getRun(id: string): Promise<AnalysisRun | null> {
+  if (!RUN_ID_PATTERN.test(id)) {
+    return null;
+  }
+  return readStore<AnalysisRun | null>(runStore(id), null);
+}
+
+/**
+ * Runs, newest first
+ */
+export async function listRuns(): Promise<RunSummary[]> {
+  const summaries = await readStore<RunSummary[]>(RUN_INDEX_STORE, []);
+  return [...summaries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Replace a run's final state and status (state null keeps the last saved state)
+ */
+export async function saveRunState(
+  id: string,
+  state: AgentState | null,
+  status: RunStatus,
+  error: string | null = null
+): Promise<void> {
+  if (!RUN_ID_PATTERN.test(id)) return;
+  await updateRun(id, run => ({ ...run, state: state ? toStoredState(state) : run.state, status, error }));
+}
+
+/**
+ * Buffers the SSE events of one streaming request and writes them to the run on flush.
+ * Thinking logs are kept per step, as the chat shows them (the latest message for each step).
+ */
+export interface RunRecorder {
+  runId: string;
+  record(event: string, data: unknown): void;
+  setState(state: AgentState, status: RunStatus): void;
+  flush(): Promise<void>;
+}
+
+export async function createRunRecorder(runId: string): Promise<RunRecorder | null> {
+  const run = await getRun(runId);
+  if (!run) {
+    return null;
+  }
+
+  let current = run;
+
+  return {
+    runId,
+
+    record(event, data) {
+      switch (event) {
+        case 'thinking': {
+          const log = data as ThinkingLog;
+          const index = current.thinkingLogs.findIndex(existing => existing.step === log.step);
+          const thinkingLogs = index >= 0
+            ? current.thinkingLogs.map((existing, i) => (i === index ? log : existing))
+            : [...current.thinkingLogs, log];
+          current = { ...current, thinkingLogs };
+          break;
+        }
+        case 'review':
+          current = { ...current, status: 'awaiting-review' };
+          break;
+        case 'complete':
+          current = { ...current, status: 'complete', state: toStoredState(data as AgentState), error: null };
+          break;
+        case 'error':
+          current = { ...current, status: 'error', error: (data as { error?: string }).error ?? 'Unknown error' };
+          break;
+      }
+    },
+
+    setState(state, status) {
+      current = { ...current, state: toStoredState(state), status };
+    },
+
+    async flush() {
+      // Execution records are written separately; keep whatever is on disk
+      current = await updateRun(runId, run => ({ ...current, executions: run.executions })) ?? current;
+    },
+  };
+}
+
+// Apply a change to a run's latest execution for a payment
+async function updateExecution(
+  runId: string,
+  paymentId: string,
+  change: (execution: RunExecution) => RunExecution
+): Promise<void> {
+  if (!RUN_ID_PATTERN.test(runId)) return;
+
+  await updateRun(runId, run => {
+    const index = run.executions.map(execution => execution.paymentId).lastIndexOf(paymentId);
+    return index < 0
+      ? run
+      : { ...run, executions: run.executions.map((execution, i) => (i === index ? change(execution) : execution)) };
+  });
+}
+
+/**
+ * Record the start of a treasury execution for the run that produced the payment
+ */
+export async function recordExecutionStart(runId: string, paymentId: string): Promise<void> {
+  if (!RUN_ID_PATTERN.test(runId)) return;
+
+  await updateRun(runId, run => ({
+    ...run,
+    executions: [
+      ...run.executions,
+      {
+        paymentId,
+        status: 'executing',
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        error: null,
+        stepUpdates: [],
+      },
+    ],
+  }));
+}
+
+export async function recordExecutionStep(
+  runId: string,
+  paymentId: string,
+  stepId: string,
+  update: Partial<ExecutionStep>
+): Promise<void> {
+  await updateExecution(runId, paymentId, execution => ({
+    ...execution,
+    stepUpdates: [...execution.stepUpdates, { stepId, update, at: new Date().toISOString() }],
+  }));
+}
+
+export async function recordExecutionEnd(runId: string, paymentId: string, error: string | null): Promise<void> {
+  await updateExecution(runId, paymentId, execution => ({
+    ...execution,
+    status: error ? 'failed' : 'executed',
+    finishedAt: new Date().toISOString(),
+    error,
+  }));
+}
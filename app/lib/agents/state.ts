@@ -1,7 +1,18 @@
 // lib/agents/state.ts
 // LangGraph agent state definition
 
-import { InvoiceData, SecurityScan, CFORecommendation, PaymentPlan, TreasuryPlan } from '@/app/types';
+import {
+  InvoiceData,
+  SecurityScan,
+  CFORecommendation,
+  PaymentPlan,
+  TreasuryPlan,
+  DuplicateInvoiceCheck,
+  VendorCheck,
+  BudgetCheck,
+  PolicyGateDecision,
+  PendingPayment,
+} from '@/app/types';
 
 /**
  * Agent state that flows through the LangGraph workflow
@@ -12,6 +23,7 @@ export interface AgentState {
   pdfBuffer: Buffer | null;
   fileName: string;
   payerAddress: string | null;
+  runId: string | null;                   // Persisted run record (run history)
   
   // Processing status for visualization
   currentStep: 'idle' | 'extracting' | 'scanning' | 'planning' | 'analyzing' | 'treasury' | 'complete' | 'error';
@@ -21,9 +33,14 @@ export interface AgentState {
   securityScan: SecurityScan | null;
   paymentPlan: PaymentPlan | null;
   recommendation: CFORecommendation | null;
+  duplicateCheck: DuplicateInvoiceCheck | null;
+  vendorCheck: VendorCheck | null;
+  budgetCheck: BudgetCheck | null;        // Monthly budgets covering this invoice
+  policyGate: PolicyGateDecision | null;  // LLM verdict vs. enforced verdict
 
   // Agent 2 (Treasury Manager) results
   treasuryPlan: TreasuryPlan | null;
+  pendingPayment: PendingPayment | null;  // Awaiting approver sign-off
   
   // Trace logs for visualization
   logs: AgentLog[];
@@ -48,7 +65,17 @@ export interface AgentLog {
  */
 export interface ThinkingLog {
   id: string;
-  step: 'pdfProcessor' | 'walletScanner' | 'paymentPlan' | 'cfoAssistant' | 'treasuryManager' | 'complete';
+  step:
+    | 'pdfProcessor'
+    | 'invoiceReview'
+    | 'duplicateCheck'
+    | 'vendorCheck'
+    | 'walletScanner'
+    | 'paymentPlan'
+    | 'cfoAssistant'
+    | 'policyGate'
+    | 'treasuryManager'
+    | 'complete';
   agent?: 'analyst' | 'treasury';
   status: 'pending' | 'thinking' | 'processing' | 'success' | 'error';
   title: string;
@@ -68,12 +95,18 @@ export function createInitialState(pdfBuffer: Buffer, fileName: string, payerAdd
     pdfBuffer,
     fileName,
     payerAddress: payerAddress ?? null,
+    runId: null,
     currentStep: 'idle',
     invoiceData: null,
     securityScan: null,
     paymentPlan: null,
     recommendation: null,
+    duplicateCheck: null,
+    vendorCheck: null,
+    budgetCheck: null,
+    policyGate: null,
     treasuryPlan: null,
+    pendingPayment: null,
     logs: [],
     error: null,
   };
@@ -121,9 +154,13 @@ export function createThinkingLog(
 ): ThinkingLog {
   const stepConfig = {
     pdfProcessor: { title: 'Extracting Invoice Data', icon: 'file' as const, agent: 'analyst' as const },
+    invoiceReview: { title: 'Reviewing Invoice Fields', icon: 'file' as const, agent: 'analyst' as const },
+    duplicateCheck: { title: 'Checking for Duplicates', icon: 'file' as const, agent: 'analyst' as const },
+    vendorCheck: { title: 'Checking Vendor Registry', icon: 'shield' as const, agent: 'analyst' as const },
     walletScanner: { title: 'Scanning Wallet Security', icon: 'shield' as const, agent: 'analyst' as const },
     paymentPlan: { title: 'Preparing Payment Plan', icon: 'wallet' as const, agent: 'analyst' as const },
     cfoAssistant: { title: 'Analyzing with CFO Assistant', icon: 'brain' as const, agent: 'analyst' as const },
+    policyGate: { title: 'Applying Payment Policy', icon: 'shield' as const, agent: 'analyst' as const },
     treasuryManager: { title: 'Treasury Manager', icon: 'vault' as const, agent: 'treasury' as const },
     complete: { title: 'Analysis Complete', icon: 'check' as const, agent: 'analyst' as const },
   };
@@ -1,81 +1,43 @@
 // lib/services/etherscanService.ts
-// Arc wallet security scanning using Arc RPC + ArcScan metadata
+// Multi-chain wallet security scanning using chain RPCs + Etherscan-compatible explorer metadata
+
+import { isAddress, type Address } from 'viem';
+
+import { ChainScan, ContractInspection, CounterpartyAnalysis, CounterpartyFinding, PayoutChain, SecurityScan } from '@/app/types';
+import { findLookAlikeAddresses, getPastCounterparties, shortenAddress } from './addressPoisoning';
+import { describeContractInspection, inspectContract } from './contractInspection';
+import {
+  HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGES,
+  analyzeCounterpartyGraph,
+  describeCounterpartyFinding,
+} from './counterpartyGraph';
+import {
+  DEFAULT_SCAN_CHAINS,
+  ExplorerTransaction,
+  SCAN_CHAIN_CONFIGS,
+  ScanChainConfig,
+  fetchExplorerSafe,
+  fetchTransactionHistory,
+  getChainClient,
+} from './explorerClient';
+import { evaluateRiskPolicy, getRiskPolicy } from './riskPolicy';
+import { screenAddress } from './sanctionsScreening';
+import { INVOICE_PAYOUT_CHAIN } from './vendorRegistry';
+import { createTtlCache } from './ttlCache';
 
-import { createPublicClient, defineChain, http, isAddress, type Address } from 'viem';
-
-import { SecurityScan } from '@/app/types';
-
-const ARCSCAN_API_KEY = process.env.ARCSCAN_API_KEY || process.env.ETHERSCAN_API_KEY || '';
-const ARCSCAN_BASE_URL = process.env.ARCSCAN_API_URL || 'https://testnet.arcscan.app/api';
-const ARC_RPC_URL = process.env.ARC_RPC_URL || 'https://rpc.testnet.arc.network';
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
-const ARC_TESTNET_CHAIN_ID = 5042002;
-
-const arcTestnet = defineChain({
-  id: ARC_TESTNET_CHAIN_ID,
-  name: 'Arc Testnet',
-  network: 'arc-testnet',
-  nativeCurrency: {
-    name: 'USDC',
-    symbol: 'USDC',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: [ARC_RPC_URL],
-    },
-    public: {
-      http: [ARC_RPC_URL],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'ArcScan',
-      url: 'https://testnet.arcscan.app',
-    },
-  },
-});
-
-const arcClient = createPublicClient({
-  chain: arcTestnet,
-  transport: http(ARC_RPC_URL),
-});
-
-interface RiskScoreInput {
-  isContract: boolean;
-  isVerified: boolean;
-  hasMaliciousLabel: boolean;
-  transactionCount: number;
-  labels: string[];
-  walletAgeDays: number | null;
-}
+const SCAN_CACHE_TTL_MS = Number(process.env.SCAN_CACHE_TTL_MINUTES || 30) * 60 * 1000;
 
-interface ArcScanResponse<T> {
-  status?: string;
-  message?: string;
-  result?: T;
-}
+// Per-chain scan results, so vendors paid weekly aren't rescanned every invoice
+const chainScanCache = createTtlCache<ChainScan>('chain-scans', SCAN_CACHE_TTL_MS);
 
 interface SourceCodeResult {
   SourceCode?: string;
   ContractName?: string;
 }
 
-interface TransactionListItem {
-  timeStamp?: string;
-}
-
-function clampScore(value: number): number {
-  if (value < 0) {
-    return 0;
-  }
-  if (value > 100) {
-    return 100;
-  }
-  return Math.round(value);
-}
-
-function parseFirstTransactionIso(items: TransactionListItem[]): string {
+function parseFirstTransactionIso(items: ExplorerTransaction[]): string {
   if (items.length === 0) {
     return '';
   }
@@ -102,100 +64,133 @@ function parseWalletAgeDays(firstTransactionIso: string): number | null {
   return diff >= 0 ? Math.floor(diff / MS_PER_DAY) : null;
 }
 
-function buildArcScanUrl(query: string): string {
-  const searchParams = new URLSearchParams(query);
-  if (ARCSCAN_API_KEY) {
-    searchParams.set('apikey', ARCSCAN_API_KEY);
-  }
-  return `${ARCSCAN_BASE_URL}?${searchParams.toString()}`;
-}
 
-async function fetchArcScan<T>(query: string): Promise<ArcScanResponse<T>> {
-  const response = await fetch(buildArcScanUrl(query), {
-    cache: 'no-store',
-  });
+function countFindings(findings: CounterpartyFinding[]) {
+  return {
+    mixerExposureCount: findings.filter(finding => finding.type === 'mixer').length,
+    knownBadExposureCount: findings.filter(finding => finding.type === 'known-bad').length,
+    freshDrainerCount: findings.filter(finding => finding.type === 'fresh-drainer').length,
+  };
+}
 
-  if (!response.ok) {
-    throw new Error(`ArcScan request failed (${response.status})`);
-  }
+function hasLabelKeyword(labels: string[], keywords: string[]): boolean {
+  return keywords.some(keyword => labels.some(label => label.toLowerCase().includes(keyword)));
+}
 
-  return (await response.json()) as ArcScanResponse<T>;
+function hasMaliciousKeyword(labels: string[]): boolean {
+  return hasLabelKeyword(labels, ['scam', 'phish', 'hack', 'exploit', 'fake', 'fraud']);
 }
 
-async function fetchArcScanSafe<T>(query: string): Promise<ArcScanResponse<T> | null> {
-  try {
-    return await fetchArcScan<T>(query);
-  } catch (error) {
-    console.warn('⚠️ ArcScan metadata request failed:', error);
-    return null;
-  }
+function hasSuspiciousKeyword(labels: string[]): boolean {
+  return hasLabelKeyword(labels, ['phish', 'hack', 'exploit', 'scam', 'fake']);
 }
 
 /**
- * Calculate risk score based on Arc data
- * Returns score 0-100 (70+ is high risk)
+ * Scan an address on a single chain (RPC + explorer metadata).
+ * The chain score covers on-chain history only; address-level checks are applied on the aggregate.
  */
-function calculateRiskScore(data: RiskScoreInput): number {
-  let score = 0;
-
-  // Label data is limited on ArcScan free tiers; add a small uncertainty floor.
-  if (data.labels.length === 0) {
-    score += 5;
+async function scanChain(address: Address, config: ScanChainConfig): Promise<ChainScan> {
+  const cacheKey = `${config.id}:${address.toLowerCase()}`;
+  const cached = await chainScanCache.get(cacheKey);
+  if (cached) {
+    return { ...cached.value, cached: true };
   }
 
-  // Contract not verified = HIGH risk (+40)
-  if (data.isContract && !data.isVerified) {
-    score += 40;
-  }
+  const client = getChainClient(config);
 
-  // Known malicious label = CRITICAL (+60)
-  if (data.hasMaliciousLabel) {
-    score += 60;
-  }
+  const [bytecode, nonce, sourceCodeData, history] = await Promise.all([
+    client.getBytecode({ address }),
+    client.getTransactionCount({ address }),
+    fetchExplorerSafe<SourceCodeResult[]>(
+      config,
+      `module=contract&action=getsourcecode&address=${address}`
+    ),
+    fetchTransactionHistory(config, address, { pageSize: HISTORY_PAGE_SIZE, maxPages: MAX_HISTORY_PAGES }),
+  ]);
 
-  // Suspicious labels (+30)
-  const suspiciousLabels = ['phish', 'hack', 'exploit', 'scam', 'fake'];
-  const hasSuspiciousLabel = data.labels.some(label =>
-    suspiciousLabels.some(suspicious => label.toLowerCase().includes(suspicious))
-  );
-  if (hasSuspiciousLabel) {
-    score += 30;
-  }
+  const isContract = Boolean(bytecode && bytecode !== '0x' && bytecode !== '0x0');
 
-  // No on-chain activity means no historical confidence.
-  if (data.transactionCount === 0) {
-    score += 25;
-  }
+  // A contract's nonce only counts contracts it deployed; its activity is the calls made to it
+  const transactionCount = isContract ? Math.max(nonce, history?.transactions.length ?? 0) : nonce;
 
-  // Low transaction count = suspicious (+15)
-  if (data.transactionCount > 0 && data.transactionCount < 10) {
-    score += 15;
+  const sourceCodeResult = Array.isArray(sourceCodeData?.result) ? sourceCodeData.result[0] : undefined;
+  const sourceCode = sourceCodeResult?.SourceCode?.trim() ?? '';
+  const isVerified = isContract && sourceCode.length > 0;
+
+  const firstTransaction = parseFirstTransactionIso(history?.transactions ?? []);
+  const [counterparties, contract] = await Promise.all([
+    history ? analyzeCounterpartyGraph(address, config, history) : null,
+    isContract ? inspectContract(address, config) : null,
+  ]);
+
+  const labels: string[] = [];
+  if (sourceCodeResult?.ContractName?.trim()) {
+    labels.push(sourceCodeResult.ContractName.trim());
   }
 
-  // Very new address (less than 100 txs) (+10)
-  if (data.transactionCount >= 10 && data.transactionCount < 100) {
-    score += 10;
+  const warnings: string[] = [];
+  if (isContract && !isVerified) {
+    warnings.push(`⚠️ Contract is not verified on ${config.explorerName}`);
+  }
+  if (contract) {
+    warnings.push(...describeContractInspection(contract));
+  }
+  if (!sourceCodeData || !history) {
+    warnings.push(`ℹ️ ${config.explorerName} metadata is partially unavailable`);
+  }
+  if (history && !history.complete) {
+    warnings.push(`ℹ️ Counterparty analysis covers the first ${history.transactions.length} transactions only`);
   }
 
-  // Newly created wallet/contract has elevated uncertainty.
-  if (data.walletAgeDays !== null) {
-    if (data.walletAgeDays < 30) {
-      score += 15;
-    } else if (data.walletAgeDays < 90) {
-      score += 8;
-    }
+  const chainScan: ChainScan = {
+    chain: config.id,
+    chainName: config.name,
+    riskScore: evaluateRiskPolicy({
+      isContract,
+      isVerified,
+      hasMaliciousLabel: hasMaliciousKeyword(labels),
+      hasSuspiciousLabel: hasSuspiciousKeyword(labels),
+      transactionCount,
+      labelCount: labels.length,
+      walletAgeDays: parseWalletAgeDays(firstTransaction),
+      lookAlikeCount: 0,
+      sanctionsMatchCount: 0,
+      ...countFindings(counterparties?.findings ?? []),
+      isProxy: Boolean(contract?.isProxy),
+      isErc20: Boolean(contract?.isErc20),
+      isSafe: Boolean(contract?.isSafe),
+    }).score,
+    isContract,
+    isVerified,
+    transactionCount,
+    firstTransaction,
+    labels,
+    warnings,
+    counterparties,
+    contract,
+    scannedAt: new Date().toISOString(),
+    cached: false,
+    error: null,
+  };
+
+  // A scan degraded by explorer outages is not reused
+  if (sourceCodeData && history) {
+    await chainScanCache.set(cacheKey, chainScan);
   }
 
-  return clampScore(score);
+  return chainScan;
 }
 
 /**
- * Scan wallet address using Arc data (RPC + ArcScan metadata)
- * Returns security assessment with risk score
+ * Scan wallet address on every chain we might pay it on, in parallel.
+ * Returns the per-chain breakdown plus an aggregated security assessment.
  */
-export async function scanWalletAddress(address: string): Promise<SecurityScan> {
+export async function scanWalletAddress(
+  address: string,
+  chains: PayoutChain[] = DEFAULT_SCAN_CHAINS
+): Promise<SecurityScan> {
   try {
-    console.log(`🔍 Scanning wallet: ${address}`);
+    console.log(`🔍 Scanning wallet: ${address} on ${chains.join(', ')}`);
 
     // Validate Ethereum address format
     if (!isAddress(address)) {
@@ -203,107 +198,191 @@ export async function scanWalletAddress(address: string): Promise<SecurityScan>
     }
 
     const walletAddress = address as Address;
+    const configs = chains.map(chain => SCAN_CHAIN_CONFIGS[chain]);
 
-    const [bytecode, transactionCount, sourceCodeData, txListData] = await Promise.all([
-      arcClient.getBytecode({ address: walletAddress }),
-      arcClient.getTransactionCount({ address: walletAddress }),
-      fetchArcScanSafe<SourceCodeResult[]>(
-        `module=contract&action=getsourcecode&address=${address}`
-      ),
-      fetchArcScanSafe<TransactionListItem[] | string>(
-        `module=account&action=txlist&address=${address}&startblock=0&endblock=99999999&page=1&offset=25&sort=asc`
-      ),
+    const [chainResults, counterparties, screening] = await Promise.all([
+      Promise.allSettled(configs.map(config => scanChain(walletAddress, config))),
+      getPastCounterparties(),
+      screenAddress(address),
     ]);
 
-    const isContract = Boolean(bytecode && bytecode !== '0x' && bytecode !== '0x0');
+    // A chain whose RPC is down is reported, not fatal, as long as one chain answered
+    const chainScans: ChainScan[] = chainResults.map((result, idx) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      console.warn(`⚠️ ${configs[idx].name} scan failed:`, result.reason);
+      return {
+        chain: configs[idx].id,
+        chainName: configs[idx].name,
+        riskScore: 0,
+        isContract: false,
+        isVerified: false,
+        transactionCount: 0,
+        firstTransaction: '',
+        labels: [],
+        warnings: [],
+        counterparties: null,
+        contract: null,
+        scannedAt: new Date().toISOString(),
+        cached: false,
+        // viem errors carry a one-line shortMessage alongside the multi-line message
+        error: (result.reason as { shortMessage?: string })?.shortMessage
+          ?? (result.reason instanceof Error ? result.reason.message : 'Chain unavailable'),
+      };
+    });
 
-    const sourceCodeResult = Array.isArray(sourceCodeData?.result) ? sourceCodeData.result[0] : undefined;
-    const sourceCode = sourceCodeResult?.SourceCode?.trim() ?? '';
-    const isVerified = isContract && sourceCode.length > 0;
+    const scanned = chainScans.filter(chainScan => !chainScan.error);
+    if (scanned.length === 0) {
+      throw new Error(`Wallet scan failed on every chain (${chainScans.map(c => `${c.chainName}: ${c.error}`).join('; ')})`);
+    }
 
-    const txList = Array.isArray(txListData?.result) ? txListData.result : [];
-    const firstTransaction = parseFirstTransactionIso(txList);
+    // Other chains only add history; without the chain the invoice is paid on the scan is incomplete
+    const payoutChainScan = chainScans.find(chainScan => chainScan.chain === INVOICE_PAYOUT_CHAIN);
+    const payoutChainError = !payoutChainScan
+      ? `${SCAN_CHAIN_CONFIGS[INVOICE_PAYOUT_CHAIN].name} is not in the scanned chains`
+      : payoutChainScan.error
+      ? `${payoutChainScan.chainName} could not be scanned - ${payoutChainScan.error}`
+      : null;
+
+    const lookAlikeMatches = counterparties ? findLookAlikeAddresses(address, counterparties) : [];
+
+    const chainGraphs = scanned
+      .map(chainScan => chainScan.counterparties)
+      .filter((graph): graph is CounterpartyAnalysis => Boolean(graph));
+    const counterpartyAnalysis: CounterpartyAnalysis | null = chainGraphs.length > 0
+      ? {
+          transactionsAnalyzed: chainGraphs.reduce((sum, graph) => sum + graph.transactionsAnalyzed, 0),
+          historyComplete: chainGraphs.every(graph => graph.historyComplete),
+          funders: chainGraphs.reduce((sum, graph) => sum + graph.funders, 0),
+          recipients: chainGraphs.reduce((sum, graph) => sum + graph.recipients, 0),
+          secondHopAddresses: chainGraphs.reduce((sum, graph) => sum + graph.secondHopAddresses, 0),
+          findings: chainGraphs.flatMap(graph => graph.findings),
+        }
+      : null;
+
+    // Aggregate history across chains: activity anywhere counts, a problem anywhere counts
+    const isContract = scanned.some(chainScan => chainScan.isContract);
+    const isVerified = isContract && scanned.every(chainScan => !chainScan.isContract || chainScan.isVerified);
+    const transactionCount = scanned.reduce((sum, chainScan) => sum + chainScan.transactionCount, 0);
+    const firstTransaction = scanned
+      .map(chainScan => chainScan.firstTransaction)
+      .filter(Boolean)
+      .sort()[0] ?? '';
     const walletAgeDays = parseWalletAgeDays(firstTransaction);
-
-    const labels: string[] = [];
-    let hasMaliciousLabel = false;
-
-    if (sourceCodeResult?.ContractName?.trim()) {
-      labels.push(sourceCodeResult.ContractName.trim());
+    const contractInspections = scanned
+      .map(chainScan => chainScan.contract)
+      .filter((contract): contract is ContractInspection => Boolean(contract));
+    const scannedAt = scanned.map(chainScan => chainScan.scannedAt).sort()[0];
+    const cached = scanned.some(chainScan => chainScan.cached);
+
+    const labels = Array.from(new Set(scanned.flatMap(chainScan => chainScan.labels)));
+    for (const match of screening.matches) {
+      labels.push(`${match.list}: ${match.label}`);
     }
 
-    if (labels.length > 0) {
-      const maliciousKeywords = ['scam', 'phish', 'hack', 'exploit', 'fake', 'fraud'];
-      if (maliciousKeywords.some(keyword => labels.some(label => label.toLowerCase().includes(keyword)))) {
-        hasMaliciousLabel = true;
-      }
-    }
+    const hasMaliciousLabel = screening.matches.length > 0 || hasMaliciousKeyword(labels);
 
-    // Calculate risk score
-    const riskScore = calculateRiskScore({
+    // Calculate risk score from the configured policy
+    const { score: riskScore, breakdown: riskBreakdown } = evaluateRiskPolicy({
       isContract,
       isVerified,
       hasMaliciousLabel,
+      hasSuspiciousLabel: hasSuspiciousKeyword(labels),
       transactionCount,
-      labels,
+      labelCount: labels.length,
       walletAgeDays,
+      lookAlikeCount: lookAlikeMatches.length,
+      sanctionsMatchCount: screening.matches.length,
+      ...countFindings(counterpartyAnalysis?.findings ?? []),
+      isProxy: contractInspections.some(contract => contract.isProxy),
+      isErc20: contractInspections.some(contract => contract.isErc20),
+      // Only a Safe on every chain where the address has code earns the Safe allowance
+      isSafe: contractInspections.length > 0 && contractInspections.every(contract => contract.isSafe),
     });
 
     // Generate warnings
     const warnings: string[] = [];
-    if (isContract && !isVerified) {
-      warnings.push('⚠️ Contract is not verified on ArcScan');
+    for (const match of screening.matches) {
+      warnings.push(`⛔ Address is on the ${match.list} list (${match.label}) - payment must not be made`);
+    }
+    for (const match of lookAlikeMatches) {
+      warnings.push(
+        `🚨 Possible address poisoning: ${shortenAddress(address)} looks like ${shortenAddress(match.counterparty)}, ` +
+        `${match.paidBefore ? 'which we have paid before' : 'a past counterparty'} ` +
+        `(first ${match.matchingPrefix} / last ${match.matchingSuffix} characters match)`
+      );
     }
     if (hasMaliciousLabel) {
       warnings.push('🚨 Address has been flagged as malicious');
     }
+    for (const finding of counterpartyAnalysis?.findings ?? []) {
+      warnings.push(`🚨 ${describeCounterpartyFinding(finding)} (${SCAN_CHAIN_CONFIGS[finding.chain].name})`);
+    }
     if (transactionCount === 0) {
-      warnings.push('⚠️ Address has no outgoing transaction history');
+      warnings.push('⚠️ Address has no outgoing transaction history on any scanned chain');
     } else if (transactionCount < 10) {
       warnings.push('⚠️ Address has very low transaction history');
     }
     if (walletAgeDays !== null && walletAgeDays < 30) {
       warnings.push('⚠️ Address activity started less than 30 days ago');
     }
+    for (const chainScan of chainScans) {
+      warnings.push(...chainScan.warnings.map(warning => `${warning} (${chainScan.chainName})`));
+      if (chainScan.error) {
+        warnings.push(`ℹ️ ${chainScan.chainName} could not be scanned - ${chainScan.error}`);
+      }
+    }
     if (labels.length === 0 && transactionCount > 0) {
-      warnings.push('ℹ️ Limited ArcScan labeling metadata available for this address');
+      warnings.push('ℹ️ Limited explorer labeling metadata available for this address');
+    }
+    for (const error of screening.errors) {
+      warnings.push(`ℹ️ Sanctions screening incomplete - ${error}`);
     }
-    if (!sourceCodeData || !txListData) {
-      warnings.push('ℹ️ ArcScan metadata is partially unavailable; score is based mostly on on-chain activity');
+    if (payoutChainError) {
+      warnings.push(`⚠️ Payout chain scan incomplete - ${payoutChainError}`);
+    }
+    if (!counterparties) {
+      warnings.push('ℹ️ Treasury counterparty history unavailable; look-alike address check skipped');
     }
 
-    console.log(`✅ Scan complete. Risk score: ${riskScore}/100`);
+    console.log(`✅ Scan complete. Risk score: ${riskScore}/100 across ${scanned.length}/${chainScans.length} chains${cached ? ' (cached)' : ''}`);
 
     return {
       riskScore,
+      riskThresholds: getRiskPolicy().thresholds,
       isContract,
       isVerified,
       hasMaliciousLabel,
       transactionCount,
       firstTransaction,
       warnings,
-      etherscanLabels: labels
+      etherscanLabels: labels,
+      lookAlikeMatches,
+      sanctionsMatches: screening.matches,
+      screeningErrors: screening.errors,
+      payoutChainError,
+      chainScans,
+      riskBreakdown,
+      counterpartyAnalysis,
+      scannedAt,
+      cached,
+      contractInspections,
     };
 
   } catch (error) {
-    console.error('❌ Arc scan error:', error);
+    console.error('❌ Wallet scan error:', error);
     throw error;
   }
 }
 
 /**
- * Get recommendation based on risk score
- * 0-39: APPROVE, 40-69: REVIEW, 70+: REJECT
+ * "scanned 12 min ago (cached)" for scans served from cache, null for fresh scans
  */
-export function getRecommendationFromScore(score: number): {
-  recommendation: 'APPROVE' | 'REVIEW' | 'REJECT';
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-} {
-  if (score >= 70) {
-    return { recommendation: 'REJECT', riskLevel: 'HIGH' };
-  } else if (score >= 40) {
-    return { recommendation: 'REVIEW', riskLevel: 'MEDIUM' };
-  } else {
-    return { recommendation: 'APPROVE', riskLevel: 'LOW' };
+export function describeScanFreshness(securityScan: Pick<SecurityScan, 'scannedAt' | 'cached'>): string | null {
+  if (!securityScan.cached) {
+    return null;
   }
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(securityScan.scannedAt).getTime()) / 60000));
+  return `scanned ${minutes < 1 ? 'just now' : `${minutes} min ago`} (cached)`;
 }
@@ -0,0 +1,115 @@
+// lib/services/addressPoisoning.ts
+// Look-alike address detection against the treasury's past counterparties
+
+import { AddressLookAlike } from '@/app/types';
+import { getTransactions } from './circleService';
+
+// Wallet UIs usually show the first/last 4 hex characters ("0x1234…abcd")
+const LOOKALIKE_MIN_MATCH = 4;
+const COUNTERPARTY_HISTORY_SIZE = 50;
+
+const TREASURY_WALLET_IDS = [
+  process.env.NEXT_PUBLIC_CIRCLE_ETH_SEPOLIA_WALLET_ID,
+  process.env.NEXT_PUBLIC_CIRCLE_ARC_WALLET_ID,
+].filter((id): id is string => Boolean(id));
+
+const TREASURY_ADDRESSES = [
+  process.env.CIRCLE_ETH_SEPOLIA_WALLET_ADDRESS,
+  process.env.CIRCLE_ARC_WALLET_ADDRESS,
+].filter((address): address is string => Boolean(address)).map(address => address.toLowerCase());
+
+interface CounterpartyTransaction {
+  transactionType?: string;
+  sourceAddress?: string;
+  destinationAddress?: string;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+  return i;
+}
+
+/**
+ * Addresses the treasury has paid or been paid by, most recent first.
+ * Returns null if Circle is not configured or unreachable so the scan can continue.
+ */
+export async function getPastCounterparties(): Promise<{ paid: string[]; received: string[] } | null> {
+  if (TREASURY_WALLET_IDS.length === 0) {
+    return null;
+  }
+
+  try {
+    const transactions = (await getTransactions(TREASURY_WALLET_IDS, {
+      pageSize: COUNTERPARTY_HISTORY_SIZE,
+    })) as CounterpartyTransaction[];
+
+    const paid = new Set<string>();
+    const received = new Set<string>();
+
+    for (const tx of transactions) {
+      if (tx.transactionType === 'OUTBOUND' && tx.destinationAddress) {
+        paid.add(tx.destinationAddress.toLowerCase());
+      } else if (tx.transactionType === 'INBOUND' && tx.sourceAddress) {
+        received.add(tx.sourceAddress.toLowerCase());
+      }
+    }
+
+    TREASURY_ADDRESSES.forEach(address => {
+      paid.delete(address);
+      received.delete(address);
+    });
+
+    return { paid: Array.from(paid), received: Array.from(received) };
+  } catch (error) {
+    console.warn('⚠️ Counterparty history unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Find counterparties that share a leading or trailing run of characters with
+ * the address without being identical — the pattern used in address poisoning.
+ */
+export function findLookAlikeAddresses(
+  address: string,
+  counterparties: { paid: string[]; received: string[] }
+): AddressLookAlike[] {
+  const target = address.toLowerCase().replace(/^0x/, '');
+  const matches: AddressLookAlike[] = [];
+
+  const candidates = [
+    ...counterparties.paid.map(counterparty => ({ counterparty, paidBefore: true })),
+    ...counterparties.received.map(counterparty => ({ counterparty, paidBefore: false })),
+  ];
+
+  for (const { counterparty, paidBefore } of candidates) {
+    const other = counterparty.replace(/^0x/, '');
+    if (other === target) continue;
+
+    const matchingPrefix = commonPrefixLength(target, other);
+    const matchingSuffix = commonSuffixLength(target, other);
+
+    if (matchingPrefix >= LOOKALIKE_MIN_MATCH || matchingSuffix >= LOOKALIKE_MIN_MATCH) {
+      matches.push({ counterparty: `0x${other}`, matchingPrefix, matchingSuffix, paidBefore });
+    }
+  }
+
+  // Strongest mimics first
+  return matches.sort(
+    (a, b) => (b.matchingPrefix + b.matchingSuffix) - (a.matchingPrefix + a.matchingSuffix)
+  );
+}
+
+/**
+ * Short display form matching how wallets render addresses
+ */
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
@@ -0,0 +1,398 @@
+// lib/services/approvals.ts
+// M-of-N payment sign-off: pending payments, quorum tiers by amount and per-approver decisions
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+import {
+  ApprovalDecision,
+  ApprovalTier,
+  Approver,
+  InvoiceData,
+  InvoiceFingerprint,
+  PendingPayment,
+  TreasuryPlan,
+} from '@/app/types';
+import { appendAuditEntry } from './auditLog';
+import { findApprovedDuplicate, recordProcessedInvoice } from './duplicateDetection';
+import { parseAmountValue } from './invoiceValidation';
+import { readStore, updateStore } from './localStore';
+import { markPlanSuperseded } from './treasuryPlans';
+
+const APPROVAL_POLICY_PATH = process.env.APPROVAL_POLICY_PATH || path.join(process.cwd(), 'config', 'approval-policy.json');
+const PAYMENTS_STORE = 'pending-payments';
+
+// An execution that has not reported back for this long is assumed to have died and may be resumed
+const STALE_EXECUTION_MS = 30 * 60 * 1000;
+// A live execution refreshes its claim this often, so long steps such as a CCTP bridge never look stale
+export const EXECUTION_HEARTBEAT_MS = 60 * 1000;
+
+// Approver as configured; the token hash never leaves the server
+export interface ConfiguredApprover extends Approver {
+  tokenSha256?: string;           // SHA-256 (hex) of the approver's secret token; without it the approver cannot sign
+}
+
+export interface ApprovalPolicy {
+  approvers: ConfiguredApprover[];
+  tiers: ApprovalTier[];          // Ascending by maxAmount; the last tier should have maxAmount null
+  rejectionsToBlock: number;      // Rejections that cancel a payment
+}
+
+let loadedPolicy: ApprovalPolicy | null = null;
+
+function validateApprovalPolicy(policy: ApprovalPolicy): string | null {
+  if (!Array.isArray(policy.approvers) || policy.approvers.length === 0) {
+    return 'approvers must list at least one approver';
+  }
+  if (policy.approvers.some(approver => !approver.id || !approver.name)) {
+    return 'every approver needs an id and a name';
+  }
+  const badHash = policy.approvers.find(approver =>
+    approver.tokenSha256 !== undefined && !/^[0-9a-f]{64}$/i.test(approver.tokenSha256)
+  );
+  if (badHash) {
+    return `approver "${badHash.id}" tokenSha256 must be a hex SHA-256 digest`;
+  }
+  if (!Array.isArray(policy.tiers) || policy.tiers.length === 0) {
+    return 'tiers must list at least one tier';
+  }
+  for (const tier of policy.tiers) {
+    if (!Number.isInteger(tier.requiredApprovals) || tier.requiredApprovals < 1) {
+      return `tier "${tier.label}" needs requiredApprovals >= 1`;
+    }
+    if (tier.requiredApprovals > policy.approvers.length) {
+      return `tier "${tier.label}" requires ${tier.requiredApprovals} approvals but only ${policy.approvers.length} approvers exist`;
+    }
+  }
+  if (policy.tiers[policy.tiers.length - 1].maxAmount !== null) {
+    return 'the last tier must have maxAmount null';
+  }
+  if (!Number.isInteger(policy.rejectionsToBlock) || policy.rejectionsToBlock < 1) {
+    return 'rejectionsToBlock must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * The active approval policy, read from APPROVAL_POLICY_PATH on first use
+ */
+export function getApprovalPolicy(): ApprovalPolicy {
+  if (loadedPolicy) {
+    return loadedPolicy;
+  }
+
+  const policy = JSON.parse(readFileSync(APPROVAL_POLICY_PATH, 'utf8')) as ApprovalPolicy;
+  const invalid = validateApprovalPolicy(policy);
+  if (invalid) {
+    throw new Error(`Invalid approval policy (${APPROVAL_POLICY_PATH}): ${invalid}`);
+  }
+
+  loadedPolicy = policy;
+  console.log(`🖊️ Loaded approval policy: ${policy.approvers.length} approvers, ${policy.tiers.map(tier => `${tier.label} ${tier.requiredApprovals}`).join(' / ')}`);
+  const withoutToken = policy.approvers.filter(approver => !approver.tokenSha256);
+  if (withoutToken.length > 0) {
+    console.warn(`⚠️ Approvers without a token cannot sign: ${withoutToken.map(approver => approver.id).join(', ')} - run \`pnpm approver-token <id>\``);
+  }
+  return policy;
+}
+
+function toApprover({ id, name }: ConfiguredApprover): Approver {
+  return { id, name };
+}
+
+export function hashApproverToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The approver whose token was presented; null for an unknown approver, a wrong token
+ * or an approver with no token configured
+ */
+export function authenticateApprover(approverId: string, token: string): Approver | null {
+  const approver = getApprovalPolicy().approvers.find(candidate => candidate.id === approverId);
+  if (!approver?.tokenSha256) {
+    return null;
+  }
+
+  const expected = Buffer.from(approver.tokenSha256.toLowerCase(), 'hex');
+  const presented = Buffer.from(hashApproverToken(token), 'hex');
+  return timingSafeEqual(expected, presented) ? toApprover(approver) : null;
+}
+
+/**
+ * Quorum tier for an amount; unreadable amounts get the strictest tier
+ */
+export function getQuorumTier(amount: number | null): ApprovalTier {
+  const { tiers } = getApprovalPolicy();
+  if (amount === null) {
+    return tiers[tiers.length - 1];
+  }
+  return tiers.find(tier => tier.maxAmount === null || amount <= tier.maxAmount) ?? tiers[tiers.length - 1];
+}
+
+export function countApprovals(payment: PendingPayment): number {
+  return payment.decisions.filter(decision => decision.decision === 'approve').length;
+}
+
+/**
+ * Record an issued treasury plan that needs sign-off before it can be executed
+ */
+export async function createPendingPayment(
+  invoiceData: InvoiceData,
+  treasuryPlan: TreasuryPlan,
+  fileName: string,
+  runId: string | null = null,
+  fingerprint: InvoiceFingerprint | null = null
+): Promise<PendingPayment> {
+  if (!treasuryPlan.planId) {
+    throw new Error('Treasury plan must be issued before it can be submitted for approval');
+  }
+
+  const policy = getApprovalPolicy();
+  const amount = parseAmountValue(invoiceData.amount);
+  const now = new Date().toISOString();
+
+  const payment: PendingPayment = {
+    id: randomUUID(),
+    status: 'pending',
+    runId,
+    fileName,
+    invoiceData,
+    planId: treasuryPlan.planId,
+    fingerprint,
+    amount,
+    currency: treasuryPlan.invoiceCurrency,
+    tier: getQuorumTier(amount),
+    rejectionsToBlock: policy.rejectionsToBlock,
+    eligibleApprovers: policy.approvers.map(toApprover),
+    decisions: [],
+    createdAt: now,
+    updatedAt: now,
+    executedAt: null,
+    executionError: null,
+    completedSteps: [],
+  };
+
+  await updateStore<PendingPayment[], void>(PAYMENTS_STORE, [], payments => ({
+    data: [...payments, payment],
+    result: undefined,
+  }));
+
+  await appendAuditEntry({
+    action: 'payment.created',
+    runId,
+    paymentId: payment.id,
+    data: { fileName, invoiceData, treasuryPlan, tier: payment.tier },
+  });
+
+  console.log(`🖊️ Pending payment ${payment.id}: ${invoiceData.amount} to ${invoiceData.recipient} needs ${payment.tier.requiredApprovals} approval(s) (${payment.tier.label})`);
+  return payment;
+}
+
+/**
+ * Pending payments, newest first
+ */
+export async function listPendingPayments(): Promise<PendingPayment[]> {
+  const payments = await readStore<PendingPayment[]>(PAYMENTS_STORE, []);
+  return [...payments].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getPendingPayment(id: string): Promise<PendingPayment | null> {
+  const payments = await readStore<PendingPayment[]>(PAYMENTS_STORE, []);
+  return payments.find(payment => payment.id === id) ?? null;
+}
+
+export async function getPendingPaymentByPlan(planId: string): Promise<PendingPayment | null> {
+  const payments = await readStore<PendingPayment[]>(PAYMENTS_STORE, []);
+  return payments.find(payment => payment.planId === planId) ?? null;
+}
+
+// Apply a change to one payment; `change` returns an error message to leave the store untouched
+async function updatePayment(
+  id: string,
+  change: (payment: PendingPayment) => PendingPayment | string
+): Promise<{ payment: PendingPayment | null; error: string | null }> {
+  return updateStore<PendingPayment[], { payment: PendingPayment | null; error: string | null }>(PAYMENTS_STORE, [], payments => {
+    const existing = payments.find(payment => payment.id === id);
+    if (!existing) {
+      return { data: payments, result: { payment: null, error: null } };
+    }
+
+    const updated = change(existing);
+    if (typeof updated === 'string') {
+      return { data: payments, result: { payment: existing, error: updated } };
+    }
+
+    const stamped = { ...updated, updatedAt: new Date().toISOString() };
+    return {
+      data: payments.map(payment => (payment.id === id ? stamped : payment)),
+      result: { payment: stamped, error: null },
+    };
+  });
+}
+
+/**
+ * Record one approver's decision. Quorum approves the payment; enough rejections cancel it.
+ * Returns payment null if it does not exist, or an error if the decision is not allowed.
+ */
+export async function recordApprovalDecision(
+  id: string,
+  approver: Approver,
+  decision: ApprovalDecision['decision'],
+  comment: string | null = null
+): Promise<{ payment: PendingPayment | null; error: string | null }> {
+  // Two uploads of one invoice can both be pending; only the first to reach quorum may be approved
+  const current = await getPendingPayment(id);
+  const duplicate = current?.fingerprint ? await findApprovedDuplicate(current.fingerprint, id) : null;
+
+  const result = await updatePayment(id, payment => {
+    if (payment.status !== 'pending') {
+      return `Payment is already ${payment.status}`;
+    }
+    if (!payment.eligibleApprovers.some(eligible => eligible.id === approver.id)) {
+      return `${approver.name} is not an approver for this payment`;
+    }
+    if (payment.decisions.some(existing => existing.approverId === approver.id)) {
+      return `${approver.name} has already decided on this payment`;
+    }
+
+    const decisions: ApprovalDecision[] = [
+      ...payment.decisions,
+      {
+        approverId: approver.id,
+        approverName: approver.name,
+        decision,
+        comment: comment?.trim() || null,
+        decidedAt: new Date().toISOString(),
+      },
+    ];
+    const approvals = decisions.filter(entry => entry.decision === 'approve').length;
+    const rejections = decisions.length - approvals;
+    const status = rejections >= payment.rejectionsToBlock
+      ? 'rejected'
+      : approvals >= payment.tier.requiredApprovals
+      ? 'approved'
+      : 'pending';
+
+    if (status === 'approved' && duplicate) {
+      return `Same invoice as ${duplicate.fileName}, which was already approved - reject this duplicate payment`;
+    }
+
+    return { ...payment, decisions, status };
+  });
+
+  if (result.payment && !result.error) {
+    const { payment } = result;
+
+    // Only approved invoices count as processed for duplicate detection
+    if (payment.status === 'approved' && payment.fingerprint) {
+      await recordProcessedInvoice(payment.fingerprint, payment.fileName, payment.id);
+    }
+
+    await appendAuditEntry({
+      action: decision === 'approve' ? 'payment.approved' : 'payment.rejected',
+      actor: approver.id,
+      runId: payment.runId,
+      paymentId: id,
+      data: {
+        approverName: approver.name,
+        comment: comment?.trim() || null,
+        approvals: countApprovals(payment),
+        requiredApprovals: payment.tier.requiredApprovals,
+        status: payment.status,
+      },
+    });
+    console.log(
+      `🖊️ ${approver.name} ${decision === 'approve' ? 'approved' : 'rejected'} payment ${id} ` +
+      `(${countApprovals(payment)}/${payment.tier.requiredApprovals}, ${payment.status})`
+    );
+  }
+  return result;
+}
+
+/**
+ * Move an approved (or previously failed) payment to executing so it cannot run twice at once.
+ * An execution that went stale (no heartbeat, e.g. the server restarted mid-run) can be claimed again to resume it.
+ */
+export async function claimPaymentForExecution(id: string): Promise<{ payment: PendingPayment | null; error: string | null }> {
+  return updatePayment(id, payment => {
+    if (payment.status === 'pending') {
+      return `Payment needs ${payment.tier.requiredApprovals} approval(s); ${countApprovals(payment)} so far`;
+    }
+    const stale = payment.status === 'executing' && Date.now() - new Date(payment.updatedAt).getTime() > STALE_EXECUTION_MS;
+    if (payment.status !== 'approved' && payment.status !== 'failed' && !stale) {
+      return `Payment is ${payment.status}`;
+    }
+    return { ...payment, status: 'executing', executionError: null };
+  });
+}
+
+/**
+ * Refresh an executing payment's updatedAt; called on every step update and by the execution heartbeat
+ */
+export async function touchPaymentExecution(id: string): Promise<void> {
+  await updatePayment(id, payment => (payment.status === 'executing' ? payment : `Payment is ${payment.status}`));
+}
+
+/**
+ * Record the execution outcome; failed payments can be retried, resuming after `completedSteps`
+ */
+export async function completePaymentExecution(
+  id: string,
+  error: string | null,
+  completedSteps: string[] = []
+): Promise<void> {
+  await updatePayment(id, payment => ({
+    ...payment,
+    status: error ? 'failed' : 'executed',
+    executedAt: error ? null : new Date().toISOString(),
+    executionError: error,
+    completedSteps,
+  }));
+}
+
+/**
+ * Send a payment back for sign-off on a new plan (its approved quote no longer holds).
+ * Earlier decisions are cleared; without an executable plan the payment is marked failed instead.
+ * Either way the old plan is superseded, so retrying the payment cannot execute it again.
+ */
+export async function requestReapproval(
+  id: string,
+  treasuryPlan: TreasuryPlan | null,
+  reason: string
+): Promise<PendingPayment | null> {
+  const previous = await getPendingPayment(id);
+  const { payment } = await updatePayment(id, existing => (
+    treasuryPlan?.planId
+      ? {
+          ...existing,
+          status: 'pending',
+          planId: treasuryPlan.planId,
+          decisions: [],
+          executionError: reason,
+          completedSteps: [],
+        }
+      : {
+          ...existing,
+          status: 'failed',
+          executionError: `${reason}; no new plan could be built${treasuryPlan?.reason ? `: ${treasuryPlan.reason}` : ''}`,
+        }
+  ));
+  if (!payment || !previous) {
+    return null;
+  }
+
+  await markPlanSuperseded(previous.planId);
+
+  if (payment.status === 'pending') {
+    await appendAuditEntry({
+      action: 'payment.reapproval_requested',
+      runId: payment.runId,
+      paymentId: id,
+      data: { reason, treasuryPlan },
+    });
+    console.log(`🖊️ Payment ${id} needs re-approval on plan ${payment.planId}: ${reason}`);
+  }
+  return payment;
+}
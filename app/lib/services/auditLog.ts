@@ -0,0 +1,222 @@
+// lib/services/auditLog.ts
+// Append-only, hash-chained audit log of treasury actions (JSON Lines), with chain verification
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+
+import { DATA_DIR, readStore, writeStore } from './localStore';
+
+export const AUDIT_LOG_PATH = process.env.AUDIT_LOG_PATH || path.join(DATA_DIR, 'audit-log.jsonl');
+const AUDIT_HEAD_STORE = 'audit-head';
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type AuditAction =
+  | 'invoice.uploaded'
+  | 'invoice.extracted'
+  | 'invoice.reviewed'
+  | 'wallet.scanned'
+  | 'recommendation.issued'
+  | 'payment.created'
+  | 'payment.approved'
+  | 'payment.rejected'
+  | 'payment.reapproval_requested'
+  | 'execution.started'
+  | 'execution.step_update'
+  | 'execution.completed'
+  | 'execution.failed';
+
+export interface AuditEntry {
+  seq: number;                    // 1-based, no gaps
+  timestamp: string;
+  action: AuditAction;
+  actor: string;                  // 'system', 'reviewer' or an approver ID
+  runId: string | null;
+  paymentId: string | null;
+  data: unknown;
+  prevHash: string;               // Hash of the previous entry (GENESIS_HASH for the first)
+  hash: string;                   // sha256 of the canonical entry without this field
+}
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  actor?: string;
+  runId?: string | null;
+  paymentId?: string | null;
+  data: unknown;
+}
+
+// Last entry written, kept so appends do not re-read the file
+export interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  head: AuditHead;
+  issues: string[];
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same value always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // Undefined properties are dropped, as JSON.stringify does
+    return `{${Object.keys(record).filter(key => record[key] !== undefined).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { seq, timestamp, action, actor, runId, paymentId, data, prevHash } = entry;
+  return createHash('sha256')
+    .update(canonicalJson({ seq, timestamp, action, actor, runId, paymentId, data, prevHash }))
+    .digest('hex');
+}
+
+/**
+ * sha256 of an uploaded file, recorded so the exact PDF can be matched later
+ */
+export function hashFile(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Parse a JSON Lines audit log; blank lines are ignored, unparseable lines are reported
+ */
+export function parseAuditLog(raw: string): { entries: AuditEntry[]; issues: string[] } {
+  const entries: AuditEntry[] = [];
+  const issues: string[] = [];
+  raw.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      issues.push(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+  return { entries, issues };
+}
+
+/**
+ * Check the hash chain. Edited entries fail their own hash, deleted or reordered entries break
+ * the sequence and prevHash links, and `expectedHead` (from an earlier export or the stored head)
+ * catches entries removed from the end.
+ */
+export function verifyAuditEntries(entries: AuditEntry[], expectedHead: AuditHead | null = null): AuditVerification {
+  const issues: string[] = [];
+  let prevHash = GENESIS_HASH;
+
+  entries.forEach((entry, index) => {
+    const expectedSeq = index + 1;
+    if (entry.seq !== expectedSeq) {
+      issues.push(`Entry ${expectedSeq}: sequence is ${entry.seq} (entries missing or reordered)`);
+    }
+    if (entry.prevHash !== prevHash) {
+      issues.push(`Entry ${entry.seq}: prevHash does not match the previous entry (entry deleted or edited before it)`);
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      issues.push(`Entry ${entry.seq}: hash mismatch (entry edited)`);
+    }
+    prevHash = entry.hash;
+  });
+
+  const last = entries[entries.length - 1];
+  const head: AuditHead = { seq: last?.seq ?? 0, hash: last?.hash ?? GENESIS_HASH };
+
+  if (expectedHead) {
+    const anchor = entries[expectedHead.seq - 1];
+    if (!anchor) {
+      issues.push(`Expected at least ${expectedHead.seq} entries but found ${entries.length} (entries deleted from the end)`);
+    } else if (anchor.hash !== expectedHead.hash) {
+      issues.push(`Entry ${expectedHead.seq}: hash does not match the recorded head ${expectedHead.hash}`);
+    }
+  }
+
+  return { valid: issues.length === 0, entries: entries.length, head, issues };
+}
+
+async function readAuditFile(): Promise<string> {
+  try {
+    return await readFile(AUDIT_LOG_PATH, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  }
+}
+
+/**
+ * All audit entries, oldest first
+ */
+export async function readAuditLog(): Promise<AuditEntry[]> {
+  return parseAuditLog(await readAuditFile()).entries;
+}
+
+/**
+ * The last entry written by this app, kept next to the log so truncation is detected
+ */
+export async function readAuditHead(): Promise<AuditHead | null> {
+  return readStore<AuditHead | null>(AUDIT_HEAD_STORE, null);
+}
+
+/**
+ * Verify the log on disk against its chain and the stored head
+ */
+export async function verifyAuditLog(): Promise<AuditVerification> {
+  const { entries, issues } = parseAuditLog(await readAuditFile());
+  const verification = verifyAuditEntries(entries, await readAuditHead());
+  return { ...verification, valid: verification.valid && issues.length === 0, issues: [...issues, ...verification.issues] };
+}
+
+// Appends run one at a time so each entry links to the one before it
+let appendChain: Promise<unknown> = Promise.resolve();
+let cachedHead: AuditHead | null = null;
+
+async function loadHead(): Promise<AuditHead> {
+  if (cachedHead) {
+    return cachedHead;
+  }
+  const entries = await readAuditLog();
+  const last = entries[entries.length - 1];
+  return { seq: last?.seq ?? 0, hash: last?.hash ?? GENESIS_HASH };
+}
+
+/**
+ * Append an entry to the audit log. Entries are written in call order; the returned promise
+ * rejects if the entry could not be written.
+ */
+export function appendAuditEntry(input: AuditEntryInput): Promise<AuditEntry> {
+  const next = appendChain.catch(() => undefined).then(async () => {
+    const head = await loadHead();
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      seq: head.seq + 1,
+      timestamp: new Date().toISOString(),
+      action: input.action,
+      actor: input.actor ?? 'system',
+      runId: input.runId ?? null,
+      paymentId: input.paymentId ?? null,
+      // Round-trip so the hashed data matches what is read back from the file
+      data: JSON.parse(JSON.stringify(input.data ?? null)),
+      prevHash: head.hash,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+
+    await mkdir(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+    await appendFile(AUDIT_LOG_PATH, `${JSON.stringify(entry)}\n`, 'utf8');
+    cachedHead = { seq: entry.seq, hash: entry.hash };
+    await writeStore(AUDIT_HEAD_STORE, cachedHead);
+    return entry;
+  });
+
+  appendChain = next;
+  return next;
+}
@@ -0,0 +1,276 @@
+// lib/services/budgets.ts
+// Monthly budgets per vendor, purpose category and overall, checked against recorded spend and open payments
+
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { Budget, BudgetCheck, BudgetInput, BudgetStatus, InvoiceData, PendingPaymentStatus, SpendRecord } from '@/app/types';
+import { listPendingPayments } from './approvals';
+import { parseAmountValue } from './invoiceValidation';
+import { readStore, updateStore } from './localStore';
+import { normalizeVendorName } from './vendorRegistry';
+
+const BUDGETS_STORE = 'budgets';
+const SPEND_STORE = 'spend-ledger';
+const CATEGORIES_PATH = process.env.BUDGET_CATEGORIES_PATH || path.join(process.cwd(), 'config', 'budget-categories.json');
+
+const BUDGET_SCOPES: Budget['scope'][] = ['overall', 'vendor', 'category'];
+// Payments awaiting sign-off or execution; they are not in the spend ledger yet but will be paid this month
+const COMMITTED_PAYMENT_STATUSES: PendingPaymentStatus[] = ['pending', 'approved', 'executing'];
+export const UNCATEGORIZED = 'other';
+
+export interface BudgetCategory {
+  id: string;
+  label: string;
+  keywords: string[];
+}
+
+let categoriesPromise: Promise<BudgetCategory[]> | null = null;
+
+/**
+ * Purpose categories from config/budget-categories.json (loaded once)
+ */
+export function loadBudgetCategories(): Promise<BudgetCategory[]> {
+  categoriesPromise ??= readFile(CATEGORIES_PATH, 'utf8')
+    .then(raw => (JSON.parse(raw) as { categories?: BudgetCategory[] }).categories ?? [])
+    .catch(error => {
+      console.warn('⚠️ Budget categories unavailable:', error);
+      return [];
+    });
+  return categoriesPromise;
+}
+
+/**
+ * Derive the spend category from the invoice purpose; the first category with a matching keyword wins
+ */
+export async function categorizePurpose(purpose: string): Promise<string> {
+  const text = purpose === 'NOT_FOUND' ? '' : purpose.toLowerCase();
+  const categories = await loadBudgetCategories();
+  return categories.find(category => category.keywords.some(keyword => text.includes(keyword.toLowerCase())))?.id
+    ?? UNCATEGORIZED;
+}
+
+function toMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function currencyOf(amount: string): string {
+  return amount.replace(/[^A-Za-z]/g, '').toUpperCase();
+}
+
+/**
+ * Validate budget input from the API; returns an error message or null
+ */
+export function validateBudgetInput(input: Partial<BudgetInput>): string | null {
+  if (!input.scope || !BUDGET_SCOPES.includes(input.scope)) {
+    return `Scope must be one of ${BUDGET_SCOPES.join(', ')}`;
+  }
+  if (input.scope !== 'overall' && !input.key?.trim()) {
+    return input.scope === 'vendor' ? 'Vendor name is required' : 'Category is required';
+  }
+  if (!input.currency?.trim()) {
+    return 'Currency is required';
+  }
+  if (typeof input.monthlyLimit !== 'number' || !Number.isFinite(input.monthlyLimit) || input.monthlyLimit <= 0) {
+    return 'Monthly limit must be a positive number';
+  }
+  return null;
+}
+
+function toBudgetFields(input: BudgetInput): BudgetInput {
+  return {
+    scope: input.scope,
+    key: input.scope === 'overall' ? '' : input.key.trim(),
+    currency: input.currency.trim().toUpperCase(),
+    monthlyLimit: input.monthlyLimit,
+  };
+}
+
+export async function listBudgets(): Promise<Budget[]> {
+  return readStore<Budget[]>(BUDGETS_STORE, []);
+}
+
+export async function createBudget(input: BudgetInput): Promise<Budget> {
+  const now = new Date().toISOString();
+  const budget: Budget = { id: randomUUID(), ...toBudgetFields(input), createdAt: now, updatedAt: now };
+
+  await updateStore<Budget[], void>(BUDGETS_STORE, [], budgets => ({
+    data: [...budgets, budget],
+    result: undefined,
+  }));
+
+  console.log(`💰 Budget created: ${budget.scope}${budget.key ? ` ${budget.key}` : ''} ${budget.monthlyLimit} ${budget.currency}/month`);
+  return budget;
+}
+
+/**
+ * Replace a budget's fields; returns null if the budget does not exist
+ */
+export async function updateBudget(id: string, input: BudgetInput): Promise<Budget | null> {
+  return updateStore<Budget[], Budget | null>(BUDGETS_STORE, [], budgets => {
+    const existing = budgets.find(budget => budget.id === id);
+    if (!existing) {
+      return { data: budgets, result: null };
+    }
+    const updated: Budget = { ...existing, ...toBudgetFields(input), updatedAt: new Date().toISOString() };
+    return { data: budgets.map(budget => (budget.id === id ? updated : budget)), result: updated };
+  });
+}
+
+/**
+ * Remove a budget; returns false if it did not exist
+ */
+export async function deleteBudget(id: string): Promise<boolean> {
+  return updateStore<Budget[], boolean>(BUDGETS_STORE, [], budgets => ({
+    data: budgets.filter(budget => budget.id !== id),
+    result: budgets.some(budget => budget.id === id),
+  }));
+}
+
+function budgetApplies(budget: Budget, vendor: string, category: string, currency: string): boolean {
+  if (budget.currency !== currency) return false;
+  switch (budget.scope) {
+    case 'overall':
+      return true;
+    case 'vendor':
+      return Boolean(vendor) && normalizeVendorName(budget.key) === vendor;
+    case 'category':
+      return budget.key.toLowerCase() === category;
+  }
+}
+
+function describeBudget(budget: Budget): string {
+  return budget.scope === 'overall'
+    ? `Overall ${budget.currency} budget`
+    : `${budget.scope === 'vendor' ? 'Vendor' : 'Category'} budget "${budget.key}"`;
+}
+
+/**
+ * One-line summary of a budget's position, e.g. for the thinking trace and the CFO prompt
+ */
+export function describeBudgetStatus(status: BudgetStatus): string {
+  const { budget } = status;
+  return `${status.overBudget ? '🚨' : '✓'} ${describeBudget(budget)}: ${status.spent.toFixed(2)} of ${budget.monthlyLimit} ` +
+    `${budget.currency} spent${status.committed > 0 ? `, ${status.committed.toFixed(2)} committed` : ''}, ` +
+    `${status.remaining.toFixed(2)} left, ${status.remainingAfter.toFixed(2)} after this invoice`;
+}
+
+type BudgetCharge = Pick<SpendRecord, 'vendor' | 'category' | 'amount' | 'currency'>;
+
+/**
+ * Amounts of open payments that have not reached the spend ledger yet
+ */
+async function listCommittedCharges(): Promise<BudgetCharge[]> {
+  const payments = (await listPendingPayments())
+    .filter(payment => COMMITTED_PAYMENT_STATUSES.includes(payment.status) && payment.amount !== null);
+
+  return Promise.all(payments.map(async payment => ({
+    vendor: payment.invoiceData.recipient,
+    category: await categorizePurpose(payment.invoiceData.purpose),
+    amount: payment.amount!,
+    currency: currencyOf(payment.invoiceData.amount),
+  })));
+}
+
+function toStatus(
+  budget: Budget,
+  ledger: SpendRecord[],
+  committedCharges: BudgetCharge[],
+  month: string,
+  amount: number
+): BudgetStatus {
+  const sumApplicable = (charges: BudgetCharge[]) => charges
+    .filter(charge => budgetApplies(budget, normalizeVendorName(charge.vendor), charge.category, charge.currency))
+    .reduce((sum, charge) => sum + charge.amount, 0);
+
+  const spent = sumApplicable(ledger.filter(record => record.month === month));
+  const committed = sumApplicable(committedCharges);
+  const remaining = budget.monthlyLimit - spent - committed;
+  return { budget, spent, committed, remaining, remainingAfter: remaining - amount, overBudget: remaining - amount < 0 };
+}
+
+/**
+ * Check an invoice against every budget that covers its vendor, category or currency this month
+ */
+export async function checkInvoiceBudgets(invoiceData: InvoiceData, now: Date = new Date()): Promise<BudgetCheck> {
+  const [budgets, ledger, committedCharges, category] = await Promise.all([
+    listBudgets(),
+    readStore<SpendRecord[]>(SPEND_STORE, []),
+    listCommittedCharges(),
+    categorizePurpose(invoiceData.purpose),
+  ]);
+
+  const month = toMonth(now);
+  const amount = parseAmountValue(invoiceData.amount);
+  const currency = currencyOf(invoiceData.amount);
+  const vendor = normalizeVendorName(invoiceData.recipient);
+
+  const statuses = budgets
+    .filter(budget => budgetApplies(budget, vendor, category, currency))
+    .map(budget => toStatus(budget, ledger, committedCharges, month, amount ?? 0));
+
+  const issues = statuses
+    .filter(status => status.overBudget)
+    .map(status =>
+      `${describeBudget(status.budget)}: ${invoiceData.amount} exceeds the ${status.remaining.toFixed(2)} ${status.budget.currency} ` +
+      `remaining of ${status.budget.monthlyLimit} for ${month}${status.committed > 0 ? ` (${status.committed.toFixed(2)} committed to open payments)` : ''}`
+    );
+  if (amount === null && statuses.length > 0) {
+    issues.push(`Could not read an amount from "${invoiceData.amount}" to check against budgets`);
+  }
+
+  return {
+    month,
+    category,
+    amount,
+    currency,
+    statuses,
+    overBudget: statuses.some(status => status.overBudget) || (amount === null && statuses.length > 0),
+    issues,
+  };
+}
+
+/**
+ * This month's position for every budget (treasury page)
+ */
+export async function getBudgetStatuses(now: Date = new Date()): Promise<{ month: string; statuses: BudgetStatus[] }> {
+  const [budgets, ledger, committedCharges] = await Promise.all([
+    listBudgets(),
+    readStore<SpendRecord[]>(SPEND_STORE, []),
+    listCommittedCharges(),
+  ]);
+  const month = toMonth(now);
+  return { month, statuses: budgets.map(budget => toStatus(budget, ledger, committedCharges, month, 0)) };
+}
+
+/**
+ * Count an executed invoice payment against this month's budgets
+ */
+export async function recordInvoiceSpend(invoiceData: InvoiceData, now: Date = new Date()): Promise<SpendRecord | null> {
+  const amount = parseAmountValue(invoiceData.amount);
+  if (amount === null) {
+    console.warn(`⚠️ Spend not recorded: no amount in "${invoiceData.amount}"`);
+    return null;
+  }
+
+  const record: SpendRecord = {
+    id: randomUUID(),
+    month: toMonth(now),
+    vendor: invoiceData.recipient,
+    category: await categorizePurpose(invoiceData.purpose),
+    amount,
+    currency: currencyOf(invoiceData.amount),
+    invoiceNumber: invoiceData.invoiceNumber,
+    recipientAddress: invoiceData.walletAddress,
+    recordedAt: now.toISOString(),
+  };
+
+  await updateStore<SpendRecord[], void>(SPEND_STORE, [], ledger => ({
+    data: [...ledger, record],
+    result: undefined,
+  }));
+
+  console.log(`💸 Spend recorded: ${record.amount} ${record.currency} to ${record.vendor} (${record.category}, ${record.month})`);
+  return record;
+}
@@ -64,16 +64,19 @@ export async function getTransactions(
 }
 
 /**
- * Execute a token transfer from a Circle wallet
+ * Execute a token transfer from a Circle wallet. Circle returns the original transaction
+ * for a repeated idempotencyKey instead of sending a second transfer.
  */
 export async function executeTransfer(params: {
   walletId: string;
   tokenId: string;
   amount: string;
   destinationAddress: string;
+  idempotencyKey?: string;
 }) {
   const client = getClient();
   const response = await client.createTransaction({
+    ...(params.idempotencyKey && { idempotencyKey: params.idempotencyKey }),
     walletId: params.walletId,
     amount: [params.amount],
     destinationAddress: params.destinationAddress,
@@ -94,11 +97,13 @@ export async function executeContractCall(params: {
   contractAddress: string;
   callData: `0x${string}`;
   amount?: string;
+  idempotencyKey?: string;
 }) {
   const client = getClient();
   // Convert hex wei (e.g., "0x2386f26fc10000") to decimal ETH (e.g., "0.01")
   const decimalAmount = hexWeiToDecimalEth(params.amount);
   const response = await client.createContractExecutionTransaction({
+    ...(params.idempotencyKey && { idempotencyKey: params.idempotencyKey }),
     walletId: params.walletId,
     contractAddress: params.contractAddress,
     callData: params.callData,
@@ -0,0 +1,184 @@
+// lib/services/contractInspection.ts
+// On-chain inspection of contract recipients: proxies, ownership, ERC-20 tokens and Safe multisigs
+
+import { getAddress, keccak256, parseAbi, type Address, type Hex } from 'viem';
+
+import { ContractInspection } from '@/app/types';
+import { ScanChainConfig, getChainClient } from './explorerClient';
+
+// EIP-1967 storage slots (keccak256('eip1967.proxy.*') - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+// SafeProxy keeps the singleton (master copy) it delegates to in slot 0
+const SAFE_SINGLETON_SLOT = '0x0';
+
+// Canonical Safe singleton deployments (safe-global/safe-deployments), same address on every chain
+const SAFE_SINGLETONS: Record<string, string> = {
+  '0xb6029ea3b2c51d09a50b53ca8012feeb05bda35a': '1.0.0',
+  '0x34cfac646f301356faa8b21e94227e3583fe3f5f': '1.1.1',
+  '0x6851d6fdfafd08c0295c392436245e5bc78b0185': '1.2.0',
+  '0xd9db270c1b5e3bd161e8c8503c55ceabee709552': '1.3.0',
+  '0x3e5c63644e683549055b9be8653de26e0b4cd36e': '1.3.0+L2',
+  '0x69f4d1788e39c87893c980c06edf4b7f686e2938': '1.3.0',
+  '0xfb1bffc9d739b8d520daf37df666da4c687191ea': '1.3.0+L2',
+  '0x41675c099f32341bf84bfc5382af534df5c7461a': '1.4.1',
+  '0x29fcb43b46531bca003ddc8fcb67ffe91900c762': '1.4.1+L2',
+};
+
+// Extra singletons, e.g. a Safe deployed at non-canonical addresses on a testnet
+const EXTRA_SAFE_SINGLETONS = (process.env.SAFE_SINGLETON_ADDRESSES || '')
+  .split(',')
+  .map(address => address.trim().toLowerCase())
+  .filter(Boolean);
+
+// keccak256 of the SafeProxy runtime code each Safe release deploys (safe-contracts build artifacts).
+// That code only ever delegates to the address in slot 0, so for these contracts the slot cannot be spoofed.
+const SAFE_PROXY_CODEHASHES: Record<string, string> = {
+  '0x9999daa94896b1dc51734d94c68aec28587d45e0584a50b319cb99b1f335d99b': '1.0.0',
+  '0xaea7d4252f6245f301e540cfbee27d3a88de543af8e49c5c62405d5499fab7e5': '1.1.1',
+  '0x958a485acd4eff0908ba6c67238d33eedec70bc99115074ad38ae14d1017f9db': '1.2.0',
+  '0xb89c1b3bdf2cf8827818646bce9a8f6e372885f8c55e5c07acbd307cb133b000': '1.3.0',
+  '0xd7d408ebcd99b2b70be43e20253d6d92a8ea8fab29bd3be7f55b10032331fb4c': '1.4.1',
+};
+
+// Extra proxy code hashes, e.g. a proxy factory compiled outside the Safe releases
+const EXTRA_SAFE_PROXY_CODEHASHES = (process.env.SAFE_PROXY_CODEHASHES || '')
+  .split(',')
+  .map(hash => hash.trim().toLowerCase())
+  .filter(Boolean);
+
+function isKnownSafeProxy(codeHash: string | null): boolean {
+  return codeHash !== null && (codeHash in SAFE_PROXY_CODEHASHES || EXTRA_SAFE_PROXY_CODEHASHES.includes(codeHash));
+}
+
+/**
+ * Version of a known Safe singleton ('' for an extra one without a recorded version), or null
+ */
+function knownSafeSingletonVersion(singleton: string | null): string | null {
+  if (!singleton) return null;
+  const key = singleton.toLowerCase();
+  return SAFE_SINGLETONS[key] ?? (EXTRA_SAFE_SINGLETONS.includes(key) ? '' : null);
+}
+
+const INSPECTION_ABI = parseAbi([
+  'function owner() view returns (address)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function getThreshold() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+  'function VERSION() view returns (string)',
+]);
+
+// Storage slots hold a left-padded address; all zeros means unset
+function addressFromSlot(value: Hex | undefined): string | null {
+  if (!value || /^0x0*$/.test(value)) {
+    return null;
+  }
+  return getAddress(`0x${value.slice(-40)}`);
+}
+
+/**
+ * Inspect a contract recipient on one chain. Each probe fails independently,
+ * so a contract without e.g. `owner()` just reports null for that field.
+ */
+export async function inspectContract(address: Address, config: ScanChainConfig): Promise<ContractInspection> {
+  const client = getChainClient(config);
+
+  const readSlot = (slot: Hex) => client.getStorageAt({ address, slot }).catch(() => undefined);
+  const read = <T>(functionName: (typeof INSPECTION_ABI)[number]['name']) =>
+    client
+      .readContract({ address, abi: INSPECTION_ABI, functionName } as Parameters<typeof client.readContract>[0])
+      .then(result => result as T)
+      .catch(() => null);
+
+  const [code, implementation, proxyAdmin, beacon, singletonSlot, owner, symbol, decimals, totalSupply, threshold, safeOwners, version] =
+    await Promise.all([
+      client.getCode({ address }).catch(() => undefined),
+      readSlot(EIP1967_IMPLEMENTATION_SLOT),
+      readSlot(EIP1967_ADMIN_SLOT),
+      readSlot(EIP1967_BEACON_SLOT),
+      readSlot(SAFE_SINGLETON_SLOT),
+      read<string>('owner'),
+      read<string>('symbol'),
+      read<number>('decimals'),
+      read<bigint>('totalSupply'),
+      read<bigint>('getThreshold'),
+      read<readonly string[]>('getOwners'),
+      read<string>('VERSION'),
+    ]);
+
+  // Any contract can answer getThreshold()/getOwners() or put a singleton address in slot 0;
+  // only SafeProxy code delegating to a known singleton is trusted as a Safe
+  const respondsLikeSafe = threshold !== null && Array.isArray(safeOwners) && safeOwners.length > 0;
+  const codeHash = code && code !== '0x' ? keccak256(code) : null;
+  const singleton = addressFromSlot(singletonSlot);
+  const singletonVersion = respondsLikeSafe && isKnownSafeProxy(codeHash) ? knownSafeSingletonVersion(singleton) : null;
+
+  const inspection: ContractInspection = {
+    chain: config.id,
+    codeHash,
+    isProxy: Boolean(addressFromSlot(implementation) || addressFromSlot(beacon)),
+    implementation: addressFromSlot(implementation),
+    proxyAdmin: addressFromSlot(proxyAdmin),
+    beacon: addressFromSlot(beacon),
+    owner,
+    isErc20: decimals !== null && totalSupply !== null,
+    tokenSymbol: symbol,
+    isSafe: singletonVersion !== null,
+    safeSingleton: singletonVersion !== null ? singleton : null,
+    respondsLikeSafe,
+    safeThreshold: threshold !== null ? Number(threshold) : null,
+    safeOwners: safeOwners ? [...safeOwners] : [],
+    safeVersion: singletonVersion || version,
+  };
+
+  console.log(
+    `🔎 ${config.name} contract: ${[
+      inspection.isSafe && `Safe ${inspection.safeThreshold}/${inspection.safeOwners.length}`,
+      !inspection.isSafe && inspection.respondsLikeSafe && 'Safe-like (unknown proxy code or singleton)',
+      inspection.isProxy && 'EIP-1967 proxy',
+      inspection.isErc20 && `ERC-20 ${inspection.tokenSymbol ?? ''}`.trim(),
+    ].filter(Boolean).join(', ') || 'no known pattern'}`
+  );
+
+  return inspection;
+}
+
+/**
+ * Warning lines for a contract recipient
+ */
+export function describeContractInspection(inspection: ContractInspection): string[] {
+  const warnings: string[] = [];
+
+  if (inspection.isSafe) {
+    warnings.push(
+      `ℹ️ Recipient is a Safe multisig${inspection.safeVersion ? ` v${inspection.safeVersion}` : ''} ` +
+      `(${inspection.safeThreshold} of ${inspection.safeOwners.length} owners)`
+    );
+  }
+  if (inspection.respondsLikeSafe && !inspection.isSafe) {
+    warnings.push(
+      '⚠️ Contract answers like a Safe multisig but is not a known SafeProxy delegating to a known Safe singleton - ' +
+      'treated as an ordinary contract'
+    );
+  }
+  if (inspection.isErc20) {
+    warnings.push(
+      `🚨 Recipient is an ERC-20 token contract${inspection.tokenSymbol ? ` (${inspection.tokenSymbol})` : ''} - ` +
+      'funds sent to it are usually unrecoverable'
+    );
+  }
+  if (inspection.isProxy && !inspection.isSafe) {
+    warnings.push(
+      `⚠️ Upgradeable proxy (EIP-1967): implementation ${inspection.implementation ?? `via beacon ${inspection.beacon}`}` +
+      `${inspection.proxyAdmin ? `, admin ${inspection.proxyAdmin}` : ''} - code can change after review`
+    );
+  }
+  if (inspection.owner && !inspection.isSafe) {
+    warnings.push(`ℹ️ Contract owner: ${inspection.owner}`);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,226 @@
+// lib/services/counterpartyGraph.ts
+// One/two-hop counterparty graph of who funds and drains a recipient wallet
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { CounterpartyAnalysis, CounterpartyFinding } from '@/app/types';
+import { ExplorerTransaction, ScanChainConfig, fetchTransactionHistory } from './explorerClient';
+import { screenAddress } from './sanctionsScreening';
+
+const WATCHLIST_PATH = process.env.COUNTERPARTY_WATCHLIST_PATH || path.join(process.cwd(), 'config', 'counterparty-watchlist.json');
+
+export const HISTORY_PAGE_SIZE = 100;
+export const MAX_HISTORY_PAGES = 5;  // Up to 500 recipient transactions
+const SECOND_HOP_FANOUT = 5;       // Largest hop-1 counterparties expanded to hop 2
+const FRESH_WALLET_DAYS = 7;
+const DRAIN_RATIO = 0.9;           // Share of inflow forwarded on that marks a pass-through wallet
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+interface WatchlistEntry {
+  address: string;
+  category: 'mixer' | 'drainer' | 'scam';
+  label: string;
+}
+
+// Native value moved between the wallet and one counterparty
+interface Flow {
+  inflowWei: bigint;
+  outflowWei: bigint;
+  txCount: number;
+}
+
+let watchlistIndex: Promise<Map<string, WatchlistEntry>> | null = null;
+
+/**
+ * Known mixers, drainers and scam addresses, read once from the watchlist file.
+ * A missing file leaves the watchlist empty rather than failing the scan.
+ */
+function loadWatchlist(): Promise<Map<string, WatchlistEntry>> {
+  watchlistIndex ??= readFile(WATCHLIST_PATH, 'utf8')
+    .then(raw => {
+      const entries = (JSON.parse(raw) as { entries?: WatchlistEntry[] }).entries ?? [];
+      console.log(`🕸️ Loaded counterparty watchlist: ${entries.length} addresses`);
+      return new Map(entries.map(entry => [entry.address.toLowerCase(), entry]));
+    })
+    .catch(error => {
+      console.warn('⚠️ Counterparty watchlist unavailable:', error);
+      return new Map();
+    });
+  return watchlistIndex;
+}
+
+function summarizeFlows(address: string, transactions: ExplorerTransaction[]): Map<string, Flow> {
+  const self = address.toLowerCase();
+  const flows = new Map<string, Flow>();
+
+  for (const tx of transactions) {
+    if (tx.isError === '1' || !tx.from || !tx.to) continue;
+
+    const from = tx.from.toLowerCase();
+    const to = tx.to.toLowerCase();
+    const counterparty = from === self ? to : to === self ? from : null;
+    if (!counterparty || counterparty === self) continue;
+
+    const flow = flows.get(counterparty) ?? { inflowWei: BigInt(0), outflowWei: BigInt(0), txCount: 0 };
+    const value = BigInt(tx.value || '0');
+    if (from === self) {
+      flow.outflowWei += value;
+    } else {
+      flow.inflowWei += value;
+    }
+    flow.txCount++;
+    flows.set(counterparty, flow);
+  }
+
+  return flows;
+}
+
+// Freshly funded wallet that forwards almost everything it receives
+function isFreshPassThrough(transactions: ExplorerTransaction[], flows: Map<string, Flow>): boolean {
+  const firstSeen = Number.parseInt(transactions[0]?.timeStamp ?? '0', 10);
+  if (!firstSeen || Date.now() / 1000 - firstSeen > FRESH_WALLET_DAYS * SECONDS_PER_DAY) {
+    return false;
+  }
+
+  let inflow = BigInt(0);
+  let outflow = BigInt(0);
+  flows.forEach(flow => {
+    inflow += flow.inflowWei;
+    outflow += flow.outflowWei;
+  });
+
+  return inflow > BigInt(0) && outflow * BigInt(100) >= inflow * BigInt(DRAIN_RATIO * 100);
+}
+
+/**
+ * Build the recipient's funding/drain graph on one chain from its paged history
+ * and flag exposure to mixers, known-bad addresses and freshly funded
+ * pass-through (drainer) wallets.
+ */
+export async function analyzeCounterpartyGraph(
+  address: string,
+  config: ScanChainConfig,
+  history: { transactions: ExplorerTransaction[]; complete: boolean }
+): Promise<CounterpartyAnalysis> {
+  const firstHop = summarizeFlows(address, history.transactions);
+  const findings: CounterpartyFinding[] = [];
+
+  if (isFreshPassThrough(history.transactions, firstHop)) {
+    findings.push({
+      type: 'fresh-drainer',
+      hop: 0,
+      address,
+      via: null,
+      label: `was first funded less than ${FRESH_WALLET_DAYS} days ago and forwards out most of what it receives`,
+      chain: config.id,
+    });
+  }
+
+  // Expand the largest counterparties by volume to a second hop
+  const expanded = Array.from(firstHop.entries())
+    .sort(([, a], [, b]) => {
+      const diff = (b.inflowWei + b.outflowWei) - (a.inflowWei + a.outflowWei);
+      return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    })
+    .slice(0, SECOND_HOP_FANOUT);
+
+  const secondHopHistories = await Promise.all(
+    expanded.map(([counterparty]) => fetchTransactionHistory(config, counterparty, { pageSize: HISTORY_PAGE_SIZE }))
+  );
+
+  const secondHop = new Map<string, string>();   // hop-2 address -> hop-1 address linking it
+  expanded.forEach(([counterparty, flow], idx) => {
+    const counterpartyHistory = secondHopHistories[idx];
+    if (!counterpartyHistory) return;
+
+    const counterpartyFlows = summarizeFlows(counterparty, counterpartyHistory.transactions);
+    counterpartyFlows.forEach((_, next) => {
+      if (next !== address.toLowerCase() && !firstHop.has(next) && !secondHop.has(next)) {
+        secondHop.set(next, counterparty);
+      }
+    });
+
+    // Funds we'd be sending on to a freshly funded sweeper
+    if (flow.outflowWei > BigInt(0) && isFreshPassThrough(counterpartyHistory.transactions, counterpartyFlows)) {
+      findings.push({
+        type: 'fresh-drainer',
+        hop: 1,
+        address: counterparty,
+        via: null,
+        label: `receives funds from the recipient, was first funded less than ${FRESH_WALLET_DAYS} days ago and forwards them on`,
+        chain: config.id,
+      });
+    }
+  });
+
+  // Watchlist and sanctions exposure anywhere in the graph
+  const watchlist = await loadWatchlist();
+  const graphAddresses: [string, 1 | 2, string | null][] = [
+    ...Array.from(firstHop.keys()).map((counterparty): [string, 1, null] => [counterparty, 1, null]),
+    ...Array.from(secondHop.entries()).map(([counterparty, via]): [string, 2, string] => [counterparty, 2, via]),
+  ];
+
+  const screenings = await Promise.all(graphAddresses.map(([counterparty]) => screenAddress(counterparty)));
+
+  graphAddresses.forEach(([counterparty, hop, via], idx) => {
+    const entry = watchlist.get(counterparty);
+    if (entry) {
+      findings.push({
+        type: entry.category === 'mixer' ? 'mixer' : 'known-bad',
+        hop,
+        address: counterparty,
+        via,
+        label: entry.label,
+        chain: config.id,
+      });
+    }
+    for (const match of screenings[idx].matches) {
+      findings.push({
+        type: 'known-bad',
+        hop,
+        address: counterparty,
+        via,
+        label: `${match.list}: ${match.label}`,
+        chain: config.id,
+      });
+    }
+  });
+
+  let funders = 0;
+  let recipients = 0;
+  firstHop.forEach(flow => {
+    if (flow.inflowWei > BigInt(0)) funders++;
+    if (flow.outflowWei > BigInt(0)) recipients++;
+  });
+
+  if (findings.length > 0) {
+    console.log(`🕸️ ${config.name}: ${findings.length} counterparty finding(s) for ${address}`);
+  }
+
+  return {
+    transactionsAnalyzed: history.transactions.length,
+    historyComplete: history.complete,
+    funders,
+    recipients,
+    secondHopAddresses: secondHop.size,
+    findings,
+  };
+}
+
+/**
+ * Human-readable line for warnings and prompts
+ */
+export function describeCounterpartyFinding(finding: CounterpartyFinding): string {
+  const where = finding.hop === 0
+    ? 'Recipient'
+    : finding.hop === 1
+    ? `Direct counterparty ${finding.address}`
+    : `Second-hop counterparty ${finding.address} (via ${finding.via})`;
+  const what = {
+    'mixer': `is a mixer (${finding.label})`,
+    'known-bad': `is a known-bad address (${finding.label})`,
+    'fresh-drainer': finding.label,
+  }[finding.type];
+  return `${where} ${what}`;
+}
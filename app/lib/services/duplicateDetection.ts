@@ -0,0 +1,205 @@
+// lib/services/duplicateDetection.ts
+// Invoice fingerprinting and duplicate detection against previously approved invoices
+
+import { createHash, randomUUID } from 'crypto';
+
+import {
+  CFORecommendation,
+  DuplicateInvoiceCheck,
+  InvoiceData,
+  InvoiceFingerprint,
+  ProcessedInvoiceRecord,
+} from '@/app/types';
+import { parseAmountValue } from './invoiceValidation';
+import { readStore, updateStore } from './localStore';
+import { normalizeVendorName } from './vendorRegistry';
+
+const PROCESSED_INVOICES_STORE = 'processed-invoices';
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function normalizeInvoiceNumber(value: string): string {
+  return value === 'NOT_FOUND' ? '' : value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function normalizeAmount(value: string): string {
+  const numeric = parseAmountValue(value);
+  if (numeric === null) return '';
+  const currency = value.replace(/[^A-Za-z]/g, '').toUpperCase();
+  return `${numeric.toFixed(2)} ${currency}`.trim();
+}
+
+/**
+ * Fingerprint an invoice from its file bytes and normalized key fields
+ */
+export function fingerprintInvoice(pdfBuffer: Buffer, invoiceData: InvoiceData): InvoiceFingerprint {
+  const invoiceNumber = normalizeInvoiceNumber(invoiceData.invoiceNumber);
+  const vendor = normalizeVendorName(invoiceData.recipient);
+  const amount = normalizeAmount(invoiceData.amount);
+  const walletAddress = invoiceData.walletAddress === 'NOT_FOUND' ? '' : invoiceData.walletAddress.toLowerCase();
+
+  return {
+    contentHash: sha256(pdfBuffer),
+    invoiceKey: sha256([invoiceNumber, vendor, amount, walletAddress].join('|')),
+    invoiceNumber,
+    vendor,
+    amount,
+    walletAddress,
+  };
+}
+
+/**
+ * Compare a fingerprint with one processed invoice.
+ * Returns the match type and reasons, or null when unrelated.
+ */
+function compareFingerprints(
+  fingerprint: InvoiceFingerprint,
+  record: ProcessedInvoiceRecord
+): Pick<DuplicateInvoiceCheck, 'matchType' | 'reasons'> | null {
+  const other = record.fingerprint;
+
+  if (fingerprint.contentHash === other.contentHash) {
+    return { matchType: 'exact-file', reasons: [`Identical file already processed as ${record.fileName}`] };
+  }
+
+  if (fingerprint.invoiceKey === other.invoiceKey && fingerprint.invoiceNumber && fingerprint.vendor) {
+    return {
+      matchType: 'same-invoice',
+      reasons: [`Invoice ${fingerprint.invoiceNumber} from ${fingerprint.vendor} for ${fingerprint.amount} was already processed (${record.fileName})`],
+    };
+  }
+
+  const reasons: string[] = [];
+  if (fingerprint.invoiceNumber && fingerprint.invoiceNumber === other.invoiceNumber && fingerprint.vendor === other.vendor) {
+    reasons.push(`Invoice number ${fingerprint.invoiceNumber} from the same vendor was already processed with different details (${record.fileName})`);
+  }
+  if (
+    fingerprint.vendor && fingerprint.amount && fingerprint.walletAddress &&
+    fingerprint.vendor === other.vendor &&
+    fingerprint.amount === other.amount &&
+    fingerprint.walletAddress === other.walletAddress &&
+    fingerprint.invoiceNumber !== other.invoiceNumber
+  ) {
+    reasons.push(`Same vendor, amount (${fingerprint.amount}) and payout address as ${record.fileName}`);
+  }
+
+  return reasons.length > 0 ? { matchType: 'near-duplicate', reasons } : null;
+}
+
+const MATCH_PRIORITY: Record<NonNullable<DuplicateInvoiceCheck['matchType']>, number> = {
+  'exact-file': 3,
+  'same-invoice': 2,
+  'near-duplicate': 1,
+};
+
+type FingerprintMatch = { record: ProcessedInvoiceRecord; match: Pick<DuplicateInvoiceCheck, 'matchType' | 'reasons'> };
+
+// Strongest match among the processed invoices; oldest first, so the earliest submission is reported as the original
+function findBestMatch(fingerprint: InvoiceFingerprint, records: ProcessedInvoiceRecord[]): FingerprintMatch | null {
+  let best: FingerprintMatch | null = null;
+
+  for (const record of records) {
+    const match = compareFingerprints(fingerprint, record);
+    if (match && (!best || MATCH_PRIORITY[match.matchType!] > MATCH_PRIORITY[best.match.matchType!])) {
+      best = { record, match };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check an invoice against the processed-invoice store. Nothing is recorded here: rejected,
+ * failed or re-run analyses must not turn a later upload of the same file into a duplicate.
+ */
+export async function checkInvoiceDuplicate(
+  pdfBuffer: Buffer,
+  invoiceData: InvoiceData
+): Promise<DuplicateInvoiceCheck> {
+  const fingerprint = fingerprintInvoice(pdfBuffer, invoiceData);
+  const records = await readStore<ProcessedInvoiceRecord[]>(PROCESSED_INVOICES_STORE, []);
+  const best = findBestMatch(fingerprint, records);
+
+  return {
+    fingerprint,
+    isDuplicate: Boolean(best),
+    matchType: best?.match.matchType ?? null,
+    reasons: best?.match.reasons ?? [],
+    original: best?.record ?? null,
+    originalUrl: best ? `/api/invoices/${best.record.id}` : null,
+  };
+}
+
+/**
+ * Find an invoice approved for another payment since this one was analyzed: the same file or
+ * the same invoice number, vendor, amount and address. Near-duplicates were already held at analysis.
+ */
+export async function findApprovedDuplicate(
+  fingerprint: InvoiceFingerprint,
+  paymentId: string
+): Promise<ProcessedInvoiceRecord | null> {
+  const records = await readStore<ProcessedInvoiceRecord[]>(PROCESSED_INVOICES_STORE, []);
+  const best = findBestMatch(fingerprint, records.filter(record => record.paymentId !== paymentId));
+  return best && best.match.matchType !== 'near-duplicate' ? best.record : null;
+}
+
+/**
+ * Record an invoice whose payment was approved, so later submissions are compared with it.
+ * Exact re-uploads are not recorded again so the original stays the reference.
+ */
+export async function recordProcessedInvoice(
+  fingerprint: InvoiceFingerprint,
+  fileName: string,
+  paymentId: string
+): Promise<void> {
+  await updateStore<ProcessedInvoiceRecord[], void>(PROCESSED_INVOICES_STORE, [], records => {
+    const known = records.some(record => record.paymentId === paymentId || record.fingerprint.contentHash === fingerprint.contentHash);
+    return {
+      data: known
+        ? records
+        : [...records, { id: randomUUID(), fileName, processedAt: new Date().toISOString(), fingerprint, paymentId }],
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Look up a processed invoice by id
+ */
+export async function getProcessedInvoice(id: string): Promise<ProcessedInvoiceRecord | null> {
+  const records = await readStore<ProcessedInvoiceRecord[]>(PROCESSED_INVOICES_STORE, []);
+  return records.find(record => record.id === id) ?? null;
+}
+
+/**
+ * Downgrade APPROVE to REVIEW when the invoice duplicates an earlier one.
+ * Applied after the CFO recommendation so the LLM cannot wave a duplicate through.
+ */
+export function enforceDuplicateReview(
+  recommendation: CFORecommendation,
+  duplicateCheck: DuplicateInvoiceCheck | null
+): CFORecommendation {
+  if (!duplicateCheck?.isDuplicate) {
+    return recommendation;
+  }
+
+  const duplicateDetails = [
+    ...duplicateCheck.reasons.map(reason => `Duplicate: ${reason}`),
+    ...(duplicateCheck.originalUrl ? [`Original invoice: ${duplicateCheck.originalUrl}`] : []),
+  ];
+
+  if (recommendation.recommendation === 'REJECT') {
+    return { ...recommendation, details: [...duplicateDetails, ...recommendation.details] };
+  }
+
+  return {
+    recommendation: 'REVIEW',
+    summary: recommendation.recommendation === 'REVIEW'
+      ? recommendation.summary
+      : `Possible duplicate of ${duplicateCheck.original?.fileName ?? 'an earlier invoice'} - manual review required`,
+    riskLevel: recommendation.riskLevel === 'HIGH' ? 'HIGH' : 'MEDIUM',
+    details: [...duplicateDetails, ...recommendation.details],
+  };
+}
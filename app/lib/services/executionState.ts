@@ -0,0 +1,118 @@
+// lib/services/executionState.ts
+// Persisted per-step state of treasury plan executions, so a retry resumes instead of repeating steps
+
+import { randomUUID } from 'crypto';
+import type { BridgeResult } from '@circle-fin/bridge-kit';
+
+import { readStore, updateStore } from './localStore';
+
+const EXECUTIONS_STORE = 'plan-executions';
+
+export interface StepExecutionState {
+  stepId: string;
+  status: 'pending' | 'submitted' | 'success' | 'failed';
+  idempotencyKey: string;               // Sent to Circle; reused until the transaction is known to have failed
+  circleTransactionId: string | null;   // Submitted Circle transaction, polled instead of resubmitting
+  txHash: string | null;
+  burnTxHash: string | null;            // Bridge only: CCTP burn on the source chain
+  bridgeResult: BridgeResult | null;    // Bridge only: last result from Bridge Kit, used to resume
+  error: string | null;
+  updatedAt: string;
+}
+
+export interface PlanExecutionState {
+  planId: string;
+  attempts: number;
+  steps: StepExecutionState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function newStepState(stepId: string): StepExecutionState {
+  return {
+    stepId,
+    status: 'pending',
+    idempotencyKey: randomUUID(),
+    circleTransactionId: null,
+    txHash: null,
+    burnTxHash: null,
+    bridgeResult: null,
+    error: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Bridge Kit results may carry bigints and raw chain errors, which JSON cannot store
+function toStorable<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (_key, item) =>
+    typeof item === 'bigint' ? item.toString() : item instanceof Error ? item.message : item
+  ));
+}
+
+export async function getPlanExecution(planId: string): Promise<PlanExecutionState | null> {
+  const executions = await readStore<PlanExecutionState[]>(EXECUTIONS_STORE, []);
+  return executions.find(execution => execution.planId === planId) ?? null;
+}
+
+/**
+ * Start (or continue) executing a plan: counts the attempt and adds state for steps not seen before
+ */
+export async function beginPlanExecution(planId: string, stepIds: string[]): Promise<PlanExecutionState> {
+  return updateStore<PlanExecutionState[], PlanExecutionState>(EXECUTIONS_STORE, [], executions => {
+    const now = new Date().toISOString();
+    const existing = executions.find(execution => execution.planId === planId);
+    const known = existing?.steps ?? [];
+    const updated: PlanExecutionState = {
+      planId,
+      attempts: (existing?.attempts ?? 0) + 1,
+      steps: [...known, ...stepIds.filter(id => !known.some(step => step.stepId === id)).map(newStepState)],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    return {
+      data: existing ? executions.map(execution => (execution.planId === planId ? updated : execution)) : [...executions, updated],
+      result: updated,
+    };
+  });
+}
+
+/**
+ * Merge a change into one step's state
+ */
+export async function saveStepState(
+  planId: string,
+  stepId: string,
+  change: Partial<Omit<StepExecutionState, 'stepId' | 'updatedAt'>>
+): Promise<StepExecutionState | null> {
+  return updateStore<PlanExecutionState[], StepExecutionState | null>(EXECUTIONS_STORE, [], executions => {
+    let saved: StepExecutionState | null = null;
+    const now = new Date().toISOString();
+    const data = executions.map(execution => {
+      if (execution.planId !== planId) return execution;
+      return {
+        ...execution,
+        updatedAt: now,
+        steps: execution.steps.map(step => {
+          if (step.stepId !== stepId) return step;
+          saved = { ...step, ...toStorable(change), updatedAt: now };
+          return saved;
+        }),
+      };
+    });
+    return { data, result: saved };
+  });
+}
+
+/**
+ * Whether an earlier attempt may already have moved funds: a step completed, was submitted or burned for a bridge
+ */
+export function hasSubmittedSteps(execution: PlanExecutionState | null): boolean {
+  return execution?.steps.some(step => step.status === 'success' || step.status === 'submitted' || step.burnTxHash !== null) ?? false;
+}
+
+/**
+ * IDs of the steps that completed in an earlier attempt
+ */
+export function completedStepIds(execution: PlanExecutionState | null): string[] {
+  return execution?.steps.filter(step => step.status === 'success').map(step => step.stepId) ?? [];
+}
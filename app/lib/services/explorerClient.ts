@@ -0,0 +1,262 @@
+// lib/services/explorerClient.ts
+// Chain RPC clients and Etherscan-compatible explorer access for the chains we pay on
+
+import { createPublicClient, defineChain, http, type Chain } from 'viem';
+import { baseSepolia, sepolia } from 'viem/chains';
+
+import { PayoutChain } from '@/app/types';
+import { createTtlCache } from './ttlCache';
+
+const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || '';
+const ETHERSCAN_V2_API_URL = 'https://api.etherscan.io/v2/api';
+const ARC_RPC_URL = process.env.ARC_RPC_URL || 'https://rpc.testnet.arc.network';
+const ARC_TESTNET_CHAIN_ID = 5042002;
+
+const EXPLORER_CACHE_TTL_MS = Number(process.env.EXPLORER_CACHE_TTL_MINUTES || 10) * 60 * 1000;
+const EXPLORER_MIN_INTERVAL_MS = 1000 / Number(process.env.EXPLORER_RATE_LIMIT_PER_SEC || 4);
+const EXPLORER_MAX_RETRIES = 3;
+const EXPLORER_RETRY_BASE_MS = 500;
+
+const arcTestnet = defineChain({
+  id: ARC_TESTNET_CHAIN_ID,
+  name: 'Arc Testnet',
+  network: 'arc-testnet',
+  nativeCurrency: {
+    name: 'USDC',
+    symbol: 'USDC',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: [ARC_RPC_URL],
+    },
+    public: {
+      http: [ARC_RPC_URL],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'ArcScan',
+      url: 'https://testnet.arcscan.app',
+    },
+  },
+});
+
+export interface ScanChainConfig {
+  id: PayoutChain;
+  name: string;
+  chain: Chain;
+  rpcUrl: string | undefined;  // Falls back to the chain's public RPC
+  explorerName: string;
+  explorerApiUrl: string;
+  explorerApiKey: string;
+  explorerChainId?: number;    // Etherscan v2 multichain API selects the chain by id
+}
+
+/**
+ * Every chain we might pay a vendor on, keyed by payout chain id
+ */
+export const SCAN_CHAIN_CONFIGS: Record<PayoutChain, ScanChainConfig> = {
+  'ARC-TESTNET': {
+    id: 'ARC-TESTNET',
+    name: 'Arc Testnet',
+    chain: arcTestnet,
+    rpcUrl: ARC_RPC_URL,
+    explorerName: 'ArcScan',
+    explorerApiUrl: process.env.ARCSCAN_API_URL || 'https://testnet.arcscan.app/api',
+    explorerApiKey: process.env.ARCSCAN_API_KEY || ETHERSCAN_API_KEY,
+  },
+  'ETH-SEPOLIA': {
+    id: 'ETH-SEPOLIA',
+    name: 'Ethereum Sepolia',
+    chain: sepolia,
+    rpcUrl: process.env.SEPOLIA_RPC_URL || undefined,
+    explorerName: 'Etherscan',
+    explorerApiUrl: process.env.SEPOLIA_EXPLORER_API_URL || ETHERSCAN_V2_API_URL,
+    explorerApiKey: ETHERSCAN_API_KEY,
+    explorerChainId: process.env.SEPOLIA_EXPLORER_API_URL ? undefined : sepolia.id,
+  },
+  'BASE-SEPOLIA': {
+    id: 'BASE-SEPOLIA',
+    name: 'Base Sepolia',
+    chain: baseSepolia,
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || undefined,
+    explorerName: 'BaseScan',
+    explorerApiUrl: process.env.BASE_SEPOLIA_EXPLORER_API_URL || ETHERSCAN_V2_API_URL,
+    explorerApiKey: process.env.BASESCAN_API_KEY || ETHERSCAN_API_KEY,
+    explorerChainId: process.env.BASE_SEPOLIA_EXPLORER_API_URL ? undefined : baseSepolia.id,
+  },
+};
+
+// SCAN_CHAINS=ARC-TESTNET,ETH-SEPOLIA limits the default scan; all chains otherwise
+const CONFIGURED_SCAN_CHAINS = (process.env.SCAN_CHAINS || '')
+  .split(',')
+  .map(chain => chain.trim())
+  .filter((chain): chain is PayoutChain => chain in SCAN_CHAIN_CONFIGS);
+export const DEFAULT_SCAN_CHAINS: PayoutChain[] = CONFIGURED_SCAN_CHAINS.length > 0
+  ? CONFIGURED_SCAN_CHAINS
+  : (Object.keys(SCAN_CHAIN_CONFIGS) as PayoutChain[]);
+
+const chainClients = new Map<PayoutChain, ReturnType<typeof createChainClient>>();
+
+function createChainClient(config: ScanChainConfig) {
+  return createPublicClient({
+    chain: config.chain,
+    transport: http(config.rpcUrl),
+  });
+}
+
+export function getChainClient(config: ScanChainConfig) {
+  let client = chainClients.get(config.id);
+  if (!client) {
+    client = createChainClient(config);
+    chainClients.set(config.id, client);
+  }
+  return client;
+}
+
+export interface ExplorerResponse<T> {
+  status?: string;
+  message?: string;
+  result?: T;
+}
+
+const explorerCache = createTtlCache<ExplorerResponse<unknown>>('explorer', EXPLORER_CACHE_TTL_MS);
+const explorerNextSlot = new Map<string, number>();
+
+function buildExplorerUrl(config: ScanChainConfig, query: string): string {
+  const searchParams = new URLSearchParams(query);
+  if (config.explorerChainId) {
+    searchParams.set('chainid', String(config.explorerChainId));
+  }
+  if (config.explorerApiKey) {
+    searchParams.set('apikey', config.explorerApiKey);
+  }
+  return `${config.explorerApiUrl}?${searchParams.toString()}`;
+}
+
+function isRateLimited<T>(data: ExplorerResponse<T>): boolean {
+  return data.status === '0' && typeof data.result === 'string' && /rate limit/i.test(data.result);
+}
+
+// status '0' is also how explorers answer "no transactions found" (with an empty list); anything else is an error
+function isExplorerError<T>(data: ExplorerResponse<T>): boolean {
+  return data.status === '0' && !(Array.isArray(data.result) && data.result.length === 0);
+}
+
+// Space requests to the same explorer so we stay under its free-tier rate limit
+async function waitForRateLimit(config: ScanChainConfig): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, explorerNextSlot.get(config.explorerApiUrl) ?? 0);
+  explorerNextSlot.set(config.explorerApiUrl, slot + EXPLORER_MIN_INTERVAL_MS);
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Call the chain's explorer API. Successful responses are cached per chain + query;
+ * rate-limited, 5xx and network failures are retried with exponential backoff.
+ */
+export async function fetchExplorer<T>(config: ScanChainConfig, query: string): Promise<ExplorerResponse<T>> {
+  const cacheKey = `${config.id}:${query.toLowerCase()}`;
+  const cached = await explorerCache.get(cacheKey);
+  if (cached) {
+    return cached.value as ExplorerResponse<T>;
+  }
+
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= EXPLORER_MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      const delay = EXPLORER_RETRY_BASE_MS * 2 ** (attempt - 1) + Math.random() * EXPLORER_RETRY_BASE_MS;
+      console.warn(`⏳ ${config.explorerName} retry ${attempt}/${EXPLORER_MAX_RETRIES} in ${Math.round(delay)}ms: ${lastError?.message}`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    await waitForRateLimit(config);
+
+    let response: Response;
+    try {
+      response = await fetch(buildExplorerUrl(config, query), {
+        cache: 'no-store',
+      });
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      continue;
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      lastError = new Error(`${config.explorerName} request failed (${response.status})`);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`${config.explorerName} request failed (${response.status})`);
+    }
+
+    const data = (await response.json()) as ExplorerResponse<T>;
+    if (isRateLimited(data)) {
+      lastError = new Error(`${config.explorerName} rate limit reached`);
+      continue;
+    }
+
+    // Errors such as an invalid API key are returned but not cached, so the next scan asks again
+    if (!isExplorerError(data)) {
+      await explorerCache.set(cacheKey, data);
+    }
+    return data;
+  }
+
+  throw lastError ?? new Error(`${config.explorerName} request failed`);
+}
+
+export async function fetchExplorerSafe<T>(config: ScanChainConfig, query: string): Promise<ExplorerResponse<T> | null> {
+  try {
+    return await fetchExplorer<T>(config, query);
+  } catch (error) {
+    console.warn(`⚠️ ${config.explorerName} metadata request failed:`, error);
+    return null;
+  }
+}
+
+// Normal transaction as returned by the explorer `txlist` action
+export interface ExplorerTransaction {
+  hash?: string;
+  from?: string;
+  to?: string;
+  value?: string;              // Native value in wei
+  timeStamp?: string;          // Unix seconds
+  isError?: string;
+}
+
+/**
+ * Page through an address's normal transactions, oldest first.
+ * Returns null if the explorer is unreachable; `complete` is false when
+ * the history was cut off by the page limit or a failed page.
+ */
+export async function fetchTransactionHistory(
+  config: ScanChainConfig,
+  address: string,
+  { pageSize = 100, maxPages = 1 }: { pageSize?: number; maxPages?: number } = {}
+): Promise<{ transactions: ExplorerTransaction[]; complete: boolean } | null> {
+  const transactions: ExplorerTransaction[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const data = await fetchExplorerSafe<ExplorerTransaction[] | string>(
+      config,
+      `module=account&action=txlist&address=${address}&startblock=0&endblock=99999999&page=${page}&offset=${pageSize}&sort=asc`
+    );
+    if (!data) {
+      return page === 1 ? null : { transactions, complete: false };
+    }
+
+    // Explorers return a message string instead of an array when there are no (more) results
+    const items = Array.isArray(data.result) ? data.result : [];
+    transactions.push(...items);
+    if (items.length < pageSize) {
+      return { transactions, complete: true };
+    }
+  }
+
+  return { transactions, complete: false };
+}
@@ -1,10 +1,27 @@
 // lib/services/geminiService.ts
-// Google Gemini integration for PDF invoice extraction
-
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-import { InvoiceData, PaymentPlan } from '@/app/types';
+// LLM-backed invoice extraction, CFO recommendations and chat (provider chosen per task)
+
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+
+import {
+  BudgetCheck,
+  CounterpartyAnalysis,
+  DuplicateInvoiceCheck,
+  FieldEvidence,
+  InvoiceData,
+  InvoiceEvidenceField,
+  InvoiceLineItem,
+  PaymentPlan,
+  RiskScoreContribution,
+  VendorCheck,
+} from '@/app/types';
 import type { ChatHistoryMessage } from '@/app/types/chat';
+import { describeBudgetStatus } from './budgets';
+import { describeCounterpartyFinding } from './counterpartyGraph';
+import { LLMMessage, getLLMProvider } from './llmProvider';
+import { reconcileInvoiceTotals } from './invoiceValidation';
+import { formatRiskBreakdown, formatRiskThresholds, getRecommendationFromScore, getRiskPolicy } from './riskPolicy';
+import { StructuredOutputError, generateStructured } from './structuredOutput';
 
 interface ChatContext {
   message: string;
@@ -13,10 +30,298 @@ interface ChatContext {
   history: ChatHistoryMessage[];
 }
 
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || '';
+// JSON shape shared by the extraction prompts
+const INVOICE_JSON_SHAPE = `{
+  "walletAddress": "0x...",
+  "amount": "...",
+  "recipient": "...",
+  "purpose": "...",
+  "invoiceNumber": "...",
+  "issueDate": "YYYY-MM-DD",
+  "dueDate": "YYYY-MM-DD",
+  "lineItems": [
+    { "description": "...", "quantity": 1, "unitPrice": 0, "total": 0 }
+  ],
+  "subtotal": 0,
+  "discount": 0,
+  "tax": 0,
+  "total": 0,
+  "evidence": {
+    "walletAddress": { "confidence": 0.0, "snippet": "verbatim text the value was read from", "page": 1 },
+    "amount": { "confidence": 0.0, "snippet": "...", "page": 1 },
+    "recipient": { "confidence": 0.0, "snippet": "...", "page": 1 },
+    "purpose": { "confidence": 0.0, "snippet": "...", "page": 1 },
+    "invoiceNumber": { "confidence": 0.0, "snippet": "...", "page": 1 },
+    "issueDate": { "confidence": 0.0, "snippet": "...", "page": 1 },
+    "dueDate": { "confidence": 0.0, "snippet": "...", "page": 1 }
+  }
+}`;
+
+const FIELD_EVIDENCE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  nullable: true,
+  properties: {
+    confidence: { type: SchemaType.NUMBER },
+    snippet: { type: SchemaType.STRING, nullable: true },
+    page: { type: SchemaType.INTEGER, nullable: true },
+  },
+  required: ['confidence'],
+};
+
+// Response schema for invoice extraction; mirrors INVOICE_JSON_SHAPE
+const INVOICE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    walletAddress: { type: SchemaType.STRING },
+    amount: { type: SchemaType.STRING },
+    recipient: { type: SchemaType.STRING },
+    purpose: { type: SchemaType.STRING },
+    invoiceNumber: { type: SchemaType.STRING },
+    issueDate: { type: SchemaType.STRING },
+    dueDate: { type: SchemaType.STRING },
+    lineItems: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          description: { type: SchemaType.STRING },
+          quantity: { type: SchemaType.NUMBER },
+          unitPrice: { type: SchemaType.NUMBER },
+          total: { type: SchemaType.NUMBER },
+        },
+        required: ['description', 'quantity', 'unitPrice', 'total'],
+      },
+    },
+    subtotal: { type: SchemaType.NUMBER, nullable: true },
+    discount: { type: SchemaType.NUMBER, nullable: true },
+    tax: { type: SchemaType.NUMBER, nullable: true },
+    total: { type: SchemaType.NUMBER, nullable: true },
+    evidence: {
+      type: SchemaType.OBJECT,
+      nullable: true,
+      properties: {
+        walletAddress: FIELD_EVIDENCE_SCHEMA,
+        amount: FIELD_EVIDENCE_SCHEMA,
+        recipient: FIELD_EVIDENCE_SCHEMA,
+        purpose: FIELD_EVIDENCE_SCHEMA,
+        invoiceNumber: FIELD_EVIDENCE_SCHEMA,
+        issueDate: FIELD_EVIDENCE_SCHEMA,
+        dueDate: FIELD_EVIDENCE_SCHEMA,
+      },
+    },
+  },
+  required: ['walletAddress', 'amount', 'recipient', 'purpose', 'invoiceNumber', 'issueDate', 'dueDate', 'lineItems'],
+};
+
+const RECOMMENDATION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    recommendation: { type: SchemaType.STRING, format: 'enum', enum: ['APPROVE', 'REVIEW', 'REJECT'] },
+    summary: { type: SchemaType.STRING },
+    riskLevel: { type: SchemaType.STRING, format: 'enum', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+    details: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING }, minItems: 1 },
+  },
+  required: ['recommendation', 'summary', 'riskLevel', 'details'],
+};
+
+const CHAT_REPLY_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    reply: { type: SchemaType.STRING },
+  },
+  required: ['reply'],
+};
+
+const EVIDENCE_FIELDS: InvoiceEvidenceField[] = [
+  'walletAddress',
+  'amount',
+  'recipient',
+  'purpose',
+  'invoiceNumber',
+  'issueDate',
+  'dueDate',
+];
+
+function toNumberOrNull(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const parsed = Number.parseFloat(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toLineItems(value: unknown): InvoiceLineItem[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map(item => {
+      const quantity = toNumberOrNull(item.quantity) ?? 1;
+      const unitPrice = toNumberOrNull(item.unitPrice) ?? 0;
+      return {
+        description: typeof item.description === 'string' && item.description.trim()
+          ? item.description.trim()
+          : 'Unnamed item',
+        quantity,
+        unitPrice,
+        total: toNumberOrNull(item.total) ?? quantity * unitPrice,
+      };
+    });
+}
+
+function toEvidence(
+  value: unknown,
+  fields: Record<InvoiceEvidenceField, string>
+): Partial<Record<InvoiceEvidenceField, FieldEvidence>> {
+  const evidence: Partial<Record<InvoiceEvidenceField, FieldEvidence>> = {};
+  if (typeof value !== 'object' || value === null) {
+    return evidence;
+  }
+
+  for (const field of EVIDENCE_FIELDS) {
+    const raw = (value as Record<string, unknown>)[field];
+    if (typeof raw !== 'object' || raw === null || fields[field] === 'NOT_FOUND') continue;
+
+    const entry = raw as Record<string, unknown>;
+    const snippet = typeof entry.snippet === 'string' && entry.snippet.trim() ? entry.snippet.trim() : null;
+    const page = toNumberOrNull(entry.page);
+    let confidence = Math.min(1, Math.max(0, toNumberOrNull(entry.confidence) ?? 0.5));
+
+    // A wallet address the model can't quote verbatim is not trustworthy
+    if (field === 'walletAddress' && !snippet?.toLowerCase().includes(fields.walletAddress.toLowerCase())) {
+      confidence = Math.min(confidence, 0.4);
+    }
+
+    evidence[field] = { confidence, snippet, page: page !== null ? Math.round(page) : null };
+  }
+
+  return evidence;
+}
+
+/**
+ * Normalize the raw JSON returned by Gemini into InvoiceData
+ */
+function toInvoiceData(extractedData: Record<string, unknown>): InvoiceData {
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : 'NOT_FOUND';
+
+  const fields: Record<InvoiceEvidenceField, string> = {
+    walletAddress: text(extractedData.walletAddress),
+    amount: text(extractedData.amount),
+    recipient: text(extractedData.recipient),
+    purpose: text(extractedData.purpose),
+    invoiceNumber: text(extractedData.invoiceNumber),
+    issueDate: text(extractedData.issueDate),
+    dueDate: text(extractedData.dueDate),
+  };
+
+  return {
+    ...fields,
+    lineItems: toLineItems(extractedData.lineItems),
+    subtotal: toNumberOrNull(extractedData.subtotal),
+    discount: toNumberOrNull(extractedData.discount),
+    tax: toNumberOrNull(extractedData.tax),
+    total: toNumberOrNull(extractedData.total),
+    evidence: toEvidence(extractedData.evidence, fields),
+  };
+}
+
+/**
+ * Render invoice fields, line items and the totals check for CFO prompts
+ */
+function formatInvoiceContext(invoiceData: InvoiceData): string {
+  const lineItems = invoiceData.lineItems.length > 0
+    ? invoiceData.lineItems
+      .map(item => `  - ${item.description}: ${item.quantity} × ${item.unitPrice} = ${item.total}`)
+      .join('\n')
+    : '  - None itemized';
+
+  const totalsCheck = reconcileInvoiceTotals(invoiceData);
+  const totalsStatus = totalsCheck.isConsistent
+    ? 'Line items reconcile with stated totals'
+    : `MISMATCH - ${totalsCheck.issues.join('; ')}`;
+
+  return `INVOICE DATA:
+- Invoice Number: ${invoiceData.invoiceNumber}
+- Issue Date: ${invoiceData.issueDate}
+- Due Date: ${invoiceData.dueDate}
+- Wallet: ${invoiceData.walletAddress}
+- Amount: ${invoiceData.amount}
+- Recipient: ${invoiceData.recipient}
+- Purpose: ${invoiceData.purpose}
+
+LINE ITEMS:
+${lineItems}
+- Subtotal: ${invoiceData.subtotal ?? 'N/A'}
+- Discount: ${invoiceData.discount ?? 'N/A'}
+- Tax: ${invoiceData.tax ?? 'N/A'}
+- Total: ${invoiceData.total ?? 'N/A'}
+- Totals Check: ${totalsStatus}`;
+}
+
+/**
+ * Render the duplicate-invoice check for CFO prompts
+ */
+function formatDuplicateContext(duplicateCheck: DuplicateInvoiceCheck | null | undefined): string {
+  if (!duplicateCheck) {
+    return 'DUPLICATE CHECK: Not performed';
+  }
+  if (!duplicateCheck.isDuplicate) {
+    return 'DUPLICATE CHECK: No matching invoice in processed history';
+  }
+  return `DUPLICATE CHECK: POSSIBLE DUPLICATE (${duplicateCheck.matchType})
+${duplicateCheck.reasons.map(reason => `- ${reason}`).join('\n')}
+- Original: ${duplicateCheck.original?.fileName} processed ${duplicateCheck.original?.processedAt}`;
+}
+
+/**
+ * Render the vendor registry check for CFO prompts
+ */
+function formatVendorContext(vendorCheck: VendorCheck | null | undefined): string {
+  if (!vendorCheck) {
+    return 'VENDOR REGISTRY: Not checked';
+  }
+  const status = {
+    'verified': `VERIFIED - payout address is approved for ${vendorCheck.vendor?.name}`,
+    'address-changed': `ADDRESS CHANGED - ${vendorCheck.vendor?.name} is registered with different payout addresses`,
+    'address-of-other-vendor': `ADDRESS OF OTHER VENDOR - address is registered to ${vendorCheck.addressOwner?.name}`,
+    'unknown-vendor': 'Vendor is not in the registry',
+  }[vendorCheck.status];
+  const issues = vendorCheck.issues.map(issue => `\n- ${issue}`).join('');
+  return `VENDOR REGISTRY: ${status}${issues}`;
+}
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(GOOGLE_API_KEY);
+/**
+ * Render this month's budget position for CFO prompts
+ */
+function formatBudgetContext(budgetCheck: BudgetCheck | null | undefined): string {
+  if (!budgetCheck) {
+    return 'BUDGETS: Not checked';
+  }
+  if (budgetCheck.statuses.length === 0) {
+    return `BUDGETS: No budget covers this invoice (category ${budgetCheck.category}, ${budgetCheck.month})`;
+  }
+  const statuses = budgetCheck.statuses.map(status => `\n- ${describeBudgetStatus(status)}`).join('');
+  return `BUDGETS (${budgetCheck.month}, category ${budgetCheck.category}): ${budgetCheck.overBudget ? 'OVER BUDGET' : 'Within budget'}${statuses}`;
+}
+
+function formatCounterpartyContext(analysis: CounterpartyAnalysis | null | undefined): string {
+  if (!analysis) {
+    return 'COUNTERPARTY GRAPH: Not available';
+  }
+  const coverage = `${analysis.transactionsAnalyzed} transactions${analysis.historyComplete ? '' : ' (partial history)'}, ` +
+    `${analysis.funders} funders, ${analysis.recipients} recipients, ${analysis.secondHopAddresses} second-hop addresses`;
+  if (analysis.findings.length === 0) {
+    return `COUNTERPARTY GRAPH: ${coverage}\n- No mixer, known-bad or drainer exposure found`;
+  }
+  const findings = analysis.findings.map(finding => `\n- ${describeCounterpartyFinding(finding)}`).join('');
+  return `COUNTERPARTY GRAPH: ${coverage}${findings}`;
+}
 
 /**
  * Extract invoice data from PDF using Gemini Vision
@@ -32,34 +337,34 @@ export async function extractInvoiceFromPDF(
     // Convert PDF buffer to base64
     const base64PDF = pdfBuffer.toString('base64');
 
-    // Use Gemini 2.0 Flash with multimodal capabilities
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash',
-    });
+    const provider = getLLMProvider('extraction');
 
     // Load prompt from prompts/gemini-prompts.md
     const extractionPrompt = `You are a CFO assistant extracting data from an invoice PDF.
 
 Extract the following information:
 1. **Wallet Address**: Ethereum wallet address (0x...)
-2. **Amount**: Payment amount with currency (e.g., "5000 USDC", "2.5 ETH")
+2. **Amount**: Grand total payable with currency (e.g., "5000 USDC", "2.5 ETH")
 3. **Recipient**: Vendor/company name receiving payment
 4. **Purpose**: Description of what the payment is for
+5. **Invoice Number, Issue Date, Due Date**: As printed on the invoice
+6. **Line Items**: Every billed line with description, quantity, unit price and line total
+7. **Subtotal, Discount, Tax, Total**: Numeric values as printed (discount as a positive number)
 
 Return ONLY a JSON object in this exact format:
-{
-  "walletAddress": "0x...",
-  "amount": "...",
-  "recipient": "...",
-  "purpose": "..."
-}
+${INVOICE_JSON_SHAPE}
 
-If any field is missing or unclear, use "NOT_FOUND".
+If any text field is missing or unclear, use "NOT_FOUND". Use null for missing numeric fields and [] when there are no line items.
+For every text field you found, add an "evidence" entry with your confidence (0-1), the exact text you read it from, and the 1-based page number.
+Copy numbers exactly as printed - do not correct the vendor's arithmetic.
 Be precise with wallet addresses - they must be valid Ethereum addresses starting with 0x followed by 40 hexadecimal characters.`;
 
-    // Generate content with PDF
-    const result = await model.generateContent({
-      contents: [
+    // Generate schema-validated JSON from the PDF
+    const extractedData = await generateStructured<Record<string, unknown>>({
+      label: 'Invoice extraction',
+      task: 'extraction',
+      provider,
+      messages: [
         {
           role: 'user',
           parts: [
@@ -73,31 +378,13 @@ Be precise with wallet addresses - they must be valid Ethereum addresses startin
           ],
         },
       ],
-      generationConfig: {
-        temperature: 0.1, // Low temperature for consistent extraction
-        maxOutputTokens: 1024,
-      },
+      schema: INVOICE_SCHEMA,
+      temperature: 0.1, // Low temperature for consistent extraction
+      maxOutputTokens: 1024,
     });
 
-    const response = await result.response;
-    const text = response.text();
-
-    // Parse JSON from response
-    // Gemini might wrap it in markdown code blocks
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Failed to extract JSON from Gemini response');
-    }
-
-    const extractedData = JSON.parse(jsonMatch[0]);
-
     // Validate extracted data
-    const invoiceData: InvoiceData = {
-      walletAddress: extractedData.walletAddress || 'NOT_FOUND',
-      amount: extractedData.amount || 'NOT_FOUND',
-      recipient: extractedData.recipient || 'NOT_FOUND',
-      purpose: extractedData.purpose || 'NOT_FOUND',
-    };
+    const invoiceData = toInvoiceData(extractedData);
 
     // Validate Ethereum address format
     if (invoiceData.walletAddress !== 'NOT_FOUND') {
@@ -110,6 +397,7 @@ Be precise with wallet addresses - they must be valid Ethereum addresses startin
     console.log('✅ Invoice extraction complete:', {
       wallet: invoiceData.walletAddress.substring(0, 10) + '...',
       amount: invoiceData.amount,
+      lineItems: invoiceData.lineItems.length,
     });
 
     return invoiceData;
@@ -145,7 +433,7 @@ ${fileContext}
 CONVERSATION:
 ${historyText}
 
-Assistant:
+Respond with a JSON object: {"reply": "your next message to the user"}
   `.trim();
 }
 
@@ -154,31 +442,24 @@ Assistant:
  */
 export async function generateChatResponse(context: ChatContext): Promise<string> {
   try {
-    if (!GOOGLE_API_KEY) {
-      throw new Error('Missing GOOGLE_API_KEY');
-    }
-
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash',
-    });
-
+    const provider = getLLMProvider('chat');
     const prompt = buildChatPrompt(context);
 
-    const result = await model.generateContent({
-      contents: [
+    const { reply } = await generateStructured<{ reply: string }>({
+      label: 'Chat reply',
+      task: 'chat',
+      provider,
+      messages: [
         {
           role: 'user',
           parts: [{ text: prompt }],
         },
       ],
-      generationConfig: {
-        temperature: 0.4,
-        maxOutputTokens: 512,
-      },
+      schema: CHAT_REPLY_SCHEMA,
+      temperature: 0.4,
+      maxOutputTokens: 512,
     });
-
-    const response = await result.response;
-    const text = response.text().trim();
+    const text = reply.trim();
 
     return text.length > 0 ? text : 'I am ready to help. What would you like me to do?';
   } catch (error) {
@@ -199,8 +480,13 @@ export async function generateCFORecommendation(
     isVerified: boolean;
     hasMaliciousLabel?: boolean;
     warnings: string[];
+    riskBreakdown?: RiskScoreContribution[];
+    counterpartyAnalysis?: CounterpartyAnalysis | null;
   },
-  paymentPlan?: PaymentPlan | null
+  paymentPlan?: PaymentPlan | null,
+  duplicateCheck?: DuplicateInvoiceCheck | null,
+  vendorCheck?: VendorCheck | null,
+  budgetCheck?: BudgetCheck | null
 ): Promise<{
   recommendation: 'APPROVE' | 'REVIEW' | 'REJECT';
   summary: string;
@@ -210,9 +496,7 @@ export async function generateCFORecommendation(
   try {
     console.log('🤖 Generating CFO recommendation...');
 
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
-    });
+    const provider = getLLMProvider('recommendation');
 
     const paymentContext = paymentPlan
       ? `
@@ -231,24 +515,33 @@ export async function generateCFORecommendation(
     const prompt = `
       You are a CFO assistant analyzing a payment request.
       
-      INVOICE DATA:
-      - Wallet: ${invoiceData.walletAddress}
-      - Amount: ${invoiceData.amount}
-      - Recipient: ${invoiceData.recipient}
-      - Purpose: ${invoiceData.purpose}
+      ${formatInvoiceContext(invoiceData)}
       
       SECURITY SCAN:
       - Risk Score: ${securityScan.riskScore}/100
+      - Score Breakdown: ${formatRiskBreakdown(securityScan.riskBreakdown ?? [])}
       - Is Contract: ${securityScan.isContract ? 'Yes' : 'No'}
       - Contract Verified: ${securityScan.isVerified ? 'Yes' : 'No'}
       - Warnings: ${securityScan.warnings.join(', ') || 'None'}
       
       ${paymentContext}
 
+      ${formatDuplicateContext(duplicateCheck)}
+
+      ${formatVendorContext(vendorCheck)}
+
+      ${formatBudgetContext(budgetCheck)}
+
+      ${formatCounterpartyContext(securityScan.counterpartyAnalysis)}
+
       RISK THRESHOLDS:
-      - 0-39: LOW risk (APPROVE)
-      - 40-69: MEDIUM risk (REVIEW)
-      - 70+: HIGH risk (REJECT)
+      ${formatRiskThresholds().map(line => `- ${line}`).join('\n      ')}
+
+      If the totals check reports a MISMATCH, do not APPROVE; call out the offending line items in details.
+      If the duplicate check reports a POSSIBLE DUPLICATE, recommend REVIEW at most and name the original invoice.
+      If the vendor registry reports ADDRESS CHANGED or ADDRESS OF OTHER VENDOR, recommend REVIEW at most with HIGH risk (possible invoice redirection).
+      If the budgets report OVER BUDGET, recommend REVIEW at most and state the remaining budget in details.
+      If the counterparty graph shows mixer, known-bad or drainer exposure, do not APPROVE and name the counterparty in details.
       
       Provide a recommendation and brief analysis.
       Return ONLY a JSON object:
@@ -260,51 +553,63 @@ export async function generateCFORecommendation(
       }
     `;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    // Parse JSON
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Failed to parse recommendation');
-    }
-
-    const recommendation = JSON.parse(jsonMatch[0]);
+    const recommendation = await generateStructured<CFORecommendation>({
+      label: 'CFO recommendation',
+      task: 'recommendation',
+      provider,
+      messages: [{ role: 'user', parts: [{ text: prompt }] }],
+      schema: RECOMMENDATION_SCHEMA,
+    });
 
     console.log('✅ Recommendation generated:', recommendation.recommendation);
 
-    return {
-      recommendation: recommendation.recommendation,
-      summary: recommendation.summary,
-      riskLevel: recommendation.riskLevel,
-      details: recommendation.details,
-    };
+    return recommendation;
 
   } catch (error) {
     console.error('❌ Recommendation generation error:', error);
+
+    // Invalid model output is surfaced as-is; the score-based fallback only covers API failures
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+
+    const totalsCheck = reconcileInvoiceTotals(invoiceData);
+    const { thresholds } = getRiskPolicy();
+    const scoreDecision = getRecommendationFromScore(securityScan.riskScore).recommendation;
     
     // Fallback based on risk score
-    if (securityScan.riskScore >= 70) {
+    if (scoreDecision === 'REJECT') {
       return {
         recommendation: 'REJECT',
         summary: 'High risk detected - automatic rejection',
         riskLevel: 'HIGH',
-        details: ['Risk score exceeds 70 threshold', ...securityScan.warnings],
+        details: [`Risk score reaches the ${thresholds.reject} reject threshold`, ...securityScan.warnings],
       };
-    } else if (securityScan.riskScore >= 40) {
+    } else if (scoreDecision === 'REVIEW' || !totalsCheck.isConsistent || duplicateCheck?.isDuplicate || budgetCheck?.overBudget) {
       return {
         recommendation: 'REVIEW',
-        summary: 'Medium risk - manual review recommended',
+        summary: duplicateCheck?.isDuplicate
+          ? 'Possible duplicate invoice - manual review required'
+          : budgetCheck?.overBudget
+          ? 'Invoice exceeds a monthly budget - manual review required'
+          : totalsCheck.isConsistent
+          ? 'Medium risk - manual review recommended'
+          : 'Invoice totals do not reconcile - manual review recommended',
         riskLevel: 'MEDIUM',
-        details: ['Risk score between 40-69', ...securityScan.warnings],
+        details: [
+          ...(scoreDecision === 'REVIEW' ? [`Risk score between ${thresholds.review}-${thresholds.reject - 1}`] : []),
+          ...(duplicateCheck?.reasons ?? []),
+          ...(budgetCheck?.issues ?? []),
+          ...totalsCheck.issues,
+          ...securityScan.warnings,
+        ],
       };
     } else {
       return {
         recommendation: 'APPROVE',
         summary: 'Low risk - safe to proceed',
         riskLevel: 'LOW',
-        details: ['Risk score below 40', 'No major concerns detected'],
+        details: [`Risk score below ${thresholds.review}`, 'No major concerns detected'],
       };
     }
   }
@@ -322,80 +627,63 @@ export async function* streamInvoiceExtraction(
 
   const base64PDF = pdfBuffer.toString('base64');
 
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-2.0-flash',
-  });
+  const provider = getLLMProvider('extraction');
 
   const streamingPrompt = `You are a CFO assistant analyzing an invoice PDF.
 
 Think out loud as you extract the following information:
 1. Wallet Address (Ethereum 0x...)
-2. Amount with currency
+2. Grand total payable with currency
 3. Recipient/vendor name
 4. Payment purpose
+5. Invoice number, issue date and due date
+6. Every line item (description, quantity, unit price, line total)
+7. Subtotal, discount, tax and total as printed
 
 First, describe what you see in the document as you scan it. Share your reasoning process.
+Copy numbers exactly as printed - do not correct the vendor's arithmetic.
+Use "NOT_FOUND" for missing text fields, null for missing numbers and [] when there are no line items.
+For every text field you found, give an "evidence" entry with your confidence (0-1), the exact text you read it from, and the 1-based page number.
 Then at the very end, output ONLY a JSON block with:
 \`\`\`json
-{
-  "walletAddress": "0x...",
-  "amount": "...",
-  "recipient": "...",
-  "purpose": "..."
-}
+${INVOICE_JSON_SHAPE}
 \`\`\``;
 
-  const result = await model.generateContentStream({
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          { text: streamingPrompt },
-          {
-            inlineData: {
-              mimeType: 'application/pdf',
-              data: base64PDF,
-            },
+  const messages: LLMMessage[] = [
+    {
+      role: 'user',
+      parts: [
+        { text: streamingPrompt },
+        {
+          inlineData: {
+            mimeType: 'application/pdf',
+            data: base64PDF,
           },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.3,
-      maxOutputTokens: 2048,
+        },
+      ],
     },
-  });
+  ];
 
   let fullText = '';
 
-  for await (const chunk of result.stream) {
-    const text = chunk.text();
+  for await (const text of provider.stream({ task: 'extraction', messages, temperature: 0.3, maxOutputTokens: 2048 })) {
     fullText += text;
     yield { type: 'reasoning', content: text };
   }
 
-  // Extract JSON from the full response
-  const jsonMatch = fullText.match(/```json\s*([\s\S]*?)\s*```/) || fullText.match(/\{[\s\S]*\}/);
-  
-  if (jsonMatch) {
-    try {
-      const jsonStr = jsonMatch[1] || jsonMatch[0];
-      const extractedData = JSON.parse(jsonStr);
-      
-      const invoiceData: InvoiceData = {
-        walletAddress: extractedData.walletAddress || 'NOT_FOUND',
-        amount: extractedData.amount || 'NOT_FOUND',
-        recipient: extractedData.recipient || 'NOT_FOUND',
-        purpose: extractedData.purpose || 'NOT_FOUND',
-      };
+  // Validate the JSON block; re-prompt in JSON mode if it does not match the schema
+  const extractedData = await generateStructured<Record<string, unknown>>({
+    label: 'Invoice extraction',
+    task: 'extraction',
+    provider,
+    messages,
+    schema: INVOICE_SCHEMA,
+    temperature: 0.1,
+    maxOutputTokens: 2048,
+    initialOutput: fullText,
+  });
 
-      yield { type: 'result', content: invoiceData };
-    } catch {
-      throw new Error('Failed to parse invoice data from LLM response');
-    }
-  } else {
-    throw new Error('No JSON found in LLM response');
-  }
+  yield { type: 'result', content: toInvoiceData(extractedData) };
 }
 
 /**
@@ -410,14 +698,17 @@ export async function* streamCFORecommendation(
     isVerified: boolean;
     hasMaliciousLabel?: boolean;
     warnings: string[];
+    riskBreakdown?: RiskScoreContribution[];
+    counterpartyAnalysis?: CounterpartyAnalysis | null;
   },
-  paymentPlan?: PaymentPlan | null
+  paymentPlan?: PaymentPlan | null,
+  duplicateCheck?: DuplicateInvoiceCheck | null,
+  vendorCheck?: VendorCheck | null,
+  budgetCheck?: BudgetCheck | null
 ): AsyncGenerator<{ type: 'reasoning' | 'result'; content: string | CFORecommendation }> {
   console.log('🤖 Streaming CFO recommendation...');
 
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-2.0-flash',
-  });
+  const provider = getLLMProvider('recommendation');
 
   const paymentContext = paymentPlan
     ? `\nPAYMENT PLAN:\n- Payer: ${paymentPlan.payerAddress}\n- Method: ${paymentPlan.method}\n- Status: ${paymentPlan.status}\n- Invoice Amount (USDC base units): ${paymentPlan.invoiceAmountUSDC ?? 'N/A'}\n- USDC Balance: ${paymentPlan.usdcBalance ?? 'N/A'}\n- ETH Balance (wei): ${paymentPlan.ethBalanceWei ?? 'N/A'}\n- Max ETH In (wei): ${paymentPlan.maxEthInWei ?? 'N/A'}\n- Reason: ${paymentPlan.reason ?? 'N/A'}\n`
@@ -425,28 +716,38 @@ export async function* streamCFORecommendation(
 
   const streamingPrompt = `You are a CFO assistant making a payment decision.
 
-INVOICE DATA:
-- Wallet: ${invoiceData.walletAddress}
-- Amount: ${invoiceData.amount}
-- Recipient: ${invoiceData.recipient}
-- Purpose: ${invoiceData.purpose}
+${formatInvoiceContext(invoiceData)}
 
 SECURITY SCAN RESULTS:
 - Risk Score: ${securityScan.riskScore}/100
+- Score Breakdown: ${formatRiskBreakdown(securityScan.riskBreakdown ?? [])}
 - Is Smart Contract: ${securityScan.isContract ? 'Yes' : 'No'}
 - Contract Verified: ${securityScan.isVerified ? 'Yes' : 'No'}
 - Warnings: ${securityScan.warnings.length > 0 ? securityScan.warnings.join(', ') : 'None'}
 ${paymentContext}
 
+${formatDuplicateContext(duplicateCheck)}
+
+${formatVendorContext(vendorCheck)}
+
+${formatBudgetContext(budgetCheck)}
+
+${formatCounterpartyContext(securityScan.counterpartyAnalysis)}
+
 DECISION THRESHOLDS:
-- 0-39: LOW risk → APPROVE
-- 40-69: MEDIUM risk → REVIEW  
-- 70+: HIGH risk → REJECT
+${formatRiskThresholds().map(line => `- ${line}`).join('\n')}
+
+If the totals check reports a MISMATCH, do not APPROVE; call out the offending line items in details.
+If the duplicate check reports a POSSIBLE DUPLICATE, recommend REVIEW at most and name the original invoice.
+If the vendor registry reports ADDRESS CHANGED or ADDRESS OF OTHER VENDOR, recommend REVIEW at most with HIGH risk (possible invoice redirection).
+If the budgets report OVER BUDGET, recommend REVIEW at most and state the remaining budget in details.
+If the counterparty graph shows mixer, known-bad or drainer exposure, do not APPROVE and name the counterparty in details.
 
 Think through your analysis step by step. Consider:
 1. The payment amount and recipient legitimacy
 2. The wallet's security profile and any red flags
 3. Whether the purpose aligns with expected vendor payments
+4. Whether the line items, tax and discounts add up to the amount being paid
 
 Share your reasoning process, then conclude with:
 \`\`\`json
@@ -458,43 +759,26 @@ Share your reasoning process, then conclude with:
 }
 \`\`\``;
 
-  const result = await model.generateContentStream(streamingPrompt);
+  const messages: LLMMessage[] = [{ role: 'user', parts: [{ text: streamingPrompt }] }];
 
   let fullText = '';
 
-  for await (const chunk of result.stream) {
-    const text = chunk.text();
+  for await (const text of provider.stream({ task: 'recommendation', messages })) {
     fullText += text;
     yield { type: 'reasoning', content: text };
   }
 
-  // Extract JSON from the full response
-  const jsonMatch = fullText.match(/```json\s*([\s\S]*?)\s*```/) || fullText.match(/\{[\s\S]*\}/);
-
-  if (jsonMatch) {
-    try {
-      const jsonStr = jsonMatch[1] || jsonMatch[0];
-      const recommendation = JSON.parse(jsonStr);
-
-      const result: CFORecommendation = {
-        recommendation: recommendation.recommendation,
-        summary: recommendation.summary,
-        riskLevel: recommendation.riskLevel,
-        details: recommendation.details || [],
-      };
+  // Validate the JSON block; re-prompt in JSON mode if it does not match the schema
+  const recommendation = await generateStructured<CFORecommendation>({
+    label: 'CFO recommendation',
+    task: 'recommendation',
+    provider,
+    messages,
+    schema: RECOMMENDATION_SCHEMA,
+    initialOutput: fullText,
+  });
 
-      yield { type: 'result', content: result };
-    } catch {
-      // Fallback based on risk
-      const fallback: CFORecommendation = {
-        recommendation: securityScan.riskScore >= 70 ? 'REJECT' : securityScan.riskScore >= 40 ? 'REVIEW' : 'APPROVE',
-        summary: 'Analysis complete',
-        riskLevel: securityScan.riskScore >= 70 ? 'HIGH' : securityScan.riskScore >= 40 ? 'MEDIUM' : 'LOW',
-        details: ['Based on security scan results'],
-      };
-      yield { type: 'result', content: fallback };
-    }
-  }
+  yield { type: 'result', content: recommendation };
 }
 
 // Type for CFO Recommendation (needed for streaming function)
@@ -0,0 +1,310 @@
+// lib/services/invoiceParser.ts
+// Deterministic invoice extraction from the PDF text layer (runs before Gemini)
+
+import { FieldEvidence, InvoiceData, InvoiceEvidenceField, InvoiceLineItem } from '@/app/types';
+import { extractPagesFromPDF } from './pdfService';
+import { reconcileInvoiceTotals } from './invoiceValidation';
+
+// Below this confidence the pipeline falls back to Gemini
+export const TEXT_LAYER_MIN_CONFIDENCE = Number(process.env.INVOICE_PARSER_MIN_CONFIDENCE || '0.8');
+
+const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}\b/g;
+const MONEY_PATTERN = '([0-9][0-9,]*(?:\\.[0-9]+)?)';
+const SUPPORTED_CURRENCIES = ['USDC', 'EURC', 'ETH', 'WETH', 'USDT', 'DAI'];
+
+// Labels introducing the party being paid vs. the party paying
+const PAYEE_LABELS = /^(from|pay to|payee|remit to|vendor|beneficiary)\s*:?\s*(.*)$/i;
+const PAYER_LABELS = /^(bill to|billed to|customer|client)\s*:?\s*(.*)$/i;
+const WALLET_LABELS = /(wallet|address|pay to|payout|recipient)/i;
+
+export interface TextLayerExtraction {
+  invoiceData: InvoiceData;
+  confidence: number;   // 0-1
+  missing: string[];    // Fields the rules could not find
+  notes: string[];      // Why confidence was reduced
+}
+
+interface TextLine {
+  text: string;
+  page: number;
+}
+
+interface LabeledMatch {
+  value: string;
+  line: TextLine;
+}
+
+function parseMoney(raw: string): number | null {
+  const value = Number.parseFloat(raw.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+function evidenceFrom(line: TextLine, confidence: number): FieldEvidence {
+  return { confidence, snippet: line.text, page: line.page };
+}
+
+function findLabeledValue(lines: TextLine[], pattern: RegExp): LabeledMatch | null {
+  for (const line of lines) {
+    const match = line.text.match(pattern);
+    if (match?.[1]?.trim()) {
+      return { value: match[1].trim(), line };
+    }
+  }
+  return null;
+}
+
+function findLabeledAmount(lines: TextLine[], labels: string): { value: number; line: TextLine } | null {
+  const pattern = new RegExp(`^(?:${labels})\\b[^0-9-]*-?\\s*[$€]?\\s*${MONEY_PATTERN}`, 'i');
+  const match = findLabeledValue(lines, pattern);
+  const value = match ? parseMoney(match.value) : null;
+  return match && value !== null ? { value, line: match.line } : null;
+}
+
+function findCurrency(lines: TextLine[]): { currency: string; line: TextLine; labeled: boolean } | null {
+  const tokenLine = findLabeledValue(lines, /\b(?:token|currency)\s*:\s*([A-Za-z]+)/i);
+  if (tokenLine && SUPPORTED_CURRENCIES.includes(tokenLine.value.toUpperCase())) {
+    return { currency: tokenLine.value.toUpperCase(), line: tokenLine.line, labeled: true };
+  }
+  const mention = findLabeledValue(lines, new RegExp(`\\b(${SUPPORTED_CURRENCIES.join('|')})\\b`, 'i'));
+  return mention ? { currency: mention.value.toUpperCase(), line: mention.line, labeled: false } : null;
+}
+
+/**
+ * Name on the line after (or on the same line as) a party label
+ */
+function findPartyName(lines: TextLine[], labels: RegExp): LabeledMatch | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].text.match(labels);
+    if (!match) continue;
+    const inline = match[2]?.trim();
+    if (inline) return { value: inline, line: lines[i] };
+    const next = lines[i + 1];
+    if (next && !next.text.includes(':')) {
+      return { value: next.text, line: { text: `${lines[i].text} ${next.text}`, page: next.page } };
+    }
+  }
+  return null;
+}
+
+function findWalletAddress(
+  lines: TextLine[],
+  payerBlock: Set<number>
+): { address: string | null; line: TextLine | null; labeled: boolean; candidates: string[] } {
+  const candidates = new Set<string>();
+  let labeled: LabeledMatch | null = null;
+  let firstSeen: LabeledMatch | null = null;
+
+  for (let idx = 0; idx < lines.length; idx++) {
+    // Addresses printed under "Bill To" belong to us, not the vendor
+    if (payerBlock.has(idx)) continue;
+
+    const line = lines[idx];
+    for (const address of line.text.match(ADDRESS_PATTERN) ?? []) {
+      candidates.add(address.toLowerCase());
+      firstSeen = firstSeen ?? { value: address, line };
+      if (!labeled && (WALLET_LABELS.test(line.text) || WALLET_LABELS.test(lines[idx - 1]?.text ?? ''))) {
+        labeled = { value: address, line };
+      }
+    }
+  }
+
+  const chosen: LabeledMatch | null = labeled ?? firstSeen;
+  return {
+    address: chosen?.value ?? null,
+    line: chosen?.line ?? null,
+    labeled: Boolean(labeled),
+    candidates: Array.from(candidates),
+  };
+}
+
+/**
+ * Line indexes belonging to the payer ("Bill To") block, up to the next label
+ */
+function findPayerBlock(lines: TextLine[]): Set<number> {
+  const block = new Set<number>();
+  lines.forEach((line, idx) => {
+    if (!PAYER_LABELS.test(line.text)) return;
+    block.add(idx);
+    for (let j = idx + 1; j < lines.length && j <= idx + 4; j++) {
+      if (/:\s*$/.test(lines[j].text) || /^(description|item)\b/i.test(lines[j].text)) break;
+      block.add(j);
+    }
+  });
+  return block;
+}
+
+function findLineItems(lines: TextLine[]): InvoiceLineItem[] {
+  const start = lines.findIndex(line => /^(description|item)\b/i.test(line.text));
+  if (start < 0) {
+    return [];
+  }
+
+  const items: InvoiceLineItem[] = [];
+  const full = new RegExp(`^(.+?)\\s+([0-9]+(?:\\.[0-9]+)?)\\s+[$€]?${MONEY_PATTERN}\\s+[$€]?${MONEY_PATTERN}$`);
+  const single = new RegExp(`^(.+?)\\s+[$€]?${MONEY_PATTERN}$`);
+
+  for (const { text } of lines.slice(start + 1)) {
+    if (/^(sub-?total|total|tax|vat|gst|discount|amount due|balance due|payment details)\b/i.test(text)) {
+      break;
+    }
+
+    const fullMatch = text.match(full);
+    if (fullMatch) {
+      items.push({
+        description: fullMatch[1].trim(),
+        quantity: Number.parseFloat(fullMatch[2]),
+        unitPrice: parseMoney(fullMatch[3]) ?? 0,
+        total: parseMoney(fullMatch[4]) ?? 0,
+      });
+      continue;
+    }
+
+    const singleMatch = text.match(single);
+    if (singleMatch) {
+      const total = parseMoney(singleMatch[2]) ?? 0;
+      items.push({ description: singleMatch[1].trim(), quantity: 1, unitPrice: total, total });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Rule-based extraction over invoice text, one string per page.
+ * Confidence reflects how many payment-critical fields were found unambiguously.
+ */
+export function parseInvoiceText(pages: string[]): TextLayerExtraction {
+  const lines: TextLine[] = pages.flatMap((pageText, pageIdx) =>
+    pageText
+      .split('\n')
+      .map(text => text.trim())
+      .filter(text => text && !/^-- \d+ of \d+ --$/.test(text))
+      .map(text => ({ text, page: pageIdx + 1 }))
+  );
+
+  const missing: string[] = [];
+  const notes: string[] = [];
+  const evidence: Partial<Record<InvoiceEvidenceField, FieldEvidence>> = {};
+
+  const payerBlock = findPayerBlock(lines);
+  const wallet = findWalletAddress(lines, payerBlock);
+
+  const lineItems = findLineItems(lines);
+  const subtotal = findLabeledAmount(lines, 'sub-?total');
+  const discount = findLabeledAmount(lines, 'discount');
+  const tax = findLabeledAmount(lines, 'tax|vat|gst|sales tax');
+  const total = findLabeledAmount(lines, 'total due|amount due|balance due|grand total|total');
+  const currency = findCurrency(lines);
+
+  const recipient = findPartyName(lines, PAYEE_LABELS);
+  const invoiceNumber = findLabeledValue(lines, /^invoice\s*(?:id|no\.?|number|#)\s*:?\s*(\S+)/i);
+  const issueDate = findLabeledValue(lines, /^(?:issue date|invoice date|date)\s*:\s*(.+)$/i);
+  const dueDate = findLabeledValue(lines, /^due(?: date)?\s*:\s*(.+)$/i);
+  const labeledPurpose = findLabeledValue(lines, /^(?:purpose|description|memo)\s*:\s*(.+)$/i);
+  const purpose = labeledPurpose?.value
+    ?? (lineItems.length > 0 ? lineItems.map(item => item.description).join(', ') : null);
+
+  if (wallet.address && wallet.line) {
+    const walletConfidence = wallet.candidates.length > 1 ? 0.5 : wallet.labeled ? 0.95 : 0.7;
+    evidence.walletAddress = evidenceFrom(wallet.line, walletConfidence);
+  }
+  if (total && currency) {
+    const amountConfidence = currency.labeled || total.line.text.toUpperCase().includes(currency.currency) ? 0.9 : 0.7;
+    evidence.amount = evidenceFrom(total.line, amountConfidence);
+  }
+  if (recipient) {
+    evidence.recipient = evidenceFrom(recipient.line, 0.85);
+  }
+  if (labeledPurpose) {
+    evidence.purpose = evidenceFrom(labeledPurpose.line, 0.8);
+  } else if (purpose) {
+    const firstItem = lines.find(line => line.text.startsWith(lineItems[0].description));
+    evidence.purpose = firstItem
+      ? evidenceFrom(firstItem, 0.6)
+      : { confidence: 0.6, snippet: null, page: null };
+  }
+  if (invoiceNumber) {
+    evidence.invoiceNumber = evidenceFrom(invoiceNumber.line, 0.9);
+  }
+  if (issueDate) {
+    evidence.issueDate = evidenceFrom(issueDate.line, 0.85);
+  }
+  if (dueDate) {
+    evidence.dueDate = evidenceFrom(dueDate.line, 0.85);
+  }
+
+  const invoiceData: InvoiceData = {
+    walletAddress: wallet.address ?? 'NOT_FOUND',
+    amount: total && currency ? `${total.value} ${currency.currency}` : 'NOT_FOUND',
+    recipient: recipient?.value ?? 'NOT_FOUND',
+    purpose: purpose ?? 'NOT_FOUND',
+    invoiceNumber: invoiceNumber?.value ?? 'NOT_FOUND',
+    issueDate: issueDate?.value ?? 'NOT_FOUND',
+    dueDate: dueDate?.value ?? 'NOT_FOUND',
+    lineItems,
+    subtotal: subtotal?.value ?? null,
+    discount: discount?.value ?? null,
+    tax: tax?.value ?? null,
+    total: total?.value ?? null,
+    evidence,
+  };
+
+  let confidence = 0;
+
+  if (wallet.address) {
+    confidence += wallet.candidates.length === 1 ? 0.4 : 0.2;
+    if (wallet.candidates.length > 1) {
+      notes.push(`${wallet.candidates.length} different wallet addresses found in the text`);
+    }
+  } else {
+    missing.push('walletAddress');
+  }
+
+  if (invoiceData.amount !== 'NOT_FOUND') {
+    confidence += 0.3;
+  } else {
+    missing.push('amount');
+  }
+
+  if (recipient) {
+    confidence += 0.15;
+  } else {
+    missing.push('recipient');
+  }
+
+  if (purpose) {
+    confidence += 0.05;
+  } else {
+    missing.push('purpose');
+  }
+
+  if (reconcileInvoiceTotals(invoiceData).isConsistent) {
+    confidence += 0.1;
+  } else {
+    notes.push('Line items do not reconcile with the stated total');
+  }
+
+  return {
+    invoiceData,
+    confidence: Math.round(confidence * 100) / 100,
+    missing,
+    notes,
+  };
+}
+
+/**
+ * Read the PDF text layer and run the rule-based parser.
+ * Returns null for scanned/image-only PDFs that have no usable text.
+ */
+export async function extractInvoiceFromTextLayer(pdfBuffer: Buffer): Promise<TextLayerExtraction | null> {
+  try {
+    const pages = await extractPagesFromPDF(pdfBuffer);
+    if (pages.join('').replace(/\s/g, '').length < 20) {
+      return null;
+    }
+    return parseInvoiceText(pages);
+  } catch (error) {
+    console.warn('⚠️ Text-layer extraction unavailable:', error);
+    return null;
+  }
+}
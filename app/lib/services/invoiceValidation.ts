@@ -0,0 +1,79 @@
+// lib/services/invoiceValidation.ts
+// Arithmetic checks on extracted invoice line items and totals
+
+import { InvoiceData, InvoiceTotalsCheck } from '@/app/types';
+
+// Allow for per-line rounding on printed invoices (one cent)
+const TOTALS_TOLERANCE = 0.01;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > TOTALS_TOLERANCE;
+}
+
+/**
+ * Parse the numeric part of an amount string such as "5,000.00 USDC"
+ */
+export function parseAmountValue(amountRaw: string): number | null {
+  const match = amountRaw.replace(/,/g, '').match(/[0-9]+(?:\.[0-9]+)?/);
+  if (!match) {
+    return null;
+  }
+  const value = Number.parseFloat(match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Reconcile line items against subtotal, discount, tax and grand total.
+ * Every inconsistency is reported so reviewers can spot padded line items.
+ */
+export function reconcileInvoiceTotals(invoiceData: InvoiceData): InvoiceTotalsCheck {
+  const issues: string[] = [];
+  const lineItems = invoiceData.lineItems ?? [];
+
+  lineItems.forEach((item, idx) => {
+    const expectedLineTotal = roundCents(item.quantity * item.unitPrice);
+    if (differs(expectedLineTotal, item.total)) {
+      issues.push(
+        `Line ${idx + 1} (${item.description}): ${item.quantity} × ${item.unitPrice} = ${expectedLineTotal}, but invoice shows ${item.total}`
+      );
+    }
+  });
+
+  const lineItemsSum = lineItems.length > 0
+    ? roundCents(lineItems.reduce((sum, item) => sum + item.total, 0))
+    : null;
+
+  if (lineItemsSum !== null && invoiceData.subtotal !== null && differs(lineItemsSum, invoiceData.subtotal)) {
+    issues.push(`Line items sum to ${lineItemsSum}, but stated subtotal is ${invoiceData.subtotal}`);
+  }
+
+  const base = invoiceData.subtotal ?? lineItemsSum;
+  const computedTotal = base !== null
+    ? roundCents(base - (invoiceData.discount ?? 0) + (invoiceData.tax ?? 0))
+    : null;
+
+  if (computedTotal !== null && invoiceData.total !== null && differs(computedTotal, invoiceData.total)) {
+    issues.push(`Computed total ${computedTotal} does not match stated total ${invoiceData.total}`);
+  }
+
+  // The amount to be paid must match the invoice total: the printed one, else the one computed from line items
+  const amountValue = parseAmountValue(invoiceData.amount);
+  const invoiceTotal = invoiceData.total ?? computedTotal;
+  if (invoiceTotal !== null && amountValue !== null && differs(amountValue, invoiceTotal)) {
+    issues.push(
+      `Payable amount ${invoiceData.amount} does not match invoice ${invoiceData.total !== null ? 'total' : 'computed total'} ${invoiceTotal}`
+    );
+  }
+
+  return {
+    lineItemsSum,
+    computedTotal,
+    statedTotal: invoiceData.total ?? amountValue,
+    isConsistent: issues.length === 0,
+    issues,
+  };
+}
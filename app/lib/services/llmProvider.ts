@@ -0,0 +1,315 @@
+// lib/services/llmProvider.ts
+// LLM provider abstraction: Gemini, OpenAI-compatible servers (Ollama, llama.cpp, ...) and fixture replay
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+
+import { extractPagesFromPDF } from './pdfService';
+
+export type LLMTask = 'extraction' | 'recommendation' | 'chat';
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };   // base64 payload, e.g. the invoice PDF
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseSchema?: ResponseSchema;   // Request JSON output matching this schema
+}
+
+/**
+ * A text-generation backend. `stream` yields text chunks as they arrive.
+ */
+export interface LLMProvider {
+  name: string;
+  generate(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncGenerator<string>;
+}
+
+const DEFAULT_PROVIDER = process.env.LLM_PROVIDER || 'gemini';
+const DEFAULT_GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1';
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
+const DEFAULT_OPENAI_MODEL = process.env.OPENAI_MODEL || 'llama3.1';
+const FIXTURES_DIR = process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm');
+
+// Per-task overrides, e.g. LLM_PROVIDER_CHAT=openai:qwen2.5 or LLM_PROVIDER_EXTRACTION=fixture
+const TASK_PROVIDER_ENV: Record<LLMTask, string | undefined> = {
+  extraction: process.env.LLM_PROVIDER_EXTRACTION,
+  recommendation: process.env.LLM_PROVIDER_RECOMMENDATION,
+  chat: process.env.LLM_PROVIDER_CHAT,
+};
+
+/**
+ * Google Gemini via @google/generative-ai
+ */
+export function createGeminiProvider(
+  apiKey: string = process.env.GOOGLE_API_KEY || '',
+  model: string = DEFAULT_GEMINI_MODEL
+): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  function toGeminiRequest(request: LLMRequest) {
+    if (!apiKey) {
+      throw new Error('Missing GOOGLE_API_KEY');
+    }
+    return {
+      contents: request.messages,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.responseSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: request.responseSchema,
+        }),
+      },
+    };
+  }
+
+  return {
+    name: `gemini:${model}`,
+
+    async generate(request) {
+      const result = await genAI.getGenerativeModel({ model }).generateContent(toGeminiRequest(request));
+      return result.response.text();
+    },
+
+    async *stream(request) {
+      const result = await genAI.getGenerativeModel({ model }).generateContentStream(toGeminiRequest(request));
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
+
+// Gemini's OpenAPI-subset schema as standard JSON Schema (enum format, nullable)
+function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  const { nullable, description } = schema;
+  let jsonSchema: Record<string, unknown>;
+
+  switch (schema.type) {
+    case SchemaType.ARRAY:
+      jsonSchema = {
+        type: 'array',
+        items: toJsonSchema(schema.items),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+      };
+      break;
+    case SchemaType.OBJECT:
+      jsonSchema = {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+        required: schema.required ?? [],
+      };
+      break;
+    case SchemaType.STRING:
+      jsonSchema = schema.format === 'enum' ? { type: 'string', enum: schema.enum } : { type: 'string' };
+      break;
+    default:
+      jsonSchema = { type: schema.type };
+  }
+
+  if (nullable) {
+    jsonSchema = { anyOf: [jsonSchema, { type: 'null' }] };
+  }
+  return description ? { ...jsonSchema, description } : jsonSchema;
+}
+
+/**
+ * OpenAI-compatible chat completions API (Ollama, llama.cpp server, vLLM, ...).
+ * Local models rarely accept PDFs, so PDF parts are sent as their text layer.
+ */
+export function createOpenAICompatibleProvider(
+  baseUrl: string = OPENAI_BASE_URL,
+  model: string = DEFAULT_OPENAI_MODEL,
+  apiKey: string = OPENAI_API_KEY
+): LLMProvider {
+  async function toMessageContent(parts: LLMPart[]): Promise<string> {
+    const texts = await Promise.all(parts.map(async part => {
+      if ('text' in part) return part.text;
+      if (part.inlineData.mimeType !== 'application/pdf') {
+        throw new Error(`${model} via ${baseUrl} cannot read ${part.inlineData.mimeType} attachments`);
+      }
+      const pages = await extractPagesFromPDF(Buffer.from(part.inlineData.data, 'base64'));
+      if (pages.every(page => !page.trim())) {
+        throw new Error('PDF has no text layer; use a multimodal provider for scanned invoices');
+      }
+      return pages.map((page, index) => `--- PDF page ${index + 1} ---\n${page}`).join('\n\n');
+    }));
+    return texts.join('\n\n');
+  }
+
+  async function post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const messages = await Promise.all(request.messages.map(async message => ({
+      role: message.role === 'model' ? 'assistant' : 'user',
+      content: await toMessageContent(message.parts),
+    })));
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: `${request.task}_output`, schema: toJsonSchema(request.responseSchema) },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${model} via ${baseUrl} returned HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  return {
+    name: `openai:${model}`,
+
+    async generate(request) {
+      const response = await post(request, false);
+      const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+      return body.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new Error(`${model} via ${baseUrl} returned an empty stream`);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+          const event = JSON.parse(data) as { choices?: { delta?: { content?: string } }[] };
+          const content = event.choices?.[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic replay of recorded responses for offline runs and tests.
+ * Looks up `<dir>/<task>/<request hash>.json`, then `<dir>/<task>.json`.
+ * With a `recorder`, missing fixtures are generated by that provider and saved.
+ */
+export function createFixtureProvider(dir: string = FIXTURES_DIR, recorder?: LLMProvider): LLMProvider {
+  const fixtureKey = (request: LLMRequest) =>
+    createHash('sha256')
+      .update(JSON.stringify({ messages: request.messages, responseSchema: request.responseSchema ?? null }))
+      .digest('hex')
+      .slice(0, 16);
+
+  async function readFixture(file: string): Promise<string | null> {
+    try {
+      const fixture = JSON.parse(await readFile(file, 'utf8')) as { output: unknown };
+      return typeof fixture.output === 'string' ? fixture.output : JSON.stringify(fixture.output, null, 2);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async function replay(request: LLMRequest): Promise<string> {
+    const exactFile = path.join(dir, request.task, `${fixtureKey(request)}.json`);
+    const output = await readFixture(exactFile) ?? await readFixture(path.join(dir, `${request.task}.json`));
+    if (output !== null) {
+      return output;
+    }
+
+    if (!recorder) {
+      throw new Error(`No LLM fixture for ${request.task} (expected ${exactFile})`);
+    }
+
+    const recorded = await recorder.generate(request);
+    await mkdir(path.dirname(exactFile), { recursive: true });
+    await writeFile(exactFile, JSON.stringify({ task: request.task, provider: recorder.name, output: recorded }, null, 2));
+    console.log(`📼 Recorded ${request.task} fixture from ${recorder.name}: ${exactFile}`);
+    return recorded;
+  }
+
+  return {
+    name: 'fixture',
+
+    generate: replay,
+
+    async *stream(request) {
+      // Replay line by line so streaming consumers see incremental output
+      const output = await replay(request);
+      for (const line of output.split(/(?<=\n)/)) {
+        yield line;
+      }
+    },
+  };
+}
+
+function createProvider(spec: string): LLMProvider {
+  const [kind, ...rest] = spec.split(':');
+  const model = rest.join(':') || undefined;
+
+  switch (kind) {
+    case 'gemini':
+      return createGeminiProvider(undefined, model);
+    case 'openai':
+      return createOpenAICompatibleProvider(undefined, model);
+    case 'fixture':
+      // fixture:<provider spec> records missing fixtures with that provider
+      return createFixtureProvider(undefined, model ? createProvider(model) : undefined);
+    default:
+      throw new Error(`Unknown LLM provider "${spec}" (expected gemini, openai or fixture)`);
+  }
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Provider configured for a task: LLM_PROVIDER_<TASK>, else LLM_PROVIDER, else Gemini.
+ * Specs are `<provider>[:<model>]`, e.g. `gemini:gemini-2.0-flash` or `openai:llama3.1`.
+ */
+export function getLLMProvider(task: LLMTask): LLMProvider {
+  const spec = TASK_PROVIDER_ENV[task] || DEFAULT_PROVIDER;
+  let provider = providers.get(spec);
+  if (!provider) {
+    provider = createProvider(spec);
+    providers.set(spec, provider);
+    console.log(`🧠 LLM provider for ${task}: ${provider.name}`);
+  }
+  return provider;
+}
@@ -0,0 +1,60 @@
+// lib/services/localStore.ts
+// JSON-file persistence for small local stores (processed invoices, registries)
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+export const DATA_DIR = process.env.TRESORA_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Serializes read-modify-write cycles per store within this process
+const storeLocks = new Map<string, Promise<unknown>>();
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Read a store, returning the fallback if it has not been written yet
+ */
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(storePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace a store's contents (write to a temp file, then rename)
+ */
+export async function writeStore<T>(name: string, data: T): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  const target = storePath(name);
+  const temp = `${target}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(data, null, 2), 'utf8');
+  await rename(temp, target);
+}
+
+/**
+ * Atomically update a store; concurrent updates to the same store run one at a time
+ */
+export async function updateStore<T, R>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => { data: T; result: R }
+): Promise<R> {
+  const previous = storeLocks.get(name) ?? Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const { data, result } = updater(await readStore(name, fallback));
+    await writeStore(name, data);
+    return result;
+  });
+
+  storeLocks.set(name, next);
+  return next;
+}
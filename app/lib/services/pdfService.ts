@@ -2,15 +2,38 @@
 // PDF processing utilities
 
 /**
- * Convert PDF buffer to text (fallback method)
+ * Convert PDF buffer to text using the embedded text layer
  */
 export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<string> {
   try {
     // Dynamic import to handle ESM/CJS compatibility
-    const pdfParse = await import('pdf-parse');
-    const pdfModule = pdfParse as any;
-    const data = await (pdfModule.default || pdfModule)(pdfBuffer);
-    return data.text;
+    const { PDFParse } = await import('pdf-parse');
+    const parser = new PDFParse({ data: new Uint8Array(pdfBuffer) });
+    try {
+      const data = await parser.getText();
+      return data.text;
+    } finally {
+      await parser.destroy();
+    }
+  } catch (error) {
+    console.error('❌ PDF text extraction error:', error);
+    throw new Error('Failed to extract text from PDF');
+  }
+}
+
+/**
+ * Extract the text layer page by page (index 0 is page 1)
+ */
+export async function extractPagesFromPDF(pdfBuffer: Buffer): Promise<string[]> {
+  try {
+    const { PDFParse } = await import('pdf-parse');
+    const parser = new PDFParse({ data: new Uint8Array(pdfBuffer) });
+    try {
+      const data = await parser.getText();
+      return data.pages.map(page => page.text);
+    } finally {
+      await parser.destroy();
+    }
   } catch (error) {
     console.error('❌ PDF text extraction error:', error);
     throw new Error('Failed to extract text from PDF');
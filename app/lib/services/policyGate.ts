@@ -0,0 +1,201 @@
+// lib/services/policyGate.ts
+// Deterministic payment policy applied after the CFO assistant; can only downgrade its verdict
+
+import {
+  BudgetCheck,
+  CFORecommendation,
+  DuplicateInvoiceCheck,
+  InvoiceData,
+  PolicyGateDecision,
+  PolicyGateRuleHit,
+  SecurityScan,
+  VendorCheck,
+} from '@/app/types';
+import { enforceDuplicateReview } from './duplicateDetection';
+import { parseAmountValue, reconcileInvoiceTotals } from './invoiceValidation';
+import { getRiskPolicy } from './riskPolicy';
+import { enforceSanctionsReject } from './sanctionsScreening';
+import { enforceVendorReview, isVendorReviewRequired } from './vendorRegistry';
+
+export interface PolicyGateContext {
+  invoiceData: InvoiceData;
+  securityScan: SecurityScan;
+  duplicateCheck: DuplicateInvoiceCheck | null;
+  vendorCheck: VendorCheck | null;
+  budgetCheck: BudgetCheck | null;
+}
+
+interface GateRule {
+  id: string;
+  // Returns the verdict cap and reason when the rule fires
+  check(context: PolicyGateContext): Omit<PolicyGateRuleHit, 'ruleId'> | null;
+  // Rule-specific wording for the downgrade; the generic downgrade is used otherwise
+  enforce?(recommendation: CFORecommendation, context: PolicyGateContext): CFORecommendation;
+}
+
+const VERDICT_SEVERITY: Record<CFORecommendation['recommendation'], number> = {
+  APPROVE: 0,
+  REVIEW: 1,
+  REJECT: 2,
+};
+
+// Ordered most severe first so the enforcing rule is the first one that caps the verdict
+const GATE_RULES: GateRule[] = [
+  {
+    id: 'sanctioned-address',
+    check: ({ securityScan }) => securityScan.sanctionsMatches.length > 0
+      ? { outcome: 'REJECT', reason: `Payout address is on ${securityScan.sanctionsMatches.map(match => match.list).join(', ')}` }
+      : null,
+    enforce: (recommendation, { securityScan }) => enforceSanctionsReject(recommendation, securityScan),
+  },
+  {
+    id: 'malicious-label',
+    check: ({ securityScan }) => securityScan.hasMaliciousLabel
+      ? { outcome: 'REJECT', reason: 'Payout address is flagged as malicious' }
+      : null,
+  },
+  {
+    id: 'risk-reject-threshold',
+    check: ({ securityScan }) => {
+      const { reject } = getRiskPolicy().thresholds;
+      return securityScan.riskScore >= reject
+        ? { outcome: 'REJECT', reason: `Risk score ${securityScan.riskScore}/100 is at or above the ${reject} reject threshold` }
+        : null;
+    },
+  },
+  {
+    id: 'incomplete-screening',
+    check: ({ securityScan }) => securityScan.screeningErrors.length > 0
+      ? { outcome: 'REVIEW', reason: `Sanctions screening incomplete (${securityScan.screeningErrors.join('; ')})` }
+      : null,
+  },
+  {
+    id: 'incomplete-payout-chain-scan',
+    check: ({ securityScan }) => securityScan.payoutChainError
+      ? { outcome: 'REVIEW', reason: `Payout chain scan incomplete (${securityScan.payoutChainError})` }
+      : null,
+  },
+  {
+    // The duplicate and vendor rules below pass when their check is missing, so a missing check holds the payment
+    id: 'incomplete-invoice-checks',
+    check: ({ duplicateCheck, vendorCheck }) => {
+      const missing = [!duplicateCheck && 'duplicate check', !vendorCheck && 'vendor check'].filter(Boolean);
+      return missing.length > 0
+        ? { outcome: 'REVIEW', reason: `Invoice checks did not run: ${missing.join(', ')}` }
+        : null;
+    },
+  },
+  {
+    id: 'risk-review-threshold',
+    check: ({ securityScan }) => {
+      const { review } = getRiskPolicy().thresholds;
+      return securityScan.riskScore >= review
+        ? { outcome: 'REVIEW', reason: `Risk score ${securityScan.riskScore}/100 is at or above the ${review} review threshold` }
+        : null;
+    },
+  },
+  {
+    id: 'amount-over-limit',
+    check: ({ invoiceData }) => {
+      const limit = getRiskPolicy().gate?.maxAutoApproveAmount;
+      const amount = parseAmountValue(invoiceData.amount);
+      return limit && amount !== null && amount > limit
+        ? { outcome: 'REVIEW', reason: `Amount ${invoiceData.amount} exceeds the ${limit} auto-approve limit` }
+        : null;
+    },
+  },
+  {
+    id: 'over-budget',
+    check: ({ budgetCheck }) => budgetCheck?.overBudget
+      ? { outcome: 'REVIEW', reason: budgetCheck.issues[0] ?? 'Invoice exceeds a monthly budget' }
+      : null,
+  },
+  {
+    id: 'unverified-contract',
+    check: ({ securityScan }) => {
+      const isSafe = securityScan.contractInspections.length > 0
+        && securityScan.contractInspections.every(contract => contract.isSafe);
+      return securityScan.isContract && !securityScan.isVerified && !isSafe
+        ? { outcome: 'REVIEW', reason: 'Payout address is an unverified contract' }
+        : null;
+    },
+  },
+  {
+    id: 'vendor-address-mismatch',
+    check: ({ vendorCheck }) => vendorCheck && isVendorReviewRequired(vendorCheck)
+      ? { outcome: 'REVIEW', reason: 'Payout address does not match the vendor registry' }
+      : null,
+    enforce: (recommendation, { vendorCheck }) => enforceVendorReview(recommendation, vendorCheck),
+  },
+  {
+    id: 'duplicate-invoice',
+    check: ({ duplicateCheck }) => duplicateCheck?.isDuplicate
+      ? { outcome: 'REVIEW', reason: `Possible duplicate of ${duplicateCheck.original?.fileName ?? 'an earlier invoice'}` }
+      : null,
+    enforce: (recommendation, { duplicateCheck }) => enforceDuplicateReview(recommendation, duplicateCheck),
+  },
+  {
+    id: 'totals-mismatch',
+    check: ({ invoiceData }) => reconcileInvoiceTotals(invoiceData).isConsistent
+      ? null
+      : { outcome: 'REVIEW', reason: 'Invoice line items, tax and discounts do not add up to the amount due' },
+  },
+];
+
+function downgrade(recommendation: CFORecommendation, hit: PolicyGateRuleHit): CFORecommendation {
+  const detail = `Policy gate (${hit.ruleId}): ${hit.reason}`;
+
+  if (VERDICT_SEVERITY[recommendation.recommendation] >= VERDICT_SEVERITY[hit.outcome]) {
+    return { ...recommendation, details: [detail, ...recommendation.details] };
+  }
+
+  return {
+    recommendation: hit.outcome,
+    summary: `${hit.reason} - ${hit.outcome === 'REJECT' ? 'payment blocked' : 'manual review required'}`,
+    riskLevel: hit.outcome === 'REJECT' || recommendation.riskLevel === 'HIGH' ? 'HIGH' : 'MEDIUM',
+    details: [detail, ...recommendation.details],
+  };
+}
+
+/**
+ * Apply the hard payment rules to the LLM recommendation.
+ * Rules can only make the verdict stricter; the decision records which rule set it.
+ */
+export function applyPolicyGate(
+  llmRecommendation: CFORecommendation,
+  context: PolicyGateContext
+): { recommendation: CFORecommendation; decision: PolicyGateDecision } {
+  const firedRules: PolicyGateRuleHit[] = [];
+  let recommendation = llmRecommendation;
+  let enforcedBy: string | null = null;
+
+  for (const rule of GATE_RULES) {
+    const result = rule.check(context);
+    if (!result) continue;
+
+    const hit = { ruleId: rule.id, ...result };
+    firedRules.push(hit);
+
+    const before = recommendation.recommendation;
+    recommendation = rule.enforce ? rule.enforce(recommendation, context) : downgrade(recommendation, hit);
+    if (VERDICT_SEVERITY[recommendation.recommendation] > VERDICT_SEVERITY[before]) {
+      enforcedBy ??= rule.id;
+    }
+  }
+
+  const overridden = recommendation.recommendation !== llmRecommendation.recommendation;
+  if (overridden) {
+    console.log(`🚦 Policy gate: ${llmRecommendation.recommendation} → ${recommendation.recommendation} (${enforcedBy})`);
+  }
+
+  return {
+    recommendation,
+    decision: {
+      llmRecommendation,
+      finalVerdict: recommendation.recommendation,
+      overridden,
+      enforcedBy: overridden ? enforcedBy : null,
+      firedRules,
+    },
+  };
+}
@@ -0,0 +1,228 @@
+// lib/services/riskPolicy.ts
+// Declarative wallet risk policy: scoring rules, weights and decision thresholds
+
+import { readFileSync } from 'fs';
+import path from 'path';
+
+import { RiskScoreContribution, RiskThresholds } from '@/app/types';
+
+const RISK_POLICY_PATH = process.env.RISK_POLICY_PATH || path.join(process.cwd(), 'config', 'risk-policy.json');
+
+/**
+ * Facts about an address that policy rules can match on
+ */
+export interface RiskFactors {
+  isContract: boolean;
+  isVerified: boolean;
+  isProxy: boolean;               // EIP-1967 upgradeable proxy
+  isErc20: boolean;               // Token contract that would swallow a transfer
+  isSafe: boolean;                // Safe multisig
+  hasMaliciousLabel: boolean;
+  hasSuspiciousLabel: boolean;
+  transactionCount: number;
+  labelCount: number;
+  walletAgeDays: number | null;   // null when the first transaction is unknown
+  lookAlikeCount: number;
+  sanctionsMatchCount: number;
+  mixerExposureCount: number;     // Mixers within two hops of the address
+  knownBadExposureCount: number;  // Watchlisted or sanctioned addresses within two hops
+  freshDrainerCount: number;      // Freshly funded pass-through wallets (address or its sinks)
+}
+
+type NumericFactor = { [K in keyof RiskFactors]: RiskFactors[K] extends number | null ? K : never }[keyof RiskFactors];
+type BooleanFactor = { [K in keyof RiskFactors]: RiskFactors[K] extends boolean ? K : never }[keyof RiskFactors];
+
+interface NumericCondition {
+  eq?: number;
+  gte?: number;
+  lt?: number;
+}
+
+/**
+ * A rule fires when every condition in `when` holds.
+ * It either adds `weight` points or pins the score with `setScore`.
+ */
+export interface RiskRule {
+  id: string;
+  label: string;
+  when: Partial<Record<BooleanFactor, boolean> & Record<NumericFactor, NumericCondition>>;
+  weight?: number;
+  setScore?: number;
+}
+
+export interface RiskPolicy {
+  thresholds: RiskThresholds;
+  gate?: {
+    maxAutoApproveAmount?: number | null;  // Larger invoices always need manual review
+  };
+  rules: RiskRule[];
+}
+
+const BOOLEAN_FACTORS: BooleanFactor[] = [
+  'isContract',
+  'isVerified',
+  'isProxy',
+  'isErc20',
+  'isSafe',
+  'hasMaliciousLabel',
+  'hasSuspiciousLabel',
+];
+const NUMERIC_FACTORS: NumericFactor[] = [
+  'transactionCount',
+  'labelCount',
+  'walletAgeDays',
+  'lookAlikeCount',
+  'sanctionsMatchCount',
+  'mixerExposureCount',
+  'knownBadExposureCount',
+  'freshDrainerCount',
+];
+
+let loadedPolicy: RiskPolicy | null = null;
+
+function validateRiskPolicy(policy: RiskPolicy): string | null {
+  const { review, reject } = policy.thresholds ?? {};
+  if (typeof review !== 'number' || typeof reject !== 'number' || review > reject) {
+    return 'thresholds.review and thresholds.reject must be numbers with review <= reject';
+  }
+  const maxAmount = policy.gate?.maxAutoApproveAmount;
+  if (maxAmount !== undefined && maxAmount !== null && (typeof maxAmount !== 'number' || maxAmount <= 0)) {
+    return 'gate.maxAutoApproveAmount must be a positive number or null';
+  }
+  if (!Array.isArray(policy.rules)) {
+    return 'rules must be an array';
+  }
+
+  for (const rule of policy.rules) {
+    if (!rule.id || !rule.label) {
+      return 'every rule needs an id and a label';
+    }
+    if (typeof rule.weight !== 'number' && typeof rule.setScore !== 'number') {
+      return `rule "${rule.id}" needs a weight or a setScore`;
+    }
+    for (const factor of Object.keys(rule.when ?? {})) {
+      if (![...BOOLEAN_FACTORS, ...NUMERIC_FACTORS].includes(factor as keyof RiskFactors)) {
+        return `rule "${rule.id}" uses unknown factor "${factor}"`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The active risk policy, read from RISK_POLICY_PATH on first use
+ */
+export function getRiskPolicy(): RiskPolicy {
+  if (loadedPolicy) {
+    return loadedPolicy;
+  }
+
+  const policy = JSON.parse(readFileSync(RISK_POLICY_PATH, 'utf8')) as RiskPolicy;
+  const invalid = validateRiskPolicy(policy);
+  if (invalid) {
+    throw new Error(`Invalid risk policy (${RISK_POLICY_PATH}): ${invalid}`);
+  }
+
+  loadedPolicy = policy;
+  console.log(`📐 Loaded risk policy: ${policy.rules.length} rules, review ≥ ${policy.thresholds.review}, reject ≥ ${policy.thresholds.reject}`);
+  return policy;
+}
+
+function matchesNumeric(value: number | null, condition: NumericCondition): boolean {
+  if (value === null) {
+    return false;
+  }
+  if (condition.eq !== undefined && value !== condition.eq) return false;
+  if (condition.gte !== undefined && value < condition.gte) return false;
+  if (condition.lt !== undefined && value >= condition.lt) return false;
+  return true;
+}
+
+function ruleMatches(rule: RiskRule, factors: RiskFactors): boolean {
+  return Object.entries(rule.when ?? {}).every(([factor, condition]) => {
+    const value = factors[factor as keyof RiskFactors];
+    return typeof condition === 'boolean'
+      ? value === condition
+      : matchesNumeric(value as number | null, condition as NumericCondition);
+  });
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+/**
+ * Score an address against the policy.
+ * Returns score 0-100 plus the rules that contributed to it.
+ */
+export function evaluateRiskPolicy(factors: RiskFactors): { score: number; breakdown: RiskScoreContribution[] } {
+  const firedRules = getRiskPolicy().rules.filter(rule => ruleMatches(rule, factors));
+
+  // A pinned score (e.g. sanctions hit) replaces the weighted sum
+  const pinned = firedRules
+    .filter(rule => typeof rule.setScore === 'number')
+    .sort((a, b) => (b.setScore ?? 0) - (a.setScore ?? 0))[0];
+  if (pinned) {
+    const points = pinned.setScore ?? 0;
+    return {
+      score: clampScore(points),
+      breakdown: [{ ruleId: pinned.id, label: pinned.label, points, setsScore: true }],
+    };
+  }
+
+  const breakdown = firedRules.map(rule => ({
+    ruleId: rule.id,
+    label: rule.label,
+    points: rule.weight ?? 0,
+    setsScore: false,
+  }));
+
+  return {
+    score: clampScore(breakdown.reduce((sum, contribution) => sum + contribution.points, 0)),
+    breakdown,
+  };
+}
+
+/**
+ * Get recommendation based on risk score and the policy thresholds
+ */
+export function getRecommendationFromScore(score: number): {
+  recommendation: 'APPROVE' | 'REVIEW' | 'REJECT';
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+} {
+  const { thresholds } = getRiskPolicy();
+  if (score >= thresholds.reject) {
+    return { recommendation: 'REJECT', riskLevel: 'HIGH' };
+  } else if (score >= thresholds.review) {
+    return { recommendation: 'REVIEW', riskLevel: 'MEDIUM' };
+  } else {
+    return { recommendation: 'APPROVE', riskLevel: 'LOW' };
+  }
+}
+
+/**
+ * Threshold lines for LLM prompts, kept in sync with the policy
+ */
+export function formatRiskThresholds(): string[] {
+  const { thresholds } = getRiskPolicy();
+  return [
+    `0-${thresholds.review - 1}: LOW risk → APPROVE`,
+    `${thresholds.review}-${thresholds.reject - 1}: MEDIUM risk → REVIEW`,
+    `${thresholds.reject}+: HIGH risk → REJECT`,
+  ];
+}
+
+/**
+ * One-line score explanation, e.g. "+40 Contract is not verified, +5 No explorer labels"
+ */
+export function formatRiskBreakdown(breakdown: RiskScoreContribution[]): string {
+  if (breakdown.length === 0) {
+    return 'No risk rules fired';
+  }
+  return breakdown
+    .map(contribution => contribution.setsScore
+      ? `=${contribution.points} ${contribution.label}`
+      : `${contribution.points >= 0 ? '+' : ''}${contribution.points} ${contribution.label}`)
+    .join(', ');
+}
@@ -0,0 +1,166 @@
+// lib/services/sanctionsScreening.ts
+// Pluggable sanctions / deny-list screening for payout addresses
+
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+
+import { CFORecommendation, ScreeningMatch, SecurityScan } from '@/app/types';
+
+export const BLOCKLIST_PATH = process.env.SANCTIONS_BLOCKLIST_PATH || path.join(process.cwd(), 'config', 'blocklist.json');
+
+/**
+ * A source of sanctioned or denied addresses.
+ * Providers return every list entry matching the address (empty if clean).
+ */
+export interface ScreeningProvider {
+  name: string;
+  screen(address: string): Promise<ScreeningMatch[]>;
+}
+
+export interface ScreeningResult {
+  matches: ScreeningMatch[];
+  errors: string[];            // Providers that could not be consulted
+}
+
+// Local blocklist file format (the OFAC SDN list is written by scripts/update-sanctions-blocklist.ts)
+export interface BlocklistFile {
+  lists: {
+    name: string;
+    required?: boolean;        // Screening is incomplete while this list has no entries
+    source?: string | null;    // Where the entries were loaded from
+    updatedAt?: string | null; // ISO time of the last load
+    entries: { address: string; label?: string }[];
+  }[];
+}
+
+interface BlocklistIndex {
+  addresses: Map<string, { list: string; label: string }[]>;
+  emptyRequiredLists: string[];
+}
+
+/**
+ * Built-in provider backed by a local JSON blocklist
+ * (OFAC SDN crypto addresses plus our own deny list).
+ * The file is re-read whenever it changes on disk.
+ */
+export function createLocalBlocklistProvider(filePath: string = BLOCKLIST_PATH): ScreeningProvider {
+  // Index promise is shared so concurrent screenings read the file once
+  let cached: { mtimeMs: number; index: Promise<BlocklistIndex> } | null = null;
+
+  async function readIndex(): Promise<BlocklistIndex> {
+    const blocklist = JSON.parse(await readFile(filePath, 'utf8')) as BlocklistFile;
+    const addresses = new Map<string, { list: string; label: string }[]>();
+    const emptyRequiredLists: string[] = [];
+
+    for (const list of blocklist.lists ?? []) {
+      if (list.required && !list.entries?.length) {
+        emptyRequiredLists.push(list.name);
+      }
+      for (const entry of list.entries ?? []) {
+        const key = entry.address.toLowerCase();
+        addresses.set(key, [...(addresses.get(key) ?? []), { list: list.name, label: entry.label || list.name }]);
+      }
+    }
+
+    console.log(`🛡️ Loaded blocklist: ${addresses.size} addresses from ${filePath}`);
+    if (emptyRequiredLists.length > 0) {
+      console.warn(`⚠️ Blocklist ${emptyRequiredLists.join(', ')} has no entries - run \`pnpm update-sanctions\``);
+    }
+    return { addresses, emptyRequiredLists };
+  }
+
+  async function loadIndex() {
+    const { mtimeMs } = await stat(filePath);
+    if (cached?.mtimeMs !== mtimeMs) {
+      const index = readIndex();
+      index.catch(() => {
+        cached = null;
+      });
+      cached = { mtimeMs, index };
+    }
+    return cached.index;
+  }
+
+  return {
+    name: 'local-blocklist',
+    async screen(address: string) {
+      const { addresses, emptyRequiredLists } = await loadIndex();
+      const matches = (addresses.get(address.toLowerCase()) ?? []).map(({ list, label }) => ({
+        provider: 'local-blocklist',
+        list,
+        address,
+        label,
+      }));
+
+      // A hit on another list still counts; otherwise an unloaded list means the address was not screened
+      if (matches.length === 0 && emptyRequiredLists.length > 0) {
+        throw new Error(`${emptyRequiredLists.join(', ')} list not loaded`);
+      }
+      return matches;
+    },
+  };
+}
+
+const providers: ScreeningProvider[] = [createLocalBlocklistProvider()];
+
+/**
+ * Add a screening provider (e.g. a hosted sanctions API) alongside the local blocklist
+ */
+export function registerScreeningProvider(provider: ScreeningProvider): void {
+  providers.push(provider);
+}
+
+/**
+ * Screen an address with every registered provider.
+ * A failing provider is reported in `errors` rather than failing the scan;
+ * the policy gate holds any payment with screening errors for review.
+ */
+export async function screenAddress(address: string): Promise<ScreeningResult> {
+  const results = await Promise.allSettled(providers.map(provider => provider.screen(address)));
+
+  const matches: ScreeningMatch[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, idx) => {
+    if (result.status === 'fulfilled') {
+      matches.push(...result.value);
+    } else {
+      const reason = result.reason as NodeJS.ErrnoException;
+      errors.push(
+        reason?.code === 'ENOENT'
+          ? `${providers[idx].name}: blocklist file not found`
+          : `${providers[idx].name}: ${reason?.message ?? 'unavailable'}`
+      );
+    }
+  });
+
+  if (matches.length > 0) {
+    console.log(`🚨 Screening match for ${address}: ${matches.map(m => m.list).join(', ')}`);
+  }
+
+  return { matches, errors };
+}
+
+/**
+ * Force REJECT when the payout address is on a sanctions or deny list,
+ * regardless of the LLM recommendation.
+ */
+export function enforceSanctionsReject(
+  recommendation: CFORecommendation,
+  securityScan: SecurityScan | null
+): CFORecommendation {
+  const matches = securityScan?.sanctionsMatches ?? [];
+  if (matches.length === 0) {
+    return recommendation;
+  }
+
+  return {
+    recommendation: 'REJECT',
+    summary: `Payout address is on ${matches.map(match => match.list).join(', ')} - payment blocked`,
+    riskLevel: 'HIGH',
+    details: [
+      ...matches.map(match => `Screening: ${match.list} - ${match.label}`),
+      ...recommendation.details,
+    ],
+  };
+}
@@ -0,0 +1,169 @@
+// lib/services/structuredOutput.ts
+// Schema-validated JSON output from the LLM providers, with re-prompting when the model returns invalid output
+
+import type { ResponseSchema } from '@google/generative-ai';
+import { SchemaType } from '@google/generative-ai';
+
+import type { LLMMessage, LLMProvider, LLMTask } from './llmProvider';
+
+// Extra attempts after the first invalid response (LLM_OUTPUT_MAX_RETRIES)
+const MAX_OUTPUT_RETRIES = Math.max(0, Number.parseInt(process.env.LLM_OUTPUT_MAX_RETRIES ?? '2', 10) || 0);
+
+/**
+ * Thrown when the model still returns output that does not match the schema after all retries
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly task: string,
+    readonly issues: string[],
+    readonly attempts: number,
+    readonly rawOutput: string
+  ) {
+    super(`${task} returned invalid output after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Check a parsed value against a response schema (Gemini's OpenAPI subset). Returns one line per problem.
+ */
+export function validateAgainstSchema(value: unknown, schema: ResponseSchema, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is required`];
+  }
+
+  switch (schema.type) {
+    case SchemaType.STRING: {
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.format === 'enum' && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')} (got ${JSON.stringify(value)})`];
+      }
+      return [];
+    }
+    case SchemaType.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`];
+    case SchemaType.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case SchemaType.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case SchemaType.ARRAY: {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path} must have at most ${schema.maxItems} item(s)`);
+      }
+      value.forEach((item, index) => issues.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`)));
+      return issues;
+    }
+    case SchemaType.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return issues;
+    }
+  }
+}
+
+/**
+ * Pull the JSON object out of a model response (fenced ```json block or bare object) and validate it
+ */
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: ResponseSchema
+): { ok: true; value: T } | { ok: false; issues: string[] } {
+  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { ok: false, issues: ['Response contains no JSON object'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+  } catch (error) {
+    return { ok: false, issues: [`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const issues = validateAgainstSchema(value, schema);
+  return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues };
+}
+
+interface StructuredRequest {
+  label: string;                 // Shown in logs and errors, e.g. 'CFO recommendation'
+  task: LLMTask;
+  provider: LLMProvider;
+  messages: LLMMessage[];        // The original request; corrections are appended on retry
+  schema: ResponseSchema;
+  temperature?: number;
+  maxOutputTokens?: number;
+  initialOutput?: string;        // Already-generated text (e.g. a streamed response) to validate first
+}
+
+/**
+ * Get schema-valid JSON from an LLM provider. Invalid output is sent back with the validation
+ * issues and the model is asked again in JSON mode, up to LLM_OUTPUT_MAX_RETRIES times.
+ */
+export async function generateStructured<T>({
+  label,
+  task,
+  provider,
+  messages,
+  schema,
+  temperature,
+  maxOutputTokens,
+  initialOutput,
+}: StructuredRequest): Promise<T> {
+  const totalAttempts = MAX_OUTPUT_RETRIES + 1;
+  let conversation = messages;
+  let output = initialOutput;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= totalAttempts; attempt++) {
+    if (output === undefined) {
+      output = await provider.generate({
+        task,
+        messages: conversation,
+        temperature,
+        maxOutputTokens,
+        responseSchema: schema,
+      });
+    }
+
+    const parsed = parseStructuredOutput<T>(output, schema);
+    if (parsed.ok) {
+      if (attempt > 1) {
+        console.log(`✅ ${label}: valid output on attempt ${attempt}`);
+      }
+      return parsed.value;
+    }
+
+    issues = parsed.issues;
+    console.warn(`⚠️ ${label}: invalid output (attempt ${attempt}/${totalAttempts}): ${issues.join('; ')}`);
+
+    if (attempt === totalAttempts) break;
+
+    conversation = [
+      ...conversation,
+      { role: 'model', parts: [{ text: output }] },
+      {
+        role: 'user',
+        parts: [{
+          text: `Your previous response did not match the required JSON schema:\n${issues.map(issue => `- ${issue}`).join('\n')}\n` +
+            'Return ONLY the corrected JSON object.',
+        }],
+      },
+    ];
+    output = undefined;
+  }
+
+  throw new StructuredOutputError(label, issues, totalAttempts, output ?? '');
+}
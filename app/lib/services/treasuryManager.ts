@@ -1,13 +1,19 @@
 // lib/services/treasuryManager.ts
 // Treasury Manager — checks Arc balance, plans swap+bridge if needed, executes after approval
 
+import { randomUUID } from 'crypto';
 import { getWalletTokenBalances, executeContractCall, executeTransfer } from './circleService';
-import { InvoiceData } from '@/app/types';
-import { BridgeKit } from '@circle-fin/bridge-kit';
+import { beginPlanExecution, completedStepIds, saveStepState, StepExecutionState } from './executionState';
+import { getChainClient, SCAN_CHAIN_CONFIGS } from './explorerClient';
+import { InvoiceData, PlanSimulation, StepSimulation, SwapQuote } from '@/app/types';
+import { BridgeKit, type BridgeResult } from '@circle-fin/bridge-kit';
+import { ArcTestnet, EthereumSepolia } from '@circle-fin/bridge-kit/chains';
 import { createCircleWalletsAdapter } from '@circle-fin/adapter-circle-wallets';
 import {
+  BaseError,
   createPublicClient,
   encodeFunctionData,
+  erc20Abi,
   formatUnits,
   http,
   parseUnits,
@@ -32,12 +38,21 @@ const POOL_FEE = 3000;
 const TICK_SPACING = 60;
 const HOOKS = '0x0000000000000000000000000000000000000000';
 const SLIPPAGE_BPS = 500; // 5%
+
+// Execution re-quotes the swap; it stops for re-approval when the plan's quote is older than this,
+// or when the new quote moved further than the tolerance (basis points of the quoted ETH input)
+const QUOTE_MAX_AGE_MINUTES = Math.max(1, Number(process.env.QUOTE_MAX_AGE_MINUTES || '60'));
+const QUOTE_MAX_DEVIATION_BPS = Math.max(0, Number(process.env.QUOTE_MAX_DEVIATION_BPS || '200'));
 const ARC_GAS_BUFFER = 0.01; // Reserve 0.01 USDC for Arc gas fees
 
 // Circle token IDs on Arc Testnet
 const ARC_USDC_TOKEN_ID = '15dc2b5d-0994-58b0-bf8c-3a0501148ee8';
 const ARC_EURC_TOKEN_ID = '4ea52a96-e6ae-56dc-8336-385bb238755f';
 
+// ERC-20 contracts on Arc Testnet (USDC is the native token, exposed through this interface with 6 decimals)
+const ARC_USDC_ADDRESS = '0x3600000000000000000000000000000000000000';
+const ARC_EURC_ADDRESS = '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a';
+
 const POOL_KEY = {
   currency0: NATIVE,
   currency1: USDC_SEPOLIA,
@@ -116,11 +131,15 @@ export interface TreasuryPlan {
   sepoliaUsdcBalance: string;  // USDC on Sepolia
   swapNeeded: boolean;
   swapQuoteEth: string | null; // ETH needed for swap (with slippage)
+  swapQuote?: SwapQuote | null; // the quote behind swapQuoteEth, with when and at which block it was taken
   bridgeNeeded: boolean;
   bridgeAmount: string | null; // USDC to bridge from Sepolia → Arc
   steps: ExecutionStep[];
   canExecute: boolean;
   reason?: string;
+  planId?: string;             // set when the plan is issued (treasuryPlans.ts)
+  expiresAt?: string;
+  simulation?: PlanSimulation | null;
 }
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
@@ -153,7 +172,24 @@ function findTokenBalance(balances: any[], symbol: string): string {
 
 // ── Build Plan (no execution) ───────────────────────────────────────────────
 
+/**
+ * Build the plan for an invoice. Executable plans are simulated before they are returned;
+ * a plan whose simulation fails cannot be executed.
+ */
 export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<TreasuryPlan> {
+  const plan = await planSteps(invoiceData);
+  if (!plan.canExecute) {
+    return plan;
+  }
+
+  const simulation = await simulateTreasuryPlan(plan);
+  const failed = simulation.steps.find(step => step.status === 'failed');
+  return failed
+    ? { ...plan, simulation, canExecute: false, reason: `Simulation of the ${failed.stepId} step failed: ${failed.error}` }
+    : { ...plan, simulation };
+}
+
+async function planSteps(invoiceData: InvoiceData): Promise<TreasuryPlan> {
   const parsed = parseInvoiceCurrency(invoiceData.amount);
   if (!parsed) {
     return {
@@ -249,6 +285,7 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
 
   let sepoliaEthBalance = '0';
   let swapQuoteEth: string | null = null;
+  let swapQuote: SwapQuote | null = null;
   let swapNeeded = false;
 
   if (needToSwap > 0) {
@@ -262,8 +299,9 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
     });
     sepoliaEthBalance = formatUnits(ethBalanceWei, 18);
 
-    // Get Uniswap v4 quote
+    // Get Uniswap v4 quote, pinned to a block so it can be traced later
     const swapAmountUsdc = parseUnits(needToSwap.toFixed(6), 6);
+    const blockNumber = await publicClient.getBlockNumber();
     const quote = await publicClient.readContract({
       address: V4_QUOTER as `0x${string}`,
       abi: V4_QUOTER_ABI,
@@ -276,11 +314,19 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
           hookData: '0x',
         },
       ],
+      blockNumber,
     });
 
     const amountIn = quote[0];
     const maxAmountIn = (amountIn * BigInt(10000 + SLIPPAGE_BPS)) / BigInt(10000);
     swapQuoteEth = formatUnits(maxAmountIn, 18);
+    swapQuote = {
+      amountInEth: formatUnits(amountIn, 18),
+      maxAmountInEth: swapQuoteEth,
+      amountOutUsdc: formatUnits(swapAmountUsdc, 6),
+      quotedAt: new Date().toISOString(),
+      blockNumber: blockNumber.toString(),
+    };
 
     if (maxAmountIn > ethBalanceWei) {
       return {
@@ -294,6 +340,7 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
         sepoliaUsdcBalance,
         swapNeeded: true,
         swapQuoteEth,
+        swapQuote,
         bridgeNeeded: true,
         bridgeAmount: deficit.toFixed(6),
         steps: [],
@@ -338,6 +385,7 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
     sepoliaUsdcBalance,
     swapNeeded,
     swapQuoteEth,
+    swapQuote,
     bridgeNeeded: true,
     bridgeAmount,
     steps,
@@ -345,138 +393,457 @@ export async function buildTreasuryPlan(invoiceData: InvoiceData): Promise<Treas
   };
 }
 
+// ── Simulate Plan (dry run, nothing is submitted) ───────────────────────────
+
+export interface SwapCall {
+  args: readonly [`0x${string}`, `0x${string}`[], bigint];
+  maxAmountIn: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Quote the swap now and build the Universal Router call for it
+ */
+async function buildSwapCall(plan: TreasuryPlan): Promise<SwapCall> {
+  const publicClient = getPublicClient();
+  const needToSwap = parseFloat(plan.deficit) - parseFloat(plan.sepoliaUsdcBalance);
+  const swapAmountUsdc = parseUnits(needToSwap.toFixed(6), 6);
+
+  // Re-quote (price may have changed)
+  const quote = await publicClient.readContract({
+    address: V4_QUOTER as `0x${string}`,
+    abi: V4_QUOTER_ABI,
+    functionName: 'quoteExactOutputSingle',
+    args: [{ poolKey: POOL_KEY, zeroForOne: true, exactAmount: swapAmountUsdc, hookData: '0x' }],
+  });
+
+  const amountIn = quote[0];
+  const maxAmountIn = (amountIn * BigInt(10000 + SLIPPAGE_BPS)) / BigInt(10000);
+
+  // Build calldata
+  const v4Planner = new V4Planner();
+  v4Planner.addAction(Actions.SWAP_EXACT_OUT_SINGLE, [
+    {
+      poolKey: POOL_KEY,
+      zeroForOne: true,
+      amountOut: swapAmountUsdc.toString(),
+      amountInMaximum: maxAmountIn.toString(),
+      hookData: '0x',
+    },
+  ]);
+  v4Planner.addAction(Actions.SETTLE_ALL, [NATIVE, maxAmountIn.toString()]);
+  v4Planner.addAction(Actions.TAKE_ALL, [USDC_SEPOLIA, 0]);
+
+  const routePlanner = new RoutePlanner();
+  routePlanner.addCommand(CommandType.V4_SWAP, [v4Planner.finalize()]);
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+  return {
+    args: [routePlanner.commands as `0x${string}`, routePlanner.inputs as `0x${string}`[], deadline],
+    maxAmountIn,
+    amountIn,
+    amountOut: swapAmountUsdc,
+  };
+}
+
+function describeSimulationError(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : 'Simulation failed';
+}
+
+async function simulateSwap(swap: SwapCall): Promise<StepSimulation> {
+  const publicClient = getPublicClient();
+  const request = {
+    account: SEPOLIA_WALLET_ADDRESS as `0x${string}`,
+    address: UNIVERSAL_ROUTER as `0x${string}`,
+    abi: UNIVERSAL_ROUTER_ABI,
+    functionName: 'execute' as const,
+    args: swap.args,
+    value: swap.maxAmountIn,
+  };
+
+  try {
+    await publicClient.simulateContract(request);
+    const gas = await publicClient.estimateContractGas(request);
+    return {
+      stepId: 'swap',
+      status: 'success',
+      gasEstimate: gas.toString(),
+      balanceChanges: [
+        { chain: 'ETH-SEPOLIA', address: SEPOLIA_WALLET_ADDRESS, token: 'ETH', amount: `-${formatUnits(swap.amountIn, 18)}` },
+        { chain: 'ETH-SEPOLIA', address: SEPOLIA_WALLET_ADDRESS, token: 'USDC', amount: formatUnits(swap.amountOut, 6) },
+      ],
+      error: null,
+      note: `Up to ${formatUnits(swap.maxAmountIn, 18)} ETH with ${SLIPPAGE_BPS / 100}% slippage`,
+    };
+  } catch (error) {
+    return { stepId: 'swap', status: 'failed', gasEstimate: null, balanceChanges: [], error: describeSimulationError(error), note: null };
+  }
+}
+
+/**
+ * Simulate the ERC-20 transfer to the recipient on Arc. Before the bridge has run, the Arc wallet's
+ * USDC balance (Arc's native token, exposed as ERC-20) is overridden with the expected post-bridge balance.
+ */
+async function simulateTransfer(plan: TreasuryPlan, withBridgedBalance: boolean): Promise<StepSimulation> {
+  const arcClient = getChainClient(SCAN_CHAIN_CONFIGS['ARC-TESTNET']);
+  const token = plan.invoiceCurrency === 'EURC' ? ARC_EURC_ADDRESS : ARC_USDC_ADDRESS;
+  const bridgedBalance = parseFloat(plan.arcBalance) + parseFloat(plan.bridgeAmount ?? '0');
+  const request = {
+    account: ARC_WALLET_ADDRESS as `0x${string}`,
+    address: token as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'transfer' as const,
+    args: [plan.recipientAddress as `0x${string}`, parseUnits(plan.invoiceAmount, 6)] as const,
+    ...(withBridgedBalance && {
+      stateOverride: [{ address: ARC_WALLET_ADDRESS as `0x${string}`, balance: parseUnits(bridgedBalance.toFixed(6), 18) }],
+    }),
+  };
+
+  try {
+    await arcClient.simulateContract(request);
+    const gas = await arcClient.estimateContractGas(request);
+    return {
+      stepId: 'transfer',
+      status: 'success',
+      gasEstimate: gas.toString(),
+      balanceChanges: [
+        { chain: 'ARC-TESTNET', address: ARC_WALLET_ADDRESS, token: plan.invoiceCurrency, amount: `-${plan.invoiceAmount}` },
+        { chain: 'ARC-TESTNET', address: plan.recipientAddress, token: plan.invoiceCurrency, amount: plan.invoiceAmount },
+      ],
+      error: null,
+      note: withBridgedBalance ? `Simulated with the ${bridgedBalance.toFixed(6)} USDC expected after the bridge` : null,
+    };
+  } catch (error) {
+    return { stepId: 'transfer', status: 'failed', gasEstimate: null, balanceChanges: [], error: describeSimulationError(error), note: null };
+  }
+}
+
+// CCTP runs through Bridge Kit (approve, burn, attestation, mint); only the amounts are checked here
+function simulateBridge(plan: TreasuryPlan, swapOut: bigint | null): StepSimulation {
+  const available = parseFloat(plan.sepoliaUsdcBalance) + (swapOut === null ? 0 : parseFloat(formatUnits(swapOut, 6)));
+  const amount = plan.bridgeAmount ?? '0';
+  const covered = available + 1e-6 >= parseFloat(amount);
+  return {
+    stepId: 'bridge',
+    status: covered ? 'skipped' : 'failed',
+    gasEstimate: null,
+    balanceChanges: [
+      { chain: 'ETH-SEPOLIA', address: SEPOLIA_WALLET_ADDRESS, token: 'USDC', amount: `-${amount}` },
+      { chain: 'ARC-TESTNET', address: ARC_WALLET_ADDRESS, token: 'USDC', amount },
+    ],
+    error: covered ? null : `Sepolia would hold ${available.toFixed(6)} USDC, less than the ${amount} USDC to bridge`,
+    note: 'CCTP burn and mint run through Bridge Kit and are not simulated',
+  };
+}
+
+/**
+ * Dry-run every step of a plan against current chain state: the swap and the Arc transfer are
+ * simulated with eth_call (simulateContract) using the current quote, with gas estimates and the
+ * expected balance changes. `success` is false if any step would revert.
+ */
+export async function simulateTreasuryPlan(plan: TreasuryPlan): Promise<PlanSimulation> {
+  const steps: StepSimulation[] = [];
+  let swapOut: bigint | null = null;
+
+  if (plan.steps.some(s => s.id === 'swap')) {
+    try {
+      const swap = await buildSwapCall(plan);
+      swapOut = swap.amountOut;
+      steps.push(await simulateSwap(swap));
+    } catch (error) {
+      steps.push({ stepId: 'swap', status: 'failed', gasEstimate: null, balanceChanges: [], error: describeSimulationError(error), note: null });
+    }
+  }
+  if (plan.steps.some(s => s.id === 'bridge')) {
+    steps.push(simulateBridge(plan, swapOut));
+  }
+  if (plan.steps.some(s => s.id === 'transfer')) {
+    steps.push(await simulateTransfer(plan, !plan.arcSufficient));
+  }
+
+  const failed = steps.find(step => step.status === 'failed');
+  console.log(failed
+    ? `🧪 Simulation failed at ${failed.stepId}: ${failed.error}`
+    : `🧪 Simulation passed (${steps.map(step => step.stepId).join(', ')})`);
+
+  return { simulatedAt: new Date().toISOString(), success: !failed, steps };
+}
+
+// Throw before submitting a step whose simulation reverts
+function assertSimulated(simulation: StepSimulation): void {
+  if (simulation.status === 'failed') {
+    throw new Error(`Simulation of ${simulation.stepId} reverted, not submitted: ${simulation.error}`);
+  }
+}
+
 // ── Execute Plan (called ONLY after human approval) ─────────────────────────
 
+// Circle reported the transaction as failed or cancelled (it did not move funds)
+class CircleTransactionFailedError extends Error {
+  constructor(readonly transactionId: string, readonly state: string, reason: string) {
+    super(`Transaction ${transactionId} ${state}: ${reason}`);
+    this.name = 'CircleTransactionFailedError';
+  }
+}
+
+// The approved swap quote no longer holds; the payment needs a new plan and fresh sign-off
+export class QuoteGuardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteGuardError';
+  }
+}
+
+/**
+ * Compare the re-quote against the quote the approvers saw: the plan's quote must be younger than
+ * QUOTE_MAX_AGE_MINUTES and the new ETH input within QUOTE_MAX_DEVIATION_BPS of it (either direction)
+ */
+export function guardSwapQuote(plan: TreasuryPlan, swap: SwapCall): void {
+  const quote = plan.swapQuote;
+  if (!quote) {
+    throw new QuoteGuardError('Plan has no recorded swap quote; re-approval required');
+  }
+
+  const ageMinutes = (Date.now() - new Date(quote.quotedAt).getTime()) / 60000;
+  if (ageMinutes > QUOTE_MAX_AGE_MINUTES) {
+    throw new QuoteGuardError(
+      `Swap quote from block ${quote.blockNumber} is ${Math.floor(ageMinutes)} minutes old (max ${QUOTE_MAX_AGE_MINUTES}); re-approval required`
+    );
+  }
+
+  const quoted = parseUnits(quote.amountInEth, 18);
+  const difference = swap.amountIn > quoted ? swap.amountIn - quoted : quoted - swap.amountIn;
+  const deviationBps = quoted > BigInt(0) ? Number((difference * BigInt(10000)) / quoted) : Infinity;
+  if (deviationBps > QUOTE_MAX_DEVIATION_BPS) {
+    throw new QuoteGuardError(
+      `Swap now needs ${formatUnits(swap.amountIn, 18)} ETH, ${(deviationBps / 100).toFixed(2)}% off the approved ` +
+      `${quote.amountInEth} ETH (tolerance ${(QUOTE_MAX_DEVIATION_BPS / 100).toFixed(2)}%); re-approval required`
+    );
+  }
+}
+
+/**
+ * Submit a Circle transaction for a step at most once. A transaction recorded by an earlier
+ * attempt is polled instead of resubmitted (only a failed one is replaced), and the step's
+ * idempotency key makes Circle return the original if the process died before the ID was saved.
+ */
+async function runCircleStep(
+  planId: string,
+  step: StepExecutionState,
+  submit: (idempotencyKey: string) => Promise<{ id: string } | null>
+): Promise<string> {
+  let current = step;
+
+  if (current.circleTransactionId) {
+    try {
+      return await pollTransactionComplete(current.circleTransactionId);
+    } catch (error) {
+      if (!(error instanceof CircleTransactionFailedError)) throw error;
+      console.warn(`⚠️ ${current.stepId}: earlier transaction ${error.transactionId} ${error.state}, submitting a new one`);
+      current = await saveStepState(planId, current.stepId, {
+        status: 'pending',
+        idempotencyKey: randomUUID(),
+        circleTransactionId: null,
+      }) ?? current;
+    }
+  }
+
+  const tx = await submit(current.idempotencyKey);
+  if (!tx) throw new Error(`${current.stepId} transaction failed to submit`);
+  await saveStepState(planId, current.stepId, { status: 'submitted', circleTransactionId: tx.id });
+
+  return pollTransactionComplete(tx.id);
+}
+
+// Bridge Kit result for a transfer whose burn already happened, so retry() continues at the attestation
+function bridgeResultFromBurn(amount: string, burnTxHash: string): BridgeResult {
+  return {
+    amount,
+    token: 'USDC',
+    state: 'pending',
+    provider: 'CCTPV2BridgingProvider',
+    source: { address: SEPOLIA_WALLET_ADDRESS, chain: EthereumSepolia },
+    destination: { address: ARC_WALLET_ADDRESS, chain: ArcTestnet },
+    steps: [
+      { name: 'approve', state: 'success' },
+      { name: 'burn', state: 'success', txHash: burnTxHash },
+    ],
+  };
+}
+
+/**
+ * Execute an issued plan. Step state is persisted per plan, so running the same plan again
+ * skips completed steps, polls submitted transactions and resumes a pending bridge from its burn.
+ * Each transaction is simulated right before it is submitted; `dryRun` only simulates the plan.
+ * A swap whose quote went stale or moved beyond tolerance is not submitted (`requiresReapproval`).
+ */
 export async function executeTreasuryPlan(
   plan: TreasuryPlan,
-  onStepUpdate: (stepId: string, update: Partial<ExecutionStep>) => void
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // 1. Swap (if needed)
-    if (plan.swapNeeded && plan.steps.find(s => s.id === 'swap')) {
-      onStepUpdate('swap', { status: 'running' });
+  onStepUpdate: (stepId: string, update: Partial<ExecutionStep>) => void,
+  options: { dryRun?: boolean } = {}
+): Promise<{ success: boolean; error?: string; requiresReapproval?: boolean; simulation?: PlanSimulation }> {
+  if (options.dryRun) {
+    const simulation = await simulateTreasuryPlan(plan);
+    const failed = simulation.steps.find(step => step.status === 'failed');
+    return { success: simulation.success, error: failed ? `${failed.stepId}: ${failed.error}` : undefined, simulation };
+  }
 
-      const publicClient = getPublicClient();
-      const needToSwap = parseFloat(plan.deficit) - parseFloat(plan.sepoliaUsdcBalance);
-      const swapAmountUsdc = parseUnits(needToSwap.toFixed(6), 6);
+  let currentStepId: string | null = null;
 
-      // Re-quote (price may have changed)
-      const quote = await publicClient.readContract({
-        address: V4_QUOTER as `0x${string}`,
-        abi: V4_QUOTER_ABI,
-        functionName: 'quoteExactOutputSingle',
-        args: [{ poolKey: POOL_KEY, zeroForOne: true, exactAmount: swapAmountUsdc, hookData: '0x' }],
-      });
+  try {
+    if (!plan.planId) throw new Error('Only issued plans can be executed');
+    const planId = plan.planId;
+
+    const execution = await beginPlanExecution(planId, plan.steps.map(s => s.id));
+    const stateOf = (stepId: string) => execution.steps.find(s => s.stepId === stepId)!;
+    const completed = completedStepIds(execution);
+    if (completed.length > 0) {
+      console.log(`🔁 Resuming plan ${planId} (attempt ${execution.attempts}): ${completed.join(', ')} already done`);
+    }
 
-      const amountIn = quote[0];
-      const maxAmountIn = (amountIn * BigInt(10000 + SLIPPAGE_BPS)) / BigInt(10000);
+    // Steps finished by an earlier attempt are reported and skipped
+    const skipIfDone = (stepId: string): boolean => {
+      const state = stateOf(stepId);
+      if (state.status !== 'success') return false;
+      onStepUpdate(stepId, { status: 'success', txHash: state.txHash ?? undefined });
+      return true;
+    };
 
-      // Build calldata
-      const v4Planner = new V4Planner();
-      v4Planner.addAction(Actions.SWAP_EXACT_OUT_SINGLE, [
-        {
-          poolKey: POOL_KEY,
-          zeroForOne: true,
-          amountOut: swapAmountUsdc.toString(),
-          amountInMaximum: maxAmountIn.toString(),
-          hookData: '0x',
-        },
-      ]);
-      v4Planner.addAction(Actions.SETTLE_ALL, [NATIVE, maxAmountIn.toString()]);
-      v4Planner.addAction(Actions.TAKE_ALL, [USDC_SEPOLIA, 0]);
-
-      const routePlanner = new RoutePlanner();
-      routePlanner.addCommand(CommandType.V4_SWAP, [v4Planner.finalize()]);
-
-      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
-      const callData = encodeFunctionData({
-        abi: UNIVERSAL_ROUTER_ABI,
-        functionName: 'execute',
-        args: [
-          routePlanner.commands as `0x${string}`,
-          routePlanner.inputs as `0x${string}`[],
-          deadline,
-        ],
-      });
+    // 1. Swap (if needed)
+    if (plan.swapNeeded && plan.steps.find(s => s.id === 'swap') && !skipIfDone('swap')) {
+      currentStepId = 'swap';
+      onStepUpdate('swap', { status: 'running' });
 
-      const swapTx = await executeContractCall({
-        walletId: SEPOLIA_WALLET_ID,
-        contractAddress: UNIVERSAL_ROUTER,
-        callData: callData as `0x${string}`,
-        amount: `0x${maxAmountIn.toString(16)}`,
+      const txHash = await runCircleStep(planId, stateOf('swap'), async idempotencyKey => {
+        const swap = await buildSwapCall(plan);
+        guardSwapQuote(plan, swap);
+        assertSimulated(await simulateSwap(swap));
+
+        const callData = encodeFunctionData({
+          abi: UNIVERSAL_ROUTER_ABI,
+          functionName: 'execute',
+          args: swap.args,
+        });
+
+        return executeContractCall({
+          walletId: SEPOLIA_WALLET_ID,
+          contractAddress: UNIVERSAL_ROUTER,
+          callData,
+          amount: `0x${swap.maxAmountIn.toString(16)}`,
+          idempotencyKey,
+        });
       });
 
-      if (!swapTx) throw new Error('Swap transaction failed to submit');
-
-      // Poll for completion
-      const txHash = await pollTransactionComplete(swapTx.id);
+      await saveStepState(planId, 'swap', { status: 'success', txHash, error: null });
       onStepUpdate('swap', { status: 'success', txHash });
     }
 
     // 2. Bridge (if needed)
     if (plan.bridgeNeeded && plan.bridgeAmount && plan.steps.find(s => s.id === 'bridge')) {
-      onStepUpdate('bridge', { status: 'running' });
-
-      const kit = new BridgeKit();
-      const adapter = createCircleWalletsAdapter({
-        apiKey: process.env.CIRCLE_API_KEY!,
-        entitySecret: process.env.CIRCLE_ENTITY_SECRET!,
-      });
-
-      const bridgeResult = await kit.bridge({
-        from: {
-          adapter,
-          chain: 'Ethereum_Sepolia',
-          address: SEPOLIA_WALLET_ADDRESS,
-        },
-        to: {
-          adapter,
-          chain: 'Arc_Testnet',
-          address: ARC_WALLET_ADDRESS,
-        },
-        amount: plan.bridgeAmount,
-      });
-
-      const mintTxHash = bridgeResult.steps?.find((s: any) => s.name === 'mint')?.txHash;
-      onStepUpdate('bridge', { status: 'success', txHash: mintTxHash || 'completed' });
+      if (!skipIfDone('bridge')) {
+        currentStepId = 'bridge';
+        onStepUpdate('bridge', { status: 'running' });
+
+        const kit = new BridgeKit();
+        const adapter = createCircleWalletsAdapter({
+          apiKey: process.env.CIRCLE_API_KEY!,
+          entitySecret: process.env.CIRCLE_ENTITY_SECRET!,
+        });
+
+        // Record the burn as soon as it lands, so a crash or timeout after it resumes instead of burning again
+        kit.on('burn', payload => {
+          if (payload.values.state === 'success' && payload.values.txHash) {
+            void saveStepState(planId, 'bridge', { burnTxHash: payload.values.txHash })
+              .catch(error => console.error('⚠️ Failed to save bridge burn:', error));
+          }
+        });
+
+        const bridgeState = stateOf('bridge');
+        const previous = bridgeState.bridgeResult
+          ?? (bridgeState.burnTxHash ? bridgeResultFromBurn(plan.bridgeAmount, bridgeState.burnTxHash) : null);
+
+        const bridgeResult = previous
+          ? await kit.retry(previous, { from: adapter, to: adapter })
+          : await kit.bridge({
+            from: {
+              adapter,
+              chain: 'Ethereum_Sepolia',
+              address: SEPOLIA_WALLET_ADDRESS,
+            },
+            to: {
+              adapter,
+              chain: 'Arc_Testnet',
+              address: ARC_WALLET_ADDRESS,
+            },
+            amount: plan.bridgeAmount,
+          });
+
+        const burnTxHash = bridgeResult.steps?.find(s => s.name === 'burn' && s.state === 'success')?.txHash;
+        await saveStepState(planId, 'bridge', {
+          bridgeResult,
+          ...(burnTxHash && { burnTxHash }),
+        });
+
+        if (bridgeResult.state !== 'success') {
+          const failed = bridgeResult.steps?.find(s => s.state === 'error');
+          throw new Error(`Bridge ${bridgeResult.state}${failed ? ` at ${failed.name}: ${failed.errorMessage ?? 'unknown error'}` : ''}`);
+        }
+
+        const mintTxHash = bridgeResult.steps?.find(s => s.name === 'mint')?.txHash || 'completed';
+        await saveStepState(planId, 'bridge', { status: 'success', txHash: mintTxHash, error: null });
+        onStepUpdate('bridge', { status: 'success', txHash: mintTxHash });
+      }
 
       // Wait for bridged USDC to be reflected in Circle's Arc balance
       // CCTP mint may complete but Circle API needs time to index the balance
-      await waitForArcBalance(
-        plan.invoiceCurrency,
-        parseFloat(plan.invoiceAmount) + ARC_GAS_BUFFER
-      );
+      // A transfer already submitted has spent that balance; runCircleStep polls it instead
+      const transfer = stateOf('transfer');
+      const transferSent = transfer?.status === 'success' || transfer?.status === 'submitted' || !!transfer?.circleTransactionId;
+      if (!transferSent) {
+        currentStepId = 'transfer';
+        await waitForArcBalance(
+          plan.invoiceCurrency,
+          parseFloat(plan.invoiceAmount) + ARC_GAS_BUFFER
+        );
+      }
     }
 
-    // 3. Transfer on Arc
-    if (plan.steps.find(s => s.id === 'transfer')) {
+    // 3. Transfer on Arc — never sent twice: a recorded transaction is polled, and the idempotency key covers the rest
+    if (plan.steps.find(s => s.id === 'transfer') && !skipIfDone('transfer')) {
+      currentStepId = 'transfer';
       onStepUpdate('transfer', { status: 'running' });
 
       const tokenId = plan.invoiceCurrency === 'EURC' ? ARC_EURC_TOKEN_ID : ARC_USDC_TOKEN_ID;
 
-      const transferTx = await executeTransfer({
-        walletId: ARC_WALLET_ID,
-        tokenId,
-        amount: plan.invoiceAmount,
-        destinationAddress: plan.recipientAddress,
+      const transferTxHash = await runCircleStep(planId, stateOf('transfer'), async idempotencyKey => {
+        assertSimulated(await simulateTransfer(plan, false));
+        return executeTransfer({
+          walletId: ARC_WALLET_ID,
+          tokenId,
+          amount: plan.invoiceAmount,
+          destinationAddress: plan.recipientAddress,
+          idempotencyKey,
+        });
       });
 
-      if (!transferTx) throw new Error('Arc transfer failed to submit');
-
-      const transferTxHash = await pollTransactionComplete(transferTx.id);
+      await saveStepState(planId, 'transfer', { status: 'success', txHash: transferTxHash, error: null });
       onStepUpdate('transfer', { status: 'success', txHash: transferTxHash });
     }
 
     return { success: true };
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : 'Unknown execution error';
-    // Mark any running steps as failed
-    for (const step of plan.steps) {
-      if (step.status === 'running') {
-        onStepUpdate(step.id, { status: 'failed', error: errMsg });
+    // Mark the step that was running as failed; its persisted state is kept for the next attempt
+    if (currentStepId) {
+      onStepUpdate(currentStepId, { status: 'failed', error: errMsg });
+      if (plan.planId) {
+        await saveStepState(plan.planId, currentStepId, { error: errMsg })
+          .catch(saveError => console.error('⚠️ Failed to save step error:', saveError));
       }
     }
-    return { success: false, error: errMsg };
+    return { success: false, error: errMsg, requiresReapproval: error instanceof QuoteGuardError };
   }
 }
 
@@ -520,7 +887,7 @@ async function pollTransactionComplete(transactionId: string, timeoutMs = 120000
       return tx.txHash || transactionId;
     }
     if (tx?.state === 'FAILED' || tx?.state === 'CANCELLED') {
-      throw new Error(`Transaction ${transactionId} ${tx.state}: ${tx.errorReason || 'unknown'}`);
+      throw new CircleTransactionFailedError(transactionId, tx.state, tx.errorReason || 'unknown');
     }
     await new Promise(r => setTimeout(r, 3000));
   }
@@ -0,0 +1,110 @@
+// lib/services/treasuryPlans.ts
+// Server-issued treasury plans: stored when built, referenced by an opaque ID with expiry, executed at most once
+
+import { createHash, randomUUID } from 'crypto';
+
+import { IssuedTreasuryPlan, TreasuryPlan } from '@/app/types';
+import { canonicalJson } from './auditLog';
+import { getPlanExecution, hasSubmittedSteps } from './executionState';
+import { readStore, updateStore } from './localStore';
+
+const PLANS_STORE = 'treasury-plans';
+
+// How long an issued plan stays executable (balances and quotes go stale), default 24 hours
+const PLAN_TTL_MINUTES = Math.max(1, Number(process.env.PLAN_TTL_MINUTES || '1440'));
+
+// The hash covers the plan as built, without the ID and expiry added when it is issued
+function hashPlan(plan: TreasuryPlan): string {
+  const content: Partial<TreasuryPlan> = { ...plan };
+  delete content.planId;
+  delete content.expiresAt;
+  return createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+/**
+ * Store a plan produced by buildTreasuryPlan, bound to the analysis run that approved it.
+ * Returns the plan with its planId and expiresAt.
+ */
+export async function issueTreasuryPlan(plan: TreasuryPlan, runId: string | null): Promise<TreasuryPlan> {
+  const now = new Date();
+  const id = randomUUID();
+  const expiresAt = new Date(now.getTime() + PLAN_TTL_MINUTES * 60 * 1000).toISOString();
+  const issued: IssuedTreasuryPlan = {
+    id,
+    runId,
+    plan: { ...plan, planId: id, expiresAt },
+    planHash: hashPlan(plan),
+    status: 'issued',
+    createdAt: now.toISOString(),
+    expiresAt,
+    executedAt: null,
+  };
+
+  await updateStore<IssuedTreasuryPlan[], void>(PLANS_STORE, [], plans => ({
+    data: [...plans, issued],
+    result: undefined,
+  }));
+
+  console.log(`📋 Issued treasury plan ${issued.id} (expires ${issued.expiresAt})`);
+  return issued.plan;
+}
+
+export async function getIssuedPlan(id: string): Promise<IssuedTreasuryPlan | null> {
+  const plans = await readStore<IssuedTreasuryPlan[]>(PLANS_STORE, []);
+  return plans.find(plan => plan.id === id) ?? null;
+}
+
+/**
+ * Check that an issued plan may be executed for a run: it must exist, belong to the run,
+ * be unexpired, not executed yet and still match the hash recorded when it was issued.
+ * A plan whose execution already moved funds never expires, so a failed run can always be resumed.
+ * `runId` is the run named by the client, so a plan ID replayed from another run is refused.
+ * `status` is the HTTP status to refuse with.
+ */
+export async function verifyPlanForExecution(
+  id: string,
+  runId: string | null,
+  now: Date = new Date()
+): Promise<{ plan: TreasuryPlan | null; error: string | null; status: number }> {
+  const issued = await getIssuedPlan(id);
+  if (!issued) {
+    return { plan: null, error: 'Plan not found', status: 404 };
+  }
+  if (issued.runId !== runId) {
+    return { plan: null, error: 'Plan was not issued for this analysis run', status: 409 };
+  }
+  if (issued.status === 'executed') {
+    return { plan: null, error: `Plan was already executed at ${issued.executedAt}`, status: 409 };
+  }
+  if (issued.status === 'superseded') {
+    return { plan: null, error: 'Plan was replaced after its quote changed; re-run the analysis for a fresh plan', status: 409 };
+  }
+  if (now.getTime() > new Date(issued.expiresAt).getTime() && !hasSubmittedSteps(await getPlanExecution(id))) {
+    return { plan: null, error: `Plan expired at ${issued.expiresAt}; re-run the analysis for a fresh plan`, status: 410 };
+  }
+  if (hashPlan(issued.plan) !== issued.planHash || issued.plan.planId !== issued.id) {
+    console.error(`🚨 Treasury plan ${id} no longer matches its issued hash`);
+    return { plan: null, error: 'Plan was modified after it was issued', status: 409 };
+  }
+  return { plan: issued.plan, error: null, status: 200 };
+}
+
+/**
+ * Mark a plan executed so it can never run again
+ */
+export async function markPlanExecuted(id: string): Promise<void> {
+  await updateStore<IssuedTreasuryPlan[], void>(PLANS_STORE, [], plans => ({
+    data: plans.map(plan => (plan.id === id ? { ...plan, status: 'executed', executedAt: new Date().toISOString() } : plan)),
+    result: undefined,
+  }));
+}
+
+/**
+ * Retire a plan that was never executed, e.g. when its payment is re-planned after the quote moved
+ */
+export async function markPlanSuperseded(id: string): Promise<void> {
+  await updateStore<IssuedTreasuryPlan[], void>(PLANS_STORE, [], plans => ({
+    data: plans.map(plan => (plan.id === id && plan.status === 'issued' ? { ...plan, status: 'superseded' } : plan)),
+    result: undefined,
+  }));
+}
@@ -0,0 +1,89 @@
+// lib/services/ttlCache.ts
+// In-memory TTL cache with optional JSON-file backing (via localStore)
+
+import { readStore, writeStore } from './localStore';
+
+// SCAN_CACHE_PERSIST=true keeps cached entries across server restarts
+const PERSIST_CACHES = process.env.SCAN_CACHE_PERSIST === 'true';
+const FLUSH_DELAY_MS = 1000;
+
+export interface CacheHit<T> {
+  value: T;
+  storedAt: number;            // Epoch ms when the value was cached
+}
+
+export interface TtlCache<T> {
+  get(key: string): Promise<CacheHit<T> | null>;
+  set(key: string, value: T): Promise<void>;
+}
+
+/**
+ * Create a named TTL cache. Persisted caches load from `.data/cache-<name>.json`
+ * on first use and are flushed back at most once per second.
+ */
+export function createTtlCache<T>(
+  name: string,
+  ttlMs: number,
+  { persist = PERSIST_CACHES }: { persist?: boolean } = {}
+): TtlCache<T> {
+  const entries = new Map<string, CacheHit<T>>();
+  const storeName = `cache-${name}`;
+  let hydrated: Promise<void> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const isFresh = (entry: CacheHit<T>, now: number) => now - entry.storedAt < ttlMs;
+
+  function hydrate(): Promise<void> {
+    hydrated ??= persist
+      ? readStore<Record<string, CacheHit<T>>>(storeName, {})
+          .then(stored => {
+            const now = Date.now();
+            for (const [key, entry] of Object.entries(stored)) {
+              if (isFresh(entry, now) && !entries.has(key)) {
+                entries.set(key, entry);
+              }
+            }
+          })
+          .catch(error => console.warn(`⚠️ Cache ${name} could not be loaded:`, error))
+      : Promise.resolve();
+    return hydrated;
+  }
+
+  function pruneExpired(now: number): void {
+    for (const [key, entry] of entries) {
+      if (!isFresh(entry, now)) {
+        entries.delete(key);
+      }
+    }
+  }
+
+  function scheduleFlush(): void {
+    if (!persist || flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      writeStore(storeName, Object.fromEntries(entries))
+        .catch(error => console.warn(`⚠️ Cache ${name} could not be saved:`, error));
+    }, FLUSH_DELAY_MS);
+  }
+
+  return {
+    async get(key) {
+      await hydrate();
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (!isFresh(entry, Date.now())) {
+        entries.delete(key);
+        return null;
+      }
+      return entry;
+    },
+
+    async set(key, value) {
+      await hydrate();
+      const now = Date.now();
+      pruneExpired(now);
+      entries.set(key, { value, storedAt: now });
+      scheduleFlush();
+    },
+  };
+}
@@ -0,0 +1,211 @@
+// lib/services/vendorRegistry.ts
+// Vendor registry with approved payout addresses, and invoice checks against it
+
+import { randomUUID } from 'crypto';
+
+import {
+  CFORecommendation,
+  InvoiceData,
+  PayoutChain,
+  Vendor,
+  VendorCheck,
+  VendorInput,
+} from '@/app/types';
+import { readStore, updateStore } from './localStore';
+
+const VENDORS_STORE = 'vendors';
+
+const PAYOUT_CHAINS: PayoutChain[] = ['ARC-TESTNET', 'ETH-SEPOLIA', 'BASE-SEPOLIA'];
+// The treasury settles every invoice with a transfer on Arc
+export const INVOICE_PAYOUT_CHAIN: PayoutChain = 'ARC-TESTNET';
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// Legal suffixes ignored when comparing vendor names
+const VENDOR_SUFFIXES = /\b(inc|llc|ltd|limited|gmbh|corp|corporation|co|company|sa|bv)\b/g;
+
+/**
+ * Normalize a vendor name for comparison ("Acme, Inc." → "acme")
+ */
+export function normalizeVendorName(value: string): string {
+  if (value === 'NOT_FOUND') return '';
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(VENDOR_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Validate vendor input from the API; returns an error message or null.
+ * Takes the raw request body, so every field is type-checked before it is used.
+ */
+export function validateVendorInput(input: Partial<VendorInput> | null): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Vendor details are required';
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Vendor name is required';
+  }
+  if (!Array.isArray(input.payoutAddresses) || input.payoutAddresses.length === 0) {
+    return 'At least one approved payout address is required';
+  }
+  for (const payout of input.payoutAddresses) {
+    if (!payout || typeof payout !== 'object') {
+      return 'Each payout address needs a chain and an address';
+    }
+    if (!PAYOUT_CHAINS.includes(payout.chain)) {
+      return `Unsupported chain: ${payout.chain}`;
+    }
+    if (typeof payout.address !== 'string' || !ADDRESS_PATTERN.test(payout.address.trim())) {
+      return `Invalid payout address: ${payout.address}`;
+    }
+  }
+  if (input.aliases != null && (!Array.isArray(input.aliases) || input.aliases.some(alias => typeof alias !== 'string'))) {
+    return 'Aliases must be a list of names';
+  }
+  if (input.preferredCurrency != null && typeof input.preferredCurrency !== 'string') {
+    return 'Preferred currency must be a currency code';
+  }
+  return null;
+}
+
+function toVendorFields(input: VendorInput): VendorInput {
+  return {
+    name: input.name.trim(),
+    aliases: (input.aliases ?? []).map(alias => alias.trim()).filter(Boolean),
+    payoutAddresses: input.payoutAddresses.map(({ chain, address }) => ({ chain, address: address.trim() })),
+    preferredCurrency: input.preferredCurrency?.trim().toUpperCase() || null,
+  };
+}
+
+export async function listVendors(): Promise<Vendor[]> {
+  return readStore<Vendor[]>(VENDORS_STORE, []);
+}
+
+export async function createVendor(input: VendorInput): Promise<Vendor> {
+  const now = new Date().toISOString();
+  const vendor: Vendor = { id: randomUUID(), ...toVendorFields(input), createdAt: now, updatedAt: now };
+
+  await updateStore<Vendor[], void>(VENDORS_STORE, [], vendors => ({
+    data: [...vendors, vendor],
+    result: undefined,
+  }));
+
+  console.log(`🏢 Vendor registered: ${vendor.name}`);
+  return vendor;
+}
+
+/**
+ * Replace a vendor's fields; returns null if the vendor does not exist
+ */
+export async function updateVendor(id: string, input: VendorInput): Promise<Vendor | null> {
+  return updateStore<Vendor[], Vendor | null>(VENDORS_STORE, [], vendors => {
+    const existing = vendors.find(vendor => vendor.id === id);
+    if (!existing) {
+      return { data: vendors, result: null };
+    }
+    const updated: Vendor = { ...existing, ...toVendorFields(input), updatedAt: new Date().toISOString() };
+    return { data: vendors.map(vendor => (vendor.id === id ? updated : vendor)), result: updated };
+  });
+}
+
+/**
+ * Remove a vendor; returns false if it did not exist
+ */
+export async function deleteVendor(id: string): Promise<boolean> {
+  return updateStore<Vendor[], boolean>(VENDORS_STORE, [], vendors => ({
+    data: vendors.filter(vendor => vendor.id !== id),
+    result: vendors.some(vendor => vendor.id === id),
+  }));
+}
+
+/**
+ * Compare the invoice recipient and wallet with the registry.
+ * A known vendor asking to be paid at an unregistered address is the classic
+ * invoice-redirection fraud, so that case is reported as `address-changed`.
+ * An address only counts as approved when it is registered for INVOICE_PAYOUT_CHAIN.
+ */
+export async function checkInvoiceVendor(invoiceData: InvoiceData): Promise<VendorCheck> {
+  const vendors = await listVendors();
+  const recipient = normalizeVendorName(invoiceData.recipient);
+  const walletAddress = invoiceData.walletAddress.toLowerCase();
+
+  const vendor = recipient
+    ? vendors.find(candidate =>
+      [candidate.name, ...candidate.aliases].some(name => normalizeVendorName(name) === recipient)
+    ) ?? null
+    : null;
+
+  const addressOwner = vendors.find(candidate =>
+    candidate.payoutAddresses.some(payout => payout.address.toLowerCase() === walletAddress)
+  ) ?? null;
+
+  const matchedAddress = vendor?.payoutAddresses.find(payout =>
+    payout.address.toLowerCase() === walletAddress && payout.chain === INVOICE_PAYOUT_CHAIN
+  ) ?? null;
+  const issues: string[] = [];
+
+  if (vendor && !matchedAddress) {
+    const otherChains = vendor.payoutAddresses
+      .filter(payout => payout.address.toLowerCase() === walletAddress)
+      .map(payout => payout.chain);
+    issues.push(
+      otherChains.length > 0
+        ? `${vendor.name} registered ${invoiceData.walletAddress} for ${otherChains.join(', ')} only, but invoices are paid on ${INVOICE_PAYOUT_CHAIN}`
+        : `${vendor.name} is a registered vendor but ${invoiceData.walletAddress} is not one of its approved payout addresses (${vendor.payoutAddresses.map(p => `${p.address} on ${p.chain}`).join(', ')})`
+    );
+    if (addressOwner && addressOwner.id !== vendor.id) {
+      issues.push(`The invoice address is registered to a different vendor: ${addressOwner.name}`);
+    }
+  } else if (!vendor && addressOwner) {
+    issues.push(
+      `Invoice recipient "${invoiceData.recipient}" does not match ${addressOwner.name}, the registered owner of ${invoiceData.walletAddress}`
+    );
+  }
+
+  const currency = invoiceData.amount.replace(/[^A-Za-z]/g, '').toUpperCase();
+  if (vendor?.preferredCurrency && currency && currency !== vendor.preferredCurrency) {
+    issues.push(`${vendor.name} normally invoices in ${vendor.preferredCurrency}, this invoice is in ${currency}`);
+  }
+
+  const status: VendorCheck['status'] = vendor
+    ? matchedAddress ? 'verified' : 'address-changed'
+    : addressOwner ? 'address-of-other-vendor' : 'unknown-vendor';
+
+  return { status, vendor, addressOwner, matchedAddress, issues };
+}
+
+/**
+ * Whether the vendor check must block an automatic APPROVE
+ */
+export function isVendorReviewRequired(vendorCheck: VendorCheck | null): boolean {
+  return vendorCheck?.status === 'address-changed' || vendorCheck?.status === 'address-of-other-vendor';
+}
+
+/**
+ * Downgrade APPROVE to REVIEW when a known vendor's payout address changed
+ */
+export function enforceVendorReview(
+  recommendation: CFORecommendation,
+  vendorCheck: VendorCheck | null
+): CFORecommendation {
+  if (!vendorCheck || !isVendorReviewRequired(vendorCheck)) {
+    return recommendation;
+  }
+
+  const vendorDetails = vendorCheck.issues.map(issue => `Vendor registry: ${issue}`);
+
+  if (recommendation.recommendation === 'REJECT') {
+    return { ...recommendation, details: [...vendorDetails, ...recommendation.details] };
+  }
+
+  return {
+    recommendation: 'REVIEW',
+    summary: recommendation.recommendation === 'REVIEW'
+      ? recommendation.summary
+      : 'Payout address does not match the vendor registry - verify with the vendor before paying',
+    riskLevel: 'HIGH',
+    details: [...vendorDetails, ...recommendation.details],
+  };
+}
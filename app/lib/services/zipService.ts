@@ -0,0 +1,115 @@
+// lib/services/zipService.ts
+// Unpack invoice PDFs from uploaded zip archives
+
+import { Unzip, UnzipInflate, unzipSync } from 'fflate';
+
+export interface ArchivedPDF {
+  fileName: string;
+  pdfBuffer: Buffer;
+}
+
+// Bounds on what an archive may unpack to, so a zip bomb cannot exhaust memory
+export interface ZipLimits {
+  maxEntries: number;       // PDFs per archive
+  maxEntrySize: number;     // Uncompressed bytes per PDF
+  maxTotalSize: number;     // Uncompressed bytes across the archive
+}
+
+// The archive exceeds a ZipLimits bound; the message is safe to show to the uploader
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipLimitError';
+  }
+}
+
+/**
+ * Check whether an uploaded file is a zip archive
+ */
+export function isZipFile(file: { name: string; type: string }): boolean {
+  return (
+    file.type === 'application/zip' ||
+    file.type === 'application/x-zip-compressed' ||
+    file.name.toLowerCase().endsWith('.zip')
+  );
+}
+
+function isPdfEntry(name: string): boolean {
+  return name.toLowerCase().endsWith('.pdf') && !name.startsWith('__MACOSX/');
+}
+
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+// Checks the sizes declared in the central directory; the filter never accepts an entry, so nothing is inflated
+function checkDeclaredSizes(archive: Uint8Array, limits: ZipLimits): void {
+  let entries = 0;
+  let totalSize = 0;
+
+  unzipSync(archive, {
+    filter: entry => {
+      if (!isPdfEntry(entry.name)) return false;
+
+      entries += 1;
+      totalSize += entry.originalSize;
+      if (entries > limits.maxEntries) {
+        throw new ZipLimitError(`archive holds more than ${limits.maxEntries} PDFs`);
+      }
+      if (entry.originalSize > limits.maxEntrySize) {
+        throw new ZipLimitError(`${entry.name} unpacks to more than ${formatMB(limits.maxEntrySize)}`);
+      }
+      if (totalSize > limits.maxTotalSize) {
+        throw new ZipLimitError(`archive unpacks to more than ${formatMB(limits.maxTotalSize)}`);
+      }
+      return false;
+    },
+  });
+}
+
+/**
+ * Extract every PDF from a zip archive.
+ * Skips folders, macOS metadata and entries that are not real PDFs.
+ * Throws ZipLimitError when the archive declares or inflates to more than `limits` allow.
+ */
+export function extractPDFsFromZip(zipBuffer: Buffer, limits: ZipLimits): ArchivedPDF[] {
+  const archive = new Uint8Array(zipBuffer);
+  checkDeclaredSizes(archive, limits);
+
+  // Declared sizes can be forged, so inflated bytes are counted as they stream out
+  const pdfs: ArchivedPDF[] = [];
+  let totalSize = 0;
+
+  const unzip = new Unzip(file => {
+    if (!isPdfEntry(file.name)) return;
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    file.ondata = (error, chunk, final) => {
+      if (error) throw error;
+
+      size += chunk.length;
+      totalSize += chunk.length;
+      if (size > limits.maxEntrySize) {
+        throw new ZipLimitError(`${file.name} unpacks to more than ${formatMB(limits.maxEntrySize)}`);
+      }
+      if (totalSize > limits.maxTotalSize) {
+        throw new ZipLimitError(`archive unpacks to more than ${formatMB(limits.maxTotalSize)}`);
+      }
+      chunks.push(chunk);
+
+      if (final) {
+        const pdfBuffer = Buffer.concat(chunks);
+        if (pdfBuffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+          pdfs.push({ fileName: file.name.split('/').pop() || file.name, pdfBuffer });
+        }
+      }
+    };
+    file.start();
+  });
+
+  unzip.register(UnzipInflate);
+  unzip.push(archive, true);
+  return pdfs;
+}
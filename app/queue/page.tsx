@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { Upload } from 'lucide-react';
+
+import { InvoiceQueueItem, QueueInvoice } from '@/app/components/queue/InvoiceQueueItem';
+import type { BatchInvoiceUpdate } from '@/app/lib/agents/batch';
+import type { ApprovalDecision, InvoiceCorrections, PendingPayment, TreasuryPlan } from '@/app/types';
+
+/**
+ * Read an SSE response, calling onEvent for each parsed event
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (eventType: string, data: Record<string, unknown>) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Failed to initialize stream reader');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      if (!event.trim().startsWith('event: ')) continue;
+      const eventType = event.replace('event: ', '').split('\n')[0];
+      const dataMatch = event.match(/data: (.+)/);
+      if (dataMatch) {
+        onEvent(eventType, JSON.parse(dataMatch[1]));
+      }
+    }
+  }
+}
+
+export default function QueuePage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [queue, setQueue] = useState<QueueInvoice[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Invoice whose review confirmation is in flight
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const updateInvoice = useCallback((id: string, patch: Partial<QueueInvoice>) => {
+    setQueue(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const handleStart = async () => {
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    setQueue([]);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+
+      const response = await fetch('/api/agents/batch', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to start batch');
+      }
+
+      await readEventStream(response, (eventType, data) => {
+        switch (eventType) {
+          case 'batch_start':
+            setQueue((data.invoices as { id: string; fileName: string }[]).map(({ id, fileName }) => ({
+              id,
+              fileName,
+              status: 'queued',
+              step: null,
+              state: null,
+              review: null,
+              error: null,
+              execution: 'idle',
+              executionError: null,
+            })));
+            break;
+
+          case 'invoice_update': {
+            const update = data as unknown as BatchInvoiceUpdate;
+            updateInvoice(update.id, update);
+            break;
+          }
+
+          case 'batch_complete':
+            toast(`Extracted ${data.total} invoices — confirm each one to continue the analysis`);
+            break;
+
+          case 'batch_error':
+            throw new Error((data.error as string) || 'Batch failed');
+        }
+      });
+    } catch (error) {
+      console.error('Batch processing failed:', error);
+      toast(error instanceof Error ? error.message : 'Batch processing failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleConfirmReview = async (invoice: QueueInvoice, corrections: InvoiceCorrections) => {
+    if (!invoice.review) return;
+
+    setReviewingId(invoice.id);
+    try {
+      const response = await fetch('/api/agents/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewId: invoice.review.reviewId, corrections }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to continue analysis');
+      }
+
+      await readEventStream(response, (eventType, data) => {
+        if (eventType === 'invoice_update') {
+          const update = data as unknown as BatchInvoiceUpdate;
+          updateInvoice(update.id, update);
+        }
+        if (eventType === 'batch_error') {
+          throw new Error((data.error as string) || 'Failed to continue analysis');
+        }
+      });
+    } catch (error) {
+      console.error('Review confirmation failed:', error);
+      toast(error instanceof Error ? error.message : 'Failed to continue analysis');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const setPendingPayment = (invoice: QueueInvoice, pendingPayment: PendingPayment) => {
+    if (!invoice.state) return;
+    updateInvoice(invoice.id, { state: { ...invoice.state, pendingPayment } });
+  };
+
+  const handleDecision = async (
+    invoice: QueueInvoice,
+    approverId: string,
+    token: string,
+    decision: ApprovalDecision['decision'],
+    comment: string
+  ) => {
+    const payment = invoice.state?.pendingPayment;
+    if (!payment) return;
+
+    try {
+      const response = await fetch(`/api/payments/${payment.id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ approverId, comment }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record decision');
+      }
+      setPendingPayment(invoice, data.payment);
+    } catch (error) {
+      toast(error instanceof Error ? error.message : 'Failed to record decision');
+    }
+  };
+
+  const handleExecute = async (invoice: QueueInvoice) => {
+    const payment = invoice.state?.pendingPayment;
+    if (!invoice.state?.treasuryPlan?.canExecute || !payment) return;
+
+    updateInvoice(invoice.id, { execution: 'executing', executionError: null });
+    // Steps done so far; a failed payment resumes after them
+    const completedSteps = [...payment.completedSteps];
+
+    try {
+      const response = await fetch('/api/treasury/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId: payment.planId, runId: invoice.state.runId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Execution failed');
+      }
+
+      let executionError: string | null = null;
+      // Set when the swap quote changed and the payment went back for sign-off on a new plan
+      let reapproval = null as { payment: PendingPayment; treasuryPlan: TreasuryPlan } | null;
+      await readEventStream(response, (eventType, data) => {
+        if (eventType === 'step_update' && data.status === 'success' && !completedSteps.includes(data.stepId as string)) {
+          completedSteps.push(data.stepId as string);
+        }
+        if (eventType === 'execution_error') {
+          executionError = (data.error as string) || 'Execution failed';
+          if (data.requiresReapproval) {
+            reapproval = { payment: data.payment as PendingPayment, treasuryPlan: data.treasuryPlan as TreasuryPlan };
+          }
+        }
+      });
+
+      if (reapproval && invoice.state) {
+        updateInvoice(invoice.id, {
+          execution: 'idle',
+          executionError,
+          state: { ...invoice.state, treasuryPlan: reapproval.treasuryPlan, pendingPayment: reapproval.payment },
+        });
+        toast(`${invoice.fileName} needs re-approval`);
+        return;
+      }
+      if (executionError) throw new Error(executionError);
+
+      updateInvoice(invoice.id, { execution: 'done' });
+      toast(`Paid ${invoice.fileName}`);
+    } catch (error) {
+      setPendingPayment(invoice, { ...payment, status: 'failed', completedSteps });
+      updateInvoice(invoice.id, {
+        execution: 'failed',
+        executionError: error instanceof Error ? error.message : 'Execution failed',
+      });
+    }
+  };
+
+  const counts = {
+    approve: queue.filter(item => item.state?.recommendation?.recommendation === 'APPROVE').length,
+    review: queue.filter(item => item.state?.recommendation?.recommendation === 'REVIEW').length,
+    reject: queue.filter(item => item.state?.recommendation?.recommendation === 'REJECT').length,
+    awaitingReview: queue.filter(item => item.status === 'awaiting-review').length,
+    done: queue.filter(item => item.status === 'complete' || item.status === 'error').length,
+  };
+
+  return (
+    <div className="flex flex-1 flex-col overflow-y-auto p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-zinc-900">Invoice Queue</h1>
+          <p className="text-sm text-zinc-500">
+            Upload a batch of invoice PDFs (or a zip) and work through the recommendations in one session.
+          </p>
+        </div>
+
+        {/* Upload */}
+        <div className="flex items-center gap-3 rounded-2xl bg-white p-3 shadow-sm ring-1 ring-zinc-300">
+          <label className="relative flex flex-1 cursor-pointer items-center gap-3 rounded-xl bg-zinc-50 px-3 py-2 text-sm text-zinc-600 hover:bg-zinc-100">
+            <Upload className="h-4 w-4" />
+            {files.length > 0
+              ? `${files.length} file${files.length === 1 ? '' : 's'} selected`
+              : 'Choose PDFs or a zip archive...'}
+            <input
+              type="file"
+              accept=".pdf,.zip"
+              multiple
+              disabled={isProcessing}
+              onChange={event => setFiles(Array.from(event.target.files ?? []))}
+              className="absolute inset-0 cursor-pointer opacity-0"
+            />
+          </label>
+          <button
+            onClick={handleStart}
+            disabled={isProcessing || files.length === 0}
+            className="rounded-xl bg-black px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-zinc-800 disabled:bg-zinc-400"
+          >
+            {isProcessing ? 'Processing...' : 'Process batch'}
+          </button>
+        </div>
+
+        {/* Summary */}
+        {queue.length > 0 && (
+          <div className="flex flex-wrap gap-4 text-xs font-medium text-zinc-500">
+            <span>{counts.done}/{queue.length} processed</span>
+            {counts.awaitingReview > 0 && <span>{counts.awaitingReview} awaiting review</span>}
+            <span className="text-[#5c7a0f]">{counts.approve} approve</span>
+            <span className="text-amber-600">{counts.review} review</span>
+            <span className="text-red-600">{counts.reject} reject</span>
+          </div>
+        )}
+
+        {/* Queue */}
+        <div className="space-y-3">
+          {queue.map(invoice => (
+            <InvoiceQueueItem
+              key={invoice.id}
+              invoice={invoice}
+              onExecute={handleExecute}
+              onDecision={handleDecision}
+              onConfirmReview={handleConfirmReview}
+              isSubmittingReview={reviewingId === invoice.id}
+              disabled={queue.some(item => item.execution === 'executing')}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,40 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
 import { StatCards } from '@/app/components/treasury/StatCards';
 import { WalletBreakdown } from '@/app/components/treasury/WalletBreakdown';
 import { TokenHoldingsTable } from '@/app/components/treasury/TokenHoldingsTable';
 import { TransactionList } from '@/app/components/treasury/TransactionList';
+import { BudgetList } from '@/app/components/treasury/BudgetList';
+import type { Budget, BudgetInput, BudgetStatus } from '@/app/types';
 import type { TreasuryDashboardData } from '@/app/types/treasury';
 
+interface BudgetData {
+  month: string;
+  statuses: BudgetStatus[];
+  categories: { id: string; label: string }[];
+}
+
 export default function TreasuryPage() {
   const [data, setData] = useState<TreasuryDashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [budgets, setBudgets] = useState<BudgetData | null>(null);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const res = await fetch('/api/budgets');
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || 'Failed to load budgets');
+      }
+      setBudgets(await res.json());
+    } catch (e) {
+      toast(e instanceof Error ? e.message : 'Failed to load budgets');
+    }
+  }, []);
 
   const fetchData = useCallback(async (isRefresh = false) => {
     if (isRefresh) setRefreshing(true);
@@ -36,13 +59,44 @@ export default function TreasuryPage() {
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+    fetchBudgets();
+  }, [fetchData, fetchBudgets]);
+
+  const handleAddBudget = async (input: BudgetInput) => {
+    const res = await fetch('/api/budgets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!res.ok) {
+      const errData = await res.json();
+      toast(errData.error || 'Failed to save budget');
+      return false;
+    }
+    await fetchBudgets();
+    return true;
+  };
+
+  const handleDeleteBudget = async (budget: Budget) => {
+    if (!confirm('Remove this budget?')) return;
+
+    const res = await fetch(`/api/budgets/${budget.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const errData = await res.json();
+      toast(errData.error || 'Failed to remove budget');
+      return;
+    }
+    await fetchBudgets();
+  };
 
   // Auto-refresh every 60s
   useEffect(() => {
-    const interval = setInterval(() => fetchData(true), 60000);
+    const interval = setInterval(() => {
+      fetchData(true);
+      fetchBudgets();
+    }, 60000);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, fetchBudgets]);
 
   // Loading skeleton
   if (loading) {
@@ -101,7 +155,10 @@ export default function TreasuryPage() {
               Updated {new Date(data.lastUpdated).toLocaleTimeString()}
             </span>
             <button
-              onClick={() => fetchData(true)}
+              onClick={() => {
+                fetchData(true);
+                fetchBudgets();
+              }}
               disabled={refreshing}
               className="flex h-9 w-9 items-center justify-center rounded-lg border border-zinc-200 text-zinc-500 transition-colors hover:bg-zinc-50 hover:text-zinc-700 disabled:opacity-50"
             >
@@ -120,6 +177,17 @@ export default function TreasuryPage() {
         {/* Wallet breakdown */}
         <WalletBreakdown wallets={data.wallets} />
 
+        {/* Monthly budgets */}
+        {budgets && (
+          <BudgetList
+            month={budgets.month}
+            statuses={budgets.statuses}
+            categories={budgets.categories}
+            onAdd={handleAddBudget}
+            onDelete={handleDeleteBudget}
+          />
+        )}
+
         {/* Token holdings table */}
         <TokenHoldingsTable wallets={data.wallets} />
 
@@ -1,16 +1,194 @@
 // types/index.ts
 
+// Single billed line on an invoice
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;          // Line total as printed on the invoice
+}
+
+// Invoice fields that carry extraction evidence
+export type InvoiceEvidenceField =
+  | 'walletAddress'
+  | 'amount'
+  | 'recipient'
+  | 'purpose'
+  | 'invoiceNumber'
+  | 'issueDate'
+  | 'dueDate';
+
+// Where an extracted field was read from and how sure the extractor is
+export interface FieldEvidence {
+  confidence: number;      // 0-1
+  snippet: string | null;  // Verbatim text the value was read from
+  page: number | null;     // 1-based page number
+}
+
 // Invoice data extracted from PDF
 export interface InvoiceData {
   walletAddress: string;  // Ethereum address
-  amount: string;         // e.g., "5000 USDC"
+  amount: string;         // Grand total with currency, e.g., "5000 USDC"
   recipient: string;      // Vendor/company name
   purpose: string;        // What the payment is for
+  invoiceNumber: string;  // Vendor invoice reference, "NOT_FOUND" if absent
+  issueDate: string;      // As printed (ISO when possible), "NOT_FOUND" if absent
+  dueDate: string;        // As printed (ISO when possible), "NOT_FOUND" if absent
+  lineItems: InvoiceLineItem[];
+  subtotal: number | null;
+  discount: number | null;  // Positive number subtracted from subtotal
+  tax: number | null;
+  total: number | null;     // Stated grand total (numeric part of `amount`)
+  evidence: Partial<Record<InvoiceEvidenceField, FieldEvidence>>;
+}
+
+// Reviewer edits to extracted invoice fields (omitted fields are kept as extracted)
+export type InvoiceCorrections = Partial<Pick<InvoiceData, InvoiceEvidenceField>>;
+
+// Result of reconciling line items against the stated invoice totals
+export interface InvoiceTotalsCheck {
+  lineItemsSum: number | null;
+  computedTotal: number | null;  // lineItemsSum - discount + tax
+  statedTotal: number | null;
+  isConsistent: boolean;
+  issues: string[];
+}
+
+// Identity of a processed invoice, used to catch re-submissions
+export interface InvoiceFingerprint {
+  contentHash: string;    // sha256 of the PDF bytes
+  invoiceKey: string;     // sha256 of normalized invoice number|vendor|amount|address
+  invoiceNumber: string;  // Normalized fields the key was built from
+  vendor: string;
+  amount: string;
+  walletAddress: string;
+}
+
+// Entry in the local store of processed invoices
+export interface ProcessedInvoiceRecord {
+  id: string;
+  fileName: string;
+  processedAt: string;    // ISO timestamp
+  fingerprint: InvoiceFingerprint;
+  paymentId?: string;     // Approved payment that recorded the invoice
+}
+
+// Result of comparing an invoice against previously processed ones
+export interface DuplicateInvoiceCheck {
+  fingerprint: InvoiceFingerprint;
+  isDuplicate: boolean;
+  matchType: 'exact-file' | 'same-invoice' | 'near-duplicate' | null;
+  reasons: string[];
+  original: ProcessedInvoiceRecord | null;
+  originalUrl: string | null;
+}
+
+// Chains a vendor can be paid on (Circle blockchain identifiers)
+export type PayoutChain = 'ARC-TESTNET' | 'ETH-SEPOLIA' | 'BASE-SEPOLIA';
+
+// Approved payout address for a vendor on one chain
+export interface VendorPayoutAddress {
+  chain: PayoutChain;
+  address: string;
+}
+
+// Vendor registry entry
+export interface Vendor {
+  id: string;
+  name: string;
+  aliases: string[];                 // Other names the vendor invoices under
+  payoutAddresses: VendorPayoutAddress[];
+  preferredCurrency: string | null;  // e.g. "USDC"
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Editable vendor fields accepted by the API
+export type VendorInput = Pick<Vendor, 'name' | 'aliases' | 'payoutAddresses' | 'preferredCurrency'>;
+
+// Result of checking an invoice's recipient and wallet against the registry
+export interface VendorCheck {
+  status: 'verified' | 'address-changed' | 'address-of-other-vendor' | 'unknown-vendor';
+  vendor: Vendor | null;              // Vendor matched by recipient name/alias
+  addressOwner: Vendor | null;        // Vendor that registered the invoice wallet, if any
+  matchedAddress: VendorPayoutAddress | null;
+  issues: string[];
+}
+
+// Monthly spending limit for all payments, one vendor, or one purpose category
+export interface Budget {
+  id: string;
+  scope: 'overall' | 'vendor' | 'category';
+  key: string;                       // Vendor name or category id; empty for 'overall'
+  currency: string;                  // e.g. "USDC"; only payments in this currency count
+  monthlyLimit: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Editable budget fields accepted by the API
+export type BudgetInput = Pick<Budget, 'scope' | 'key' | 'currency' | 'monthlyLimit'>;
+
+// Executed payment counted against budgets
+export interface SpendRecord {
+  id: string;
+  month: string;                     // "YYYY-MM"
+  vendor: string;
+  category: string;
+  amount: number;
+  currency: string;
+  invoiceNumber: string;
+  recipientAddress: string;
+  recordedAt: string;
+}
+
+// One budget's position for the month, including the invoice being checked
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number;                     // Already paid this month
+  committed: number;                 // Open payments (awaiting sign-off or execution) not paid yet
+  remaining: number;                 // Before this invoice, after spent and committed
+  remainingAfter: number;            // After this invoice (negative when over)
+  overBudget: boolean;
+}
+
+// Budgets that apply to an invoice, checked during payment planning
+export interface BudgetCheck {
+  month: string;
+  category: string;
+  amount: number | null;
+  currency: string;
+  statuses: BudgetStatus[];
+  overBudget: boolean;
+  issues: string[];
+}
+
+// Past counterparty that an invoice address visually mimics
+export interface AddressLookAlike {
+  counterparty: string;
+  matchingPrefix: number;      // Leading hex characters in common (after 0x)
+  matchingSuffix: number;      // Trailing hex characters in common
+  paidBefore: boolean;         // We sent funds to it (vs. only received)
+}
+
+// Address found on a sanctions list or deny list
+export interface ScreeningMatch {
+  provider: string;            // Screening provider that reported it
+  list: string;                // e.g. "OFAC SDN", "Internal deny list"
+  address: string;
+  label: string;               // Entity name or reason for listing
+}
+
+// Risk policy score thresholds (config/risk-policy.json)
+export interface RiskThresholds {
+  review: number;              // Scores at or above this need manual review
+  reject: number;              // Scores at or above this are rejected
 }
 
 // Etherscan security scan result
 export interface SecurityScan {
   riskScore: number;           // 0-100 calculated score
+  riskThresholds: RiskThresholds; // Policy thresholds the score was judged against
   isContract: boolean;         // Is it a contract or EOA?
   isVerified: boolean;         // Contract verified on Etherscan?
   hasMaliciousLabel: boolean;  // Tagged as malicious?
@@ -18,6 +196,81 @@ export interface SecurityScan {
   firstTransaction: string;    // Date of first tx
   warnings: string[];          // List of warnings
   etherscanLabels: string[];   // Etherscan labels (e.g., "Binance", "Scam")
+  lookAlikeMatches: AddressLookAlike[]; // Possible address-poisoning mimics
+  sanctionsMatches: ScreeningMatch[];   // Sanctions / deny-list hits (force REJECT)
+  screeningErrors: string[];   // Screening providers that could not be consulted (force REVIEW)
+  payoutChainError: string | null; // Why the invoice payout chain was not scanned (force REVIEW)
+  chainScans: ChainScan[];     // Per-chain breakdown behind the aggregate
+  riskBreakdown: RiskScoreContribution[]; // Policy rules behind the risk score
+  counterpartyAnalysis: CounterpartyAnalysis | null; // Funding / drain graph across chains
+  scannedAt: string;           // ISO time of the oldest chain scan used
+  cached: boolean;             // Some chain results were served from the scan cache
+  contractInspections: ContractInspection[]; // One per chain where the recipient is a contract
+}
+
+// What the recipient contract is on a given chain
+export interface ContractInspection {
+  chain: PayoutChain;
+  codeHash: string | null;     // keccak256 of the runtime code
+  isProxy: boolean;            // EIP-1967 implementation or beacon slot is set
+  implementation: string | null;
+  proxyAdmin: string | null;
+  beacon: string | null;
+  owner: string | null;        // owner() if the contract exposes it
+  isErc20: boolean;            // Token contract - transfers to it are usually lost
+  tokenSymbol: string | null;
+  isSafe: boolean;             // Safe multisig: SafeProxy code delegating to a known Safe singleton, with owners and a threshold
+  safeSingleton: string | null; // Safe singleton (master copy) the proxy delegates to
+  respondsLikeSafe: boolean;   // getThreshold/getOwners respond, whether or not the singleton is known
+  safeThreshold: number | null;
+  safeOwners: string[];
+  safeVersion: string | null;
+}
+
+// Risky address found in the recipient's counterparty graph
+export interface CounterpartyFinding {
+  type: 'mixer' | 'known-bad' | 'fresh-drainer';
+  hop: 0 | 1 | 2;              // 0 = the recipient itself
+  address: string;
+  via: string | null;          // Hop-1 counterparty linking a hop-2 finding
+  label: string;
+  chain: PayoutChain;
+}
+
+// One/two-hop summary of who funds and drains the recipient
+export interface CounterpartyAnalysis {
+  transactionsAnalyzed: number;
+  historyComplete: boolean;    // False when paging stopped before the full history
+  funders: number;             // Distinct addresses that sent funds to the recipient
+  recipients: number;          // Distinct addresses the recipient sent funds to
+  secondHopAddresses: number;
+  findings: CounterpartyFinding[];
+}
+
+// A risk policy rule that fired during scoring
+export interface RiskScoreContribution {
+  ruleId: string;
+  label: string;
+  points: number;
+  setsScore: boolean;          // Rule pinned the score instead of adding to it
+}
+
+// Wallet scan result for a single chain
+export interface ChainScan {
+  chain: PayoutChain;
+  chainName: string;
+  riskScore: number;           // 0-100, on-chain history on this chain only
+  isContract: boolean;
+  isVerified: boolean;
+  transactionCount: number;
+  firstTransaction: string;
+  labels: string[];
+  warnings: string[];
+  counterparties: CounterpartyAnalysis | null;
+  contract: ContractInspection | null;
+  scannedAt: string;
+  cached: boolean;
+  error: string | null;        // Set when the chain could not be scanned
 }
 
 // CFO Assistant recommendation
@@ -28,6 +281,22 @@ export interface CFORecommendation {
   details: string[];           // Bullet points explaining the decision
 }
 
+// A deterministic policy rule that fired after the CFO assistant
+export interface PolicyGateRuleHit {
+  ruleId: string;
+  outcome: 'REVIEW' | 'REJECT';  // Most lenient verdict the rule allows
+  reason: string;
+}
+
+// LLM verdict vs. the verdict enforced by the policy gate
+export interface PolicyGateDecision {
+  llmRecommendation: CFORecommendation;
+  finalVerdict: CFORecommendation['recommendation'];
+  overridden: boolean;         // Gate downgraded the LLM verdict
+  enforcedBy: string | null;   // Rule that set the final verdict when overridden
+  firedRules: PolicyGateRuleHit[];
+}
+
 // Prepared transaction for MetaMask approval
 export interface PreparedTransaction {
   chainId: number;
@@ -84,11 +353,104 @@ export interface TreasuryPlan {
   sepoliaUsdcBalance: string;
   swapNeeded: boolean;
   swapQuoteEth: string | null;
+  swapQuote?: SwapQuote | null;        // Quote behind swapQuoteEth; execution re-quotes and compares
   bridgeNeeded: boolean;
   bridgeAmount: string | null;
   steps: ExecutionStep[];
   canExecute: boolean;
   reason?: string;
+  planId?: string;                   // Server-issued ID; execution is only by this ID
+  expiresAt?: string;
+  simulation?: PlanSimulation | null;  // Dry run of the steps against current chain state
+}
+
+// Uniswap quote recorded in the plan when it is built
+export interface SwapQuote {
+  amountInEth: string;               // Quoted ETH input, before slippage
+  maxAmountInEth: string;            // With slippage (swapQuoteEth)
+  amountOutUsdc: string;
+  quotedAt: string;
+  blockNumber: string;               // Sepolia block the quote was read at
+}
+
+// Expected balance change from a simulated step (amount is signed, in token units)
+export interface SimulatedBalanceChange {
+  chain: 'ETH-SEPOLIA' | 'ARC-TESTNET';
+  address: string;
+  token: string;
+  amount: string;
+}
+
+export interface StepSimulation {
+  stepId: string;
+  status: 'success' | 'failed' | 'skipped';   // skipped: not simulated on-chain (CCTP bridge)
+  gasEstimate: string | null;
+  balanceChanges: SimulatedBalanceChange[];
+  error: string | null;                       // Revert reason when the step would fail
+  note: string | null;
+}
+
+export interface PlanSimulation {
+  simulatedAt: string;
+  success: boolean;
+  steps: StepSimulation[];
+}
+
+// Executable plan as stored server-side when it is issued
+export interface IssuedTreasuryPlan {
+  id: string;
+  runId: string | null;              // Analysis run that approved the plan
+  plan: TreasuryPlan;
+  planHash: string;                  // sha256 of the plan when issued; a stored plan that no longer matches is refused
+  status: 'issued' | 'executed' | 'superseded';  // Superseded: its quote no longer held and the payment was re-planned
+  createdAt: string;
+  expiresAt: string;
+  executedAt: string | null;
+}
+
+// Person allowed to sign off payments (config/approval-policy.json)
+export interface Approver {
+  id: string;
+  name: string;
+}
+
+// Number of approvals required for invoices up to maxAmount (null = no upper bound)
+export interface ApprovalTier {
+  label: string;
+  maxAmount: number | null;
+  requiredApprovals: number;
+}
+
+export interface ApprovalDecision {
+  approverId: string;
+  approverName: string;
+  decision: 'approve' | 'reject';
+  comment: string | null;
+  decidedAt: string;
+}
+
+export type PendingPaymentStatus = 'pending' | 'approved' | 'rejected' | 'executing' | 'executed' | 'failed';
+
+// Treasury plan awaiting M-of-N sign-off; only executable once quorum is reached
+export interface PendingPayment {
+  id: string;
+  status: PendingPaymentStatus;
+  runId: string | null;              // Analysis run that produced the plan
+  fileName: string;
+  invoiceData: InvoiceData;
+  planId: string;                    // Issued treasury plan this payment executes
+  fingerprint: InvoiceFingerprint | null;  // Recorded as processed once the payment is approved
+  amount: number | null;
+  currency: string;
+  tier: ApprovalTier;
+  rejectionsToBlock: number;
+  eligibleApprovers: Approver[];     // Snapshot of the approver list when the payment was created
+  decisions: ApprovalDecision[];
+  createdAt: string;
+  updatedAt: string;
+  executedAt: string | null;
+  executionError: string | null;
+  completedSteps: string[];          // Plan steps already done; a retry resumes after them
 }
 
 // Complete agent workflow state
@@ -104,9 +466,14 @@ export interface AgentState {
   securityScan: SecurityScan | null;
   paymentPlan: PaymentPlan | null;
   recommendation: CFORecommendation | null;
+  duplicateCheck: DuplicateInvoiceCheck | null;
+  vendorCheck: VendorCheck | null;
+  budgetCheck: BudgetCheck | null;
+  policyGate: PolicyGateDecision | null;
 
   // Agent 2 Results
   treasuryPlan: TreasuryPlan | null;
+  pendingPayment: PendingPayment | null;
 
   // Errors
   error: string | null;
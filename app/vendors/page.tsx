@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { VendorForm } from '@/app/components/vendors/VendorForm';
+import type { Vendor, VendorInput } from '@/app/types';
+
+export default function VendorsPage() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Vendor | 'new' | null>(null);
+
+  const fetchVendors = useCallback(async () => {
+    try {
+      const res = await fetch('/api/vendors');
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || 'Failed to load vendors');
+      }
+      setVendors((await res.json()).vendors);
+    } catch (e) {
+      toast(e instanceof Error ? e.message : 'Failed to load vendors');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const handleSave = async (input: VendorInput) => {
+    const isNew = editing === 'new';
+    const res = await fetch(isNew ? '/api/vendors' : `/api/vendors/${(editing as Vendor).id}`, {
+      method: isNew ? 'POST' : 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+
+    if (!res.ok) {
+      const errData = await res.json();
+      toast(errData.error || 'Failed to save vendor');
+      return;
+    }
+
+    toast(isNew ? `Added ${input.name}` : `Updated ${input.name}`);
+    setEditing(null);
+    await fetchVendors();
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!confirm(`Remove ${vendor.name} from the vendor registry?`)) return;
+
+    const res = await fetch(`/api/vendors/${vendor.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const errData = await res.json();
+      toast(errData.error || 'Failed to remove vendor');
+      return;
+    }
+    await fetchVendors();
+  };
+
+  return (
+    <div className="flex flex-1 flex-col overflow-y-auto p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-zinc-900">Vendors</h1>
+            <p className="text-sm text-zinc-500">
+              Approved payout addresses. Invoices from a known vendor asking to be paid elsewhere are sent to review.
+            </p>
+          </div>
+          {editing === null && (
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center gap-1.5 rounded-xl bg-black px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-800"
+            >
+              <Plus className="h-4 w-4" /> Add vendor
+            </button>
+          )}
+        </div>
+
+        {editing === 'new' && <VendorForm onSubmit={handleSave} onCancel={() => setEditing(null)} />}
+
+        {loading ? (
+          <div className="h-28 animate-pulse rounded-2xl bg-zinc-100" />
+        ) : vendors.length === 0 && editing === null ? (
+          <p className="rounded-2xl border border-dashed border-zinc-300 p-8 text-center text-sm text-zinc-500">
+            No vendors registered yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {vendors.map(vendor =>
+              editing !== 'new' && editing?.id === vendor.id ? (
+                <VendorForm key={vendor.id} vendor={vendor} onSubmit={handleSave} onCancel={() => setEditing(null)} />
+              ) : (
+                <div key={vendor.id} className="rounded-2xl border border-zinc-200/80 bg-white p-5 shadow-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-semibold text-zinc-900">{vendor.name}</p>
+                      {vendor.aliases.length > 0 && (
+                        <p className="text-xs text-zinc-500">Also known as {vendor.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {vendor.preferredCurrency && (
+                        <span className="mr-2 rounded-full bg-zinc-100 px-2.5 py-0.5 text-[11px] font-bold text-zinc-600">
+                          {vendor.preferredCurrency}
+                        </span>
+                      )}
+                      <button onClick={() => setEditing(vendor)} className="rounded-lg p-2 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-700">
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => handleDelete(vendor)} className="rounded-lg p-2 text-zinc-400 hover:bg-red-50 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="mt-3 space-y-1">
+                    {vendor.payoutAddresses.map(payout => (
+                      <div key={`${payout.chain}-${payout.address}`} className="flex items-center gap-2 text-xs">
+                        <span className="w-24 font-semibold text-zinc-500">{payout.chain}</span>
+                        <code className="font-mono text-zinc-700">{payout.address}</code>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// scripts/create-approver-token.ts
+// Mint a secret sign-off token for one approver in the approval policy
+//
+// Prints the token (hand it to the approver; it is not stored anywhere) and the SHA-256 digest to put
+// in that approver's "tokenSha256" in config/approval-policy.json. Re-run to rotate a token.
+//
+// Run: pnpm approver-token <approverId>
+
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+import { randomBytes } from 'crypto';
+
+async function main() {
+  // Loaded after dotenv so APPROVAL_POLICY_PATH from .env.local applies
+  const { getApprovalPolicy, hashApproverToken } = await import('../app/lib/services/approvals');
+
+  const approverId = process.argv[2];
+  const { approvers } = getApprovalPolicy();
+  const approver = approvers.find(candidate => candidate.id === approverId);
+
+  if (!approver) {
+    console.error(`❌ Usage: pnpm approver-token <approverId> (one of: ${approvers.map(candidate => candidate.id).join(', ')})`);
+    process.exit(1);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+
+  console.log(`🖊️ ${approver.name} (${approver.id})\n`);
+  console.log(`   Token (give to the approver): ${token}`);
+  console.log(`   tokenSha256 (approval policy): ${hashApproverToken(token)}`);
+}
+
+main();
@@ -0,0 +1,87 @@
+// scripts/update-sanctions-blocklist.ts
+// Load OFAC SDN digital currency addresses into the sanctions blocklist
+//
+// Reads the SDN list CSV (downloaded from OFAC, or a local copy), collects every EVM address listed
+// as "Digital Currency Address - <ticker> 0x..." in the remarks column and replaces the entries of
+// the "OFAC SDN" list in the blocklist file. Other lists (e.g. the internal deny list) are kept.
+// Until this has run, screening reports the SDN list as not loaded and every payment is held for review.
+//
+// Run: pnpm update-sanctions [sdn.csv]
+//   SANCTIONS_BLOCKLIST_PATH - blocklist to update (default config/blocklist.json)
+//   OFAC_SDN_CSV_URL         - SDN CSV to download when no file is given
+
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+import { readFile, writeFile } from 'fs/promises';
+import type { BlocklistFile } from '../app/lib/services/sanctionsScreening';
+
+const SDN_LIST_NAME = 'OFAC SDN';
+const DEFAULT_SDN_CSV_URL = 'https://sanctionslistservice.ofac.treas.gov/api/PublicationPreview/exports/SDN.CSV';
+
+// Only EVM addresses can be invoice payout addresses
+const DIGITAL_CURRENCY_ADDRESS = /Digital Currency Address - ([A-Za-z0-9]+)\s+(0x[0-9a-fA-F]{40})/g;
+
+/**
+ * One entry per address; the SDN name and tickers become the label
+ */
+function parseSdnCsv(csv: string): { address: string; label: string }[] {
+  const entries = new Map<string, { name: string; tickers: Set<string> }>();
+
+  for (const line of csv.split(/\r?\n/)) {
+    // Rows start with the entity number and the quoted SDN name
+    const name = line.match(/^\d+,"([^"]*)"/)?.[1] ?? 'SDN entry';
+    for (const [, ticker, address] of line.matchAll(DIGITAL_CURRENCY_ADDRESS)) {
+      const key = address.toLowerCase();
+      const entry = entries.get(key) ?? { name, tickers: new Set<string>() };
+      entry.tickers.add(ticker.toUpperCase());
+      entries.set(key, entry);
+    }
+  }
+
+  return [...entries]
+    .map(([address, { name, tickers }]) => ({ address, label: `${name} (${[...tickers].join(', ')})` }))
+    .sort((a, b) => a.address.localeCompare(b.address));
+}
+
+async function main() {
+  // Loaded after dotenv so SANCTIONS_BLOCKLIST_PATH from .env.local applies
+  const { BLOCKLIST_PATH } = await import('../app/lib/services/sanctionsScreening');
+
+  const file = process.argv[2];
+  const source = file ?? (process.env.OFAC_SDN_CSV_URL || DEFAULT_SDN_CSV_URL);
+
+  let csv: string;
+  try {
+    if (file) {
+      csv = await readFile(file, 'utf8');
+    } else {
+      console.log(`⬇️ Downloading ${source}`);
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      csv = await response.text();
+    }
+  } catch (error) {
+    console.error(`❌ Cannot read ${source}:`, error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  const entries = parseSdnCsv(csv);
+  // The SDN list has carried digital currency addresses since 2018; none means the format changed
+  if (entries.length === 0) {
+    console.error(`❌ No digital currency addresses found in ${source} - blocklist left unchanged`);
+    process.exit(1);
+  }
+
+  const blocklist = JSON.parse(await readFile(BLOCKLIST_PATH, 'utf8')) as BlocklistFile;
+  const sdnList = { name: SDN_LIST_NAME, required: true, source, updatedAt: new Date().toISOString(), entries };
+  const lists = blocklist.lists.some(list => list.name === SDN_LIST_NAME)
+    ? blocklist.lists.map(list => (list.name === SDN_LIST_NAME ? sdnList : list))
+    : [sdnList, ...blocklist.lists];
+
+  await writeFile(BLOCKLIST_PATH, `${JSON.stringify({ ...blocklist, lists }, null, 2)}\n`);
+  console.log(`✅ ${BLOCKLIST_PATH}: ${entries.length} OFAC SDN addresses`);
+}
+
+main();
@@ -0,0 +1,62 @@
+// scripts/verify-audit-log.ts
+// Verify the hash chain of the audit log (the live log, or an exported .jsonl file)
+//
+// Detects edited entries (hash mismatch), deleted or reordered entries (sequence and prevHash breaks)
+// and entries removed from the end (compared with the stored head, or a head from an earlier export).
+//
+// Run: npx tsx scripts/verify-audit-log.ts [file.jsonl] [--expect-head <seq>:<hash>]
+
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+import { readFile } from 'fs/promises';
+
+function parseHead(value: string | undefined): { seq: number; hash: string } | null {
+  const match = value?.match(/^(\d+):([0-9a-f]{64})$/);
+  if (!match) {
+    console.error('❌ --expect-head must look like <seq>:<sha256 hex>, e.g. the X-Audit-Head of an export');
+    process.exit(2);
+  }
+  return { seq: Number(match[1]), hash: match[2] };
+}
+
+async function main() {
+  // Loaded after dotenv so AUDIT_LOG_PATH / TRESORA_DATA_DIR from .env.local apply
+  const { AUDIT_LOG_PATH, parseAuditLog, readAuditHead, verifyAuditEntries } = await import('../app/lib/services/auditLog');
+
+  const args = process.argv.slice(2);
+  const headIndex = args.indexOf('--expect-head');
+  const expectedHead = headIndex >= 0 ? parseHead(args[headIndex + 1]) : null;
+  const file = args.find((arg, index) => !arg.startsWith('--') && (headIndex < 0 || index !== headIndex + 1));
+  const logPath = file ?? AUDIT_LOG_PATH;
+
+  let raw: string;
+  try {
+    raw = await readFile(logPath, 'utf8');
+  } catch (error) {
+    console.error(`❌ Cannot read ${logPath}:`, error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  const { entries, issues: parseIssues } = parseAuditLog(raw);
+  // The live log is also checked against the head the app stored after its last write
+  const head = expectedHead ?? (file ? null : await readAuditHead());
+  const verification = verifyAuditEntries(entries, head);
+  const issues = [...parseIssues, ...verification.issues];
+
+  console.log(`📜 ${logPath}`);
+  console.log(`   Entries: ${verification.entries}`);
+  console.log(`   Head:    ${verification.head.seq}:${verification.head.hash}`);
+  if (head) {
+    console.log(`   Checked against head ${head.seq}:${head.hash}`);
+  }
+
+  if (issues.length > 0) {
+    console.error(`\n❌ Audit log FAILED verification (${issues.length} issue(s)):`);
+    issues.forEach(issue => console.error(`   - ${issue}`));
+    process.exit(1);
+  }
+
+  console.log('\n✅ Audit log verified: hash chain intact');
+}
+
+main();
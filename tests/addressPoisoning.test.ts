@@ -0,0 +1,44 @@
+// tests/addressPoisoning.test.ts
+// Look-alike detection: shared leading or trailing characters with past counterparties
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { findLookAlikeAddresses, shortenAddress } from '@/app/lib/services/addressPoisoning';
+
+const VENDOR = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+
+describe('look-alike addresses', () => {
+  it('flags an address that mimics the start or end of a paid counterparty', () => {
+    const prefix = '0x7c13ffffffffffffffffffffffffffffffffffff';
+    const suffix = '0xffffffffffffffffffffffffffffffffffff63f0';
+
+    assert.deepEqual(findLookAlikeAddresses(prefix, { paid: [VENDOR], received: [] }), [
+      { counterparty: VENDOR, matchingPrefix: 4, matchingSuffix: 0, paidBefore: true },
+    ]);
+    assert.deepEqual(findLookAlikeAddresses(suffix, { paid: [], received: [VENDOR] }), [
+      { counterparty: VENDOR, matchingPrefix: 0, matchingSuffix: 4, paidBefore: false },
+    ]);
+  });
+
+  it('ignores the counterparty itself, in any case', () => {
+    assert.deepEqual(findLookAlikeAddresses(VENDOR.toUpperCase().replace('0X', '0x'), { paid: [VENDOR], received: [] }), []);
+  });
+
+  it('ignores matches shorter than what wallets display', () => {
+    assert.deepEqual(findLookAlikeAddresses('0x7c1fffffffffffffffffffffffffffffffff63f1', { paid: [VENDOR], received: [] }), []);
+  });
+
+  it('lists the strongest mimic first', () => {
+    const weak = '0x7c13000000000000000000000000000000000000';
+    const strong = '0x7c138715000000000000000000000000000063f0';
+
+    const matches = findLookAlikeAddresses(VENDOR, { paid: [weak], received: [strong] });
+
+    assert.deepEqual(matches.map(match => match.counterparty), [strong, weak]);
+  });
+
+  it('shortens addresses the way wallets show them', () => {
+    assert.equal(shortenAddress(VENDOR), '0x7c13…63f0');
+  });
+});
@@ -0,0 +1,261 @@
+// tests/approvals.test.ts
+// M-of-N sign-off against a temp policy and store: quorum tiers, approver tokens, decisions and execution claims
+
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { InvoiceData, InvoiceFingerprint, PendingPayment, TreasuryPlan } from '@/app/types';
+
+const TOKENS = { cfo: 'cfo-secret', controller: 'controller-secret', treasurer: 'treasurer-secret' };
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Policy path and store directory are read when the modules load, so both are set first
+const tempDir = mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+const policyPath = path.join(tempDir, 'approval-policy.json');
+writeFileSync(policyPath, JSON.stringify({
+  approvers: [
+    { id: 'cfo', name: 'Chief Financial Officer', tokenSha256: sha256(TOKENS.cfo) },
+    { id: 'controller', name: 'Financial Controller', tokenSha256: sha256(TOKENS.controller) },
+    { id: 'treasurer', name: 'Treasurer', tokenSha256: sha256(TOKENS.treasurer) },
+    { id: 'ceo', name: 'Chief Executive Officer' },
+  ],
+  tiers: [
+    { label: 'Standard', maxAmount: 1000, requiredApprovals: 1 },
+    { label: 'Large', maxAmount: 10000, requiredApprovals: 2 },
+    { label: 'Major', maxAmount: null, requiredApprovals: 3 },
+  ],
+  rejectionsToBlock: 1,
+}));
+process.env.APPROVAL_POLICY_PATH = policyPath;
+process.env.TRESORA_DATA_DIR = path.join(tempDir, 'data');
+
+let approvals: typeof import('@/app/lib/services/approvals');
+let treasuryPlans: typeof import('@/app/lib/services/treasuryPlans');
+
+before(async () => {
+  // Decision logs would interleave with the runner's messages on stdout and can break its parser on Node 20
+  mock.method(console, 'log', () => {});
+  approvals = await import('@/app/lib/services/approvals');
+  treasuryPlans = await import('@/app/lib/services/treasuryPlans');
+});
+
+const WALLET = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+const CFO = { id: 'cfo', name: 'Chief Financial Officer' };
+const CONTROLLER = { id: 'controller', name: 'Financial Controller' };
+
+function invoice(amount: string): InvoiceData {
+  return {
+    walletAddress: WALLET,
+    amount,
+    recipient: 'Ethzeck Auditors',
+    purpose: 'Audit',
+    invoiceNumber: 'INV-1',
+    issueDate: '2026-02-07',
+    dueDate: 'NOT_FOUND',
+    lineItems: [],
+    subtotal: null,
+    discount: null,
+    tax: null,
+    total: null,
+    evidence: {},
+  };
+}
+
+function plan(amount: string): TreasuryPlan {
+  return {
+    invoiceAmount: amount,
+    invoiceCurrency: 'USDC',
+    recipientAddress: WALLET,
+    arcBalance: '50000',
+    arcSufficient: true,
+    deficit: '0',
+    sepoliaEthBalance: '0',
+    sepoliaUsdcBalance: '0',
+    swapNeeded: false,
+    swapQuoteEth: null,
+    bridgeNeeded: false,
+    bridgeAmount: null,
+    steps: [{ id: 'pay', name: 'Pay invoice', description: `Send ${amount} USDC`, status: 'pending' }],
+    canExecute: true,
+  };
+}
+
+async function createPayment(amount: string, fingerprint: InvoiceFingerprint | null = null): Promise<PendingPayment> {
+  const issued = await treasuryPlans.issueTreasuryPlan(plan(amount), null);
+  return approvals.createPendingPayment(invoice(`${amount} USDC`), issued, 'invoice.pdf', null, fingerprint);
+}
+
+// Rewrite a stored payment directly, e.g. to age an execution claim
+function editStoredPayment(id: string, change: (payment: PendingPayment) => PendingPayment) {
+  const storePath = path.join(tempDir, 'data', 'pending-payments.json');
+  const payments = JSON.parse(readFileSync(storePath, 'utf8')) as PendingPayment[];
+  writeFileSync(storePath, JSON.stringify(payments.map(payment => (payment.id === id ? change(payment) : payment))));
+}
+
+describe('quorum tiers', () => {
+  it('picks the first tier whose maxAmount covers the amount', () => {
+    assert.equal(approvals.getQuorumTier(10).label, 'Standard');
+    assert.equal(approvals.getQuorumTier(1000).label, 'Standard');
+    assert.equal(approvals.getQuorumTier(1000.01).label, 'Large');
+    assert.equal(approvals.getQuorumTier(250000).label, 'Major');
+  });
+
+  it('gives unreadable amounts the strictest tier', () => {
+    assert.equal(approvals.getQuorumTier(null).requiredApprovals, 3);
+  });
+
+  it('snapshots the tier and approvers on the payment', async () => {
+    const payment = await createPayment('5000');
+
+    assert.equal(payment.status, 'pending');
+    assert.deepEqual(payment.tier, { label: 'Large', maxAmount: 10000, requiredApprovals: 2 });
+    assert.deepEqual(payment.eligibleApprovers.map(approver => approver.id), ['cfo', 'controller', 'treasurer', 'ceo']);
+    // Token hashes never reach the stored payment
+    assert.ok(payment.eligibleApprovers.every(approver => !('tokenSha256' in approver)));
+  });
+});
+
+describe('approver tokens', () => {
+  it('accepts the approver\'s own token', () => {
+    assert.deepEqual(approvals.authenticateApprover('cfo', TOKENS.cfo), CFO);
+  });
+
+  it('refuses a wrong token, another approver\'s token and unknown approvers', () => {
+    assert.equal(approvals.authenticateApprover('cfo', 'guess'), null);
+    assert.equal(approvals.authenticateApprover('cfo', TOKENS.controller), null);
+    assert.equal(approvals.authenticateApprover('intern', TOKENS.cfo), null);
+  });
+
+  it('refuses an approver with no token configured', () => {
+    assert.equal(approvals.authenticateApprover('ceo', ''), null);
+  });
+});
+
+describe('approval decisions', () => {
+  it('approves once the tier quorum is reached', async () => {
+    const { id } = await createPayment('5000');
+
+    const first = await approvals.recordApprovalDecision(id, CFO, 'approve');
+    assert.equal(first.error, null);
+    assert.equal(first.payment?.status, 'pending');
+
+    const second = await approvals.recordApprovalDecision(id, CONTROLLER, 'approve', '  ok  ');
+    assert.equal(second.payment?.status, 'approved');
+    assert.equal(second.payment?.decisions[1].comment, 'ok');
+  });
+
+  it('cancels the payment on rejectionsToBlock rejections', async () => {
+    const { id } = await createPayment('5000');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+
+    const { payment } = await approvals.recordApprovalDecision(id, CONTROLLER, 'reject');
+
+    assert.equal(payment?.status, 'rejected');
+  });
+
+  it('lets each approver decide once', async () => {
+    const { id } = await createPayment('5000');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+
+    const { payment, error } = await approvals.recordApprovalDecision(id, CFO, 'approve');
+
+    assert.match(error ?? '', /already decided/);
+    assert.equal(payment?.decisions.length, 1);
+  });
+
+  it('refuses approvers outside the payment\'s snapshot', async () => {
+    const { id } = await createPayment('50');
+
+    const { error } = await approvals.recordApprovalDecision(id, { id: 'intern', name: 'Intern' }, 'approve');
+
+    assert.match(error ?? '', /not an approver/);
+  });
+
+  it('refuses decisions once the payment is settled', async () => {
+    const { id } = await createPayment('50');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+
+    const { error } = await approvals.recordApprovalDecision(id, CONTROLLER, 'reject');
+
+    assert.equal(error, 'Payment is already approved');
+  });
+
+  it('returns no payment for an unknown id', async () => {
+    assert.deepEqual(await approvals.recordApprovalDecision('missing', CFO, 'approve'), { payment: null, error: null });
+  });
+
+  it('blocks approving a second upload of an already approved invoice', async () => {
+    const fingerprint: InvoiceFingerprint = {
+      contentHash: sha256('pdf bytes'),
+      invoiceKey: sha256('inv-dup|ethzeck auditors|75.00 usdc'),
+      invoiceNumber: 'INVDUP',
+      vendor: 'ethzeck auditors',
+      amount: '75.00 USDC',
+      walletAddress: WALLET,
+    };
+    const original = await createPayment('75', fingerprint);
+    const copy = await createPayment('75', fingerprint);
+
+    assert.equal((await approvals.recordApprovalDecision(original.id, CFO, 'approve')).payment?.status, 'approved');
+    const { payment, error } = await approvals.recordApprovalDecision(copy.id, CFO, 'approve');
+
+    assert.match(error ?? '', /already approved - reject this duplicate payment/);
+    assert.equal(payment?.status, 'pending');
+    // Rejecting the duplicate is still allowed
+    assert.equal((await approvals.recordApprovalDecision(copy.id, CFO, 'reject')).payment?.status, 'rejected');
+  });
+});
+
+describe('execution claims', () => {
+  it('refuses to execute before quorum', async () => {
+    const { id } = await createPayment('5000');
+
+    const { error } = await approvals.claimPaymentForExecution(id);
+
+    assert.equal(error, 'Payment needs 2 approval(s); 0 so far');
+  });
+
+  it('claims an approved payment once', async () => {
+    const { id } = await createPayment('50');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+
+    assert.equal((await approvals.claimPaymentForExecution(id)).payment?.status, 'executing');
+    assert.equal((await approvals.claimPaymentForExecution(id)).error, 'Payment is executing');
+  });
+
+  it('lets a failed payment be claimed again', async () => {
+    const { id } = await createPayment('50');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+    await approvals.claimPaymentForExecution(id);
+    await approvals.completePaymentExecution(id, 'Bridge timed out', ['swap']);
+
+    const { payment, error } = await approvals.claimPaymentForExecution(id);
+
+    assert.equal(error, null);
+    assert.equal(payment?.status, 'executing');
+    assert.equal(payment?.executionError, null);
+    assert.deepEqual(payment?.completedSteps, ['swap']);
+  });
+
+  it('lets a stale execution be claimed again', async () => {
+    const { id } = await createPayment('50');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+    await approvals.claimPaymentForExecution(id);
+    editStoredPayment(id, payment => ({ ...payment, updatedAt: new Date(Date.now() - 31 * 60 * 1000).toISOString() }));
+
+    assert.equal((await approvals.claimPaymentForExecution(id)).error, null);
+  });
+
+  it('never claims an executed payment', async () => {
+    const { id } = await createPayment('50');
+    await approvals.recordApprovalDecision(id, CFO, 'approve');
+    await approvals.claimPaymentForExecution(id);
+    await approvals.completePaymentExecution(id, null);
+
+    assert.equal((await approvals.claimPaymentForExecution(id)).error, 'Payment is executed');
+  });
+});
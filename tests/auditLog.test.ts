@@ -0,0 +1,124 @@
+// tests/auditLog.test.ts
+// Hash-chained audit log: appends link up, and edited, deleted or truncated entries are detected
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it } from 'node:test';
+
+import type { AuditEntry } from '@/app/lib/services/auditLog';
+
+// The log path is read when the module loads
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+process.env.TRESORA_DATA_DIR = dataDir;
+delete process.env.AUDIT_LOG_PATH;
+
+let auditLog: typeof import('@/app/lib/services/auditLog');
+let entries: AuditEntry[];
+
+before(async () => {
+  auditLog = await import('@/app/lib/services/auditLog');
+
+  await auditLog.appendAuditEntry({ action: 'invoice.uploaded', runId: 'run-1', data: { fileName: 'invoice.pdf' } });
+  await auditLog.appendAuditEntry({ action: 'recommendation.issued', runId: 'run-1', data: { recommendation: 'APPROVE' } });
+  await auditLog.appendAuditEntry({ action: 'payment.approved', actor: 'cfo', paymentId: 'payment-1', data: { approvals: 1 } });
+  await auditLog.appendAuditEntry({ action: 'execution.completed', paymentId: 'payment-1', data: { txHash: '0xabc' } });
+  entries = await auditLog.readAuditLog();
+});
+
+// Copies, so each test tampers with its own chain
+function chain(): AuditEntry[] {
+  return entries.map(entry => structuredClone(entry));
+}
+
+describe('audit log chain', () => {
+  it('links every appended entry to the one before it', () => {
+    assert.deepEqual(entries.map(entry => entry.seq), [1, 2, 3, 4]);
+    assert.equal(entries[0].prevHash, auditLog.GENESIS_HASH);
+    assert.equal(entries[0].actor, 'system');
+    assert.equal(entries[2].prevHash, entries[1].hash);
+
+    const verification = auditLog.verifyAuditEntries(chain());
+    assert.equal(verification.valid, true);
+    assert.deepEqual(verification.head, { seq: 4, hash: entries[3].hash });
+  });
+
+  it('verifies the log on disk against the stored head', async () => {
+    const verification = await auditLog.verifyAuditLog();
+
+    assert.deepEqual(verification.issues, []);
+    assert.equal(verification.entries, 4);
+  });
+
+  it('hashes data independently of key order', () => {
+    assert.equal(auditLog.canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: undefined } }), '{"a":{"d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+});
+
+describe('tampering', () => {
+  it('flags an edited entry', () => {
+    const edited = chain();
+    edited[1].data = { recommendation: 'REJECT' };
+
+    const { valid, issues } = auditLog.verifyAuditEntries(edited);
+
+    assert.equal(valid, false);
+    assert.deepEqual(issues, ['Entry 2: hash mismatch (entry edited)']);
+  });
+
+  it('catches a re-hashed edit at the next entry\'s link', () => {
+    const edited = chain();
+    edited[1].actor = 'attacker';
+    edited[1].hash = auditLog.hashAuditEntry(edited[1]);
+
+    const { issues } = auditLog.verifyAuditEntries(edited);
+
+    assert.deepEqual(issues, ['Entry 3: prevHash does not match the previous entry (entry deleted or edited before it)']);
+  });
+
+  it('flags an entry deleted from the middle', () => {
+    const deleted = chain();
+    deleted.splice(1, 1);
+
+    const { valid, issues } = auditLog.verifyAuditEntries(deleted);
+
+    assert.equal(valid, false);
+    assert.match(issues[0], /^Entry 2: sequence is 3/);
+    assert.match(issues[1], /^Entry 3: prevHash does not match/);
+  });
+
+  it('needs the recorded head to notice entries removed from the end', () => {
+    const truncated = chain().slice(0, 2);
+    const head = { seq: 4, hash: entries[3].hash };
+
+    assert.equal(auditLog.verifyAuditEntries(truncated).valid, true);
+    assert.deepEqual(auditLog.verifyAuditEntries(truncated, head).issues, [
+      'Expected at least 4 entries but found 2 (entries deleted from the end)',
+    ]);
+  });
+
+  it('flags the head entry when it no longer matches the recorded head', () => {
+    const head = { seq: 2, hash: entries[1].hash };
+    const rewritten = chain();
+    rewritten[1].hash = '0'.repeat(64);
+
+    const { issues } = auditLog.verifyAuditEntries(rewritten, head);
+
+    assert.ok(issues.includes(`Entry 2: hash does not match the recorded head ${head.hash}`));
+  });
+
+  it('reports unparseable lines and truncation of the file on disk', async () => {
+    const logPath = auditLog.AUDIT_LOG_PATH;
+    const lines = readFileSync(logPath, 'utf8').trimEnd().split('\n');
+    writeFileSync(logPath, `${lines.slice(0, 2).join('\n')}\n{"seq":3,\n`);
+
+    const { valid, issues } = await auditLog.verifyAuditLog();
+
+    assert.equal(valid, false);
+    assert.deepEqual(issues, [
+      'Line 3 is not valid JSON',
+      'Expected at least 4 entries but found 2 (entries deleted from the end)',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+// tests/executionState.test.ts
+// Persisted step state of plan executions: attempts, stable idempotency keys and what a retry resumes from
+
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { PlanExecutionState, StepExecutionState } from '@/app/lib/services/executionState';
+import type { TreasuryPlan } from '@/app/types';
+
+// The store directory is read when the modules load
+process.env.TRESORA_DATA_DIR = mkdtempSync(path.join(os.tmpdir(), 'execution-state-'));
+
+let executionState: typeof import('@/app/lib/services/executionState');
+let treasuryPlans: typeof import('@/app/lib/services/treasuryPlans');
+
+before(async () => {
+  // Plan logs on stdout can be misread by Node 20's runner as test messages
+  mock.method(console, 'log', () => {});
+  executionState = await import('@/app/lib/services/executionState');
+  treasuryPlans = await import('@/app/lib/services/treasuryPlans');
+});
+
+const STEPS = ['swap', 'bridge', 'pay'];
+
+function execution(statuses: Record<string, StepExecutionState['status']>, burnTxHash: string | null = null): PlanExecutionState {
+  return {
+    planId: 'plan',
+    attempts: 1,
+    steps: Object.entries(statuses).map(([stepId, status]) => ({
+      stepId,
+      status,
+      idempotencyKey: `${stepId}-key`,
+      circleTransactionId: null,
+      txHash: null,
+      burnTxHash: stepId === 'bridge' ? burnTxHash : null,
+      bridgeResult: null,
+      error: null,
+      updatedAt: '2026-02-07T00:00:00.000Z',
+    })),
+    createdAt: '2026-02-07T00:00:00.000Z',
+    updatedAt: '2026-02-07T00:00:00.000Z',
+  };
+}
+
+describe('plan execution state', () => {
+  it('starts every step pending with its own idempotency key', async () => {
+    const started = await executionState.beginPlanExecution('plan-1', STEPS);
+
+    assert.equal(started.attempts, 1);
+    assert.deepEqual(started.steps.map(step => [step.stepId, step.status]), [['swap', 'pending'], ['bridge', 'pending'], ['pay', 'pending']]);
+    assert.equal(new Set(started.steps.map(step => step.idempotencyKey)).size, 3);
+  });
+
+  it('keeps step state and idempotency keys across attempts', async () => {
+    const first = await executionState.beginPlanExecution('plan-2', ['swap', 'pay']);
+    await executionState.saveStepState('plan-2', 'swap', { status: 'success', txHash: '0xswap' });
+
+    const second = await executionState.beginPlanExecution('plan-2', STEPS);
+
+    assert.equal(second.attempts, 2);
+    assert.equal(second.createdAt, first.createdAt);
+    assert.deepEqual(second.steps.map(step => step.stepId), ['swap', 'pay', 'bridge']);
+    assert.equal(second.steps[0].status, 'success');
+    assert.equal(second.steps[0].idempotencyKey, first.steps[0].idempotencyKey);
+    assert.deepEqual(executionState.completedStepIds(second), ['swap']);
+  });
+
+  it('stores Bridge Kit results that JSON cannot hold as is', async () => {
+    await executionState.beginPlanExecution('plan-3', STEPS);
+    const bridgeResult = { amount: 10n, error: new Error('attestation timeout') } as unknown as StepExecutionState['bridgeResult'];
+
+    await executionState.saveStepState('plan-3', 'bridge', { status: 'submitted', burnTxHash: '0xburn', bridgeResult });
+    const saved = (await executionState.getPlanExecution('plan-3'))?.steps.find(step => step.stepId === 'bridge');
+
+    assert.equal(saved?.burnTxHash, '0xburn');
+    assert.deepEqual(saved?.bridgeResult, { amount: '10', error: 'attestation timeout' });
+  });
+
+  it('returns null when saving a step the execution does not have', async () => {
+    await executionState.beginPlanExecution('plan-4', STEPS);
+
+    assert.equal(await executionState.saveStepState('plan-4', 'refund', { status: 'failed' }), null);
+    assert.equal(await executionState.saveStepState('missing', 'swap', { status: 'failed' }), null);
+  });
+});
+
+describe('resume decisions', () => {
+  it('treats completed, submitted and burned steps as having moved funds', () => {
+    assert.equal(executionState.hasSubmittedSteps(null), false);
+    assert.equal(executionState.hasSubmittedSteps(execution({ swap: 'pending', pay: 'failed' })), false);
+    assert.equal(executionState.hasSubmittedSteps(execution({ swap: 'success', pay: 'pending' })), true);
+    assert.equal(executionState.hasSubmittedSteps(execution({ swap: 'submitted' })), true);
+    assert.equal(executionState.hasSubmittedSteps(execution({ bridge: 'failed' }, '0xburn')), true);
+  });
+
+  it('resumes only after steps that succeeded', () => {
+    assert.deepEqual(executionState.completedStepIds(execution({ swap: 'success', bridge: 'submitted', pay: 'pending' })), ['swap']);
+    assert.deepEqual(executionState.completedStepIds(null), []);
+  });
+
+  it('keeps an expired plan executable once it has moved funds', async () => {
+    const plan: TreasuryPlan = {
+      invoiceAmount: '10',
+      invoiceCurrency: 'USDC',
+      recipientAddress: '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0',
+      arcBalance: '0',
+      arcSufficient: false,
+      deficit: '10',
+      sepoliaEthBalance: '1',
+      sepoliaUsdcBalance: '0',
+      swapNeeded: true,
+      swapQuoteEth: '0.01',
+      bridgeNeeded: true,
+      bridgeAmount: '10',
+      steps: STEPS.map(id => ({ id, name: id, description: id, status: 'pending' })),
+      canExecute: true,
+    };
+    const untouched = await treasuryPlans.issueTreasuryPlan(plan, 'run-1');
+    const resumed = await treasuryPlans.issueTreasuryPlan(plan, 'run-1');
+    await executionState.beginPlanExecution(resumed.planId!, STEPS);
+    await executionState.saveStepState(resumed.planId!, 'swap', { status: 'success', txHash: '0xswap' });
+    const later = new Date(new Date(resumed.expiresAt!).getTime() + 60 * 60 * 1000);
+
+    assert.equal((await treasuryPlans.verifyPlanForExecution(untouched.planId!, 'run-1', later)).status, 410);
+    assert.equal((await treasuryPlans.verifyPlanForExecution(resumed.planId!, 'run-1', later)).status, 200);
+  });
+});
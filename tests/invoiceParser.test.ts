@@ -0,0 +1,56 @@
+// tests/invoiceParser.test.ts
+// Rule-based text-layer extraction over the sample invoices in invoices/
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { extractInvoiceFromTextLayer, parseInvoiceText, TEXT_LAYER_MIN_CONFIDENCE } from '@/app/lib/services/invoiceParser';
+
+const INVOICES_DIR = path.join(process.cwd(), 'invoices');
+const WALLET = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+
+async function extractSample(fileName: string) {
+  const extraction = await extractInvoiceFromTextLayer(await readFile(path.join(INVOICES_DIR, fileName)));
+  assert.ok(extraction, `${fileName} has no usable text layer`);
+  return extraction;
+}
+
+describe('text-layer invoice parser', () => {
+  it('extracts the USDC sample without falling back to the LLM', async () => {
+    const { invoiceData, confidence, missing } = await extractSample('invoice_10_usdc_arc.pdf');
+
+    assert.ok(confidence >= TEXT_LAYER_MIN_CONFIDENCE);
+    assert.deepEqual(missing, []);
+    assert.equal(invoiceData.walletAddress, WALLET);
+    assert.equal(invoiceData.amount, '10 USDC');
+    assert.equal(invoiceData.recipient, 'Ethzeck Auditors');
+    assert.equal(invoiceData.purpose, 'Consulting / Audit Fee');
+    assert.equal(invoiceData.invoiceNumber, 'INV-2026-004');
+    assert.equal(invoiceData.issueDate, 'Feb 07, 2026');
+    assert.equal(invoiceData.total, 10);
+    assert.deepEqual(invoiceData.lineItems, [
+      { description: 'Consulting / Audit Fee', quantity: 1, unitPrice: 10, total: 10 },
+    ]);
+    assert.equal(invoiceData.evidence?.walletAddress?.page, 1);
+  });
+
+  it('extracts the EURC sample', async () => {
+    const { invoiceData, confidence } = await extractSample('invoice_10_eurc_arc.pdf');
+
+    assert.ok(confidence >= TEXT_LAYER_MIN_CONFIDENCE);
+    assert.equal(invoiceData.walletAddress, WALLET);
+    assert.equal(invoiceData.amount, '10 EURC');
+    assert.equal(invoiceData.invoiceNumber, 'INV-2026-005');
+    assert.equal(invoiceData.total, 10);
+  });
+
+  it('reports missing fields and low confidence for text without invoice labels', () => {
+    const { invoiceData, confidence, missing } = parseInvoiceText(['Quarterly newsletter\nNothing to pay here']);
+
+    assert.equal(invoiceData.walletAddress, 'NOT_FOUND');
+    assert.ok(missing.includes('walletAddress'));
+    assert.ok(confidence < TEXT_LAYER_MIN_CONFIDENCE);
+  });
+});
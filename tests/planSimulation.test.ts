@@ -0,0 +1,65 @@
+// tests/planSimulation.test.ts
+// Plan dry run for steps that need no chain access: the bridge amount check and the overall verdict
+
+import assert from 'node:assert/strict';
+import { before, describe, it, mock } from 'node:test';
+
+import type { TreasuryPlan } from '@/app/lib/services/treasuryManager';
+
+let treasuryManager: typeof import('@/app/lib/services/treasuryManager');
+
+before(async () => {
+  // Simulation verdicts are logged to stdout, which Node 20's runner shares with its messages
+  mock.method(console, 'log', () => {});
+  treasuryManager = await import('@/app/lib/services/treasuryManager');
+});
+
+// A bridge-only plan: Sepolia already holds USDC, nothing to swap
+function bridgePlan(sepoliaUsdcBalance: string, bridgeAmount: string): TreasuryPlan {
+  return {
+    invoiceAmount: '10',
+    invoiceCurrency: 'USDC',
+    recipientAddress: '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0',
+    arcBalance: '0',
+    arcSufficient: false,
+    deficit: bridgeAmount,
+    sepoliaEthBalance: '0',
+    sepoliaUsdcBalance,
+    swapNeeded: false,
+    swapQuoteEth: null,
+    bridgeNeeded: true,
+    bridgeAmount,
+    steps: [{ id: 'bridge', name: 'Bridge USDC', description: `Bridge ${bridgeAmount} USDC to Arc`, status: 'pending' }],
+    canExecute: true,
+  };
+}
+
+describe('plan simulation', () => {
+  it('passes a bridge covered by the Sepolia balance and lists its balance changes', async () => {
+    const simulation = await treasuryManager.simulateTreasuryPlan(bridgePlan('25', '10.01'));
+    const [bridge] = simulation.steps;
+
+    assert.equal(simulation.success, true);
+    assert.equal(bridge.stepId, 'bridge');
+    assert.equal(bridge.status, 'skipped');
+    assert.deepEqual(bridge.balanceChanges.map(change => [change.chain, change.token, change.amount]), [
+      ['ETH-SEPOLIA', 'USDC', '-10.01'],
+      ['ARC-TESTNET', 'USDC', '10.01'],
+    ]);
+  });
+
+  it('fails a bridge the Sepolia balance cannot cover', async () => {
+    const simulation = await treasuryManager.simulateTreasuryPlan(bridgePlan('5', '10.01'));
+
+    assert.equal(simulation.success, false);
+    assert.equal(simulation.steps[0].status, 'failed');
+    assert.equal(simulation.steps[0].error, 'Sepolia would hold 5.000000 USDC, less than the 10.01 USDC to bridge');
+  });
+
+  it('passes a plan with nothing to simulate', async () => {
+    const simulation = await treasuryManager.simulateTreasuryPlan({ ...bridgePlan('0', '0'), bridgeNeeded: false, steps: [] });
+
+    assert.equal(simulation.success, true);
+    assert.deepEqual(simulation.steps, []);
+  });
+});
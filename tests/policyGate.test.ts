@@ -0,0 +1,218 @@
+// tests/policyGate.test.ts
+// Policy gate over the CFO recommendation: rule order, the enforcing rule and downgrade-only verdicts
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { PolicyGateContext } from '@/app/lib/services/policyGate';
+import type { CFORecommendation, InvoiceData, SecurityScan } from '@/app/types';
+
+// Thresholds and the auto-approve limit come from the risk policy, read when first used
+const policyPath = path.join(mkdtempSync(path.join(os.tmpdir(), 'gate-policy-')), 'risk-policy.json');
+writeFileSync(policyPath, JSON.stringify({
+  thresholds: { review: 40, reject: 70 },
+  gate: { maxAutoApproveAmount: 1000 },
+  rules: [],
+}));
+process.env.RISK_POLICY_PATH = policyPath;
+
+let gate: typeof import('@/app/lib/services/policyGate');
+
+before(async () => {
+  // Override logs go to stdout, where Node 20's runner can misread them as test messages
+  mock.method(console, 'log', () => {});
+  gate = await import('@/app/lib/services/policyGate');
+});
+
+const WALLET = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+
+function invoice(overrides: Partial<InvoiceData> = {}): InvoiceData {
+  return {
+    walletAddress: WALLET,
+    amount: '100 USDC',
+    recipient: 'Ethzeck Auditors',
+    purpose: 'Audit',
+    invoiceNumber: 'INV-1',
+    issueDate: '2026-02-07',
+    dueDate: 'NOT_FOUND',
+    lineItems: [{ description: 'Audit', quantity: 1, unitPrice: 100, total: 100 }],
+    subtotal: null,
+    discount: null,
+    tax: null,
+    total: 100,
+    evidence: {},
+    ...overrides,
+  };
+}
+
+function scan(overrides: Partial<SecurityScan> = {}): SecurityScan {
+  return {
+    riskScore: 5,
+    riskThresholds: { review: 40, reject: 70 },
+    isContract: false,
+    isVerified: false,
+    hasMaliciousLabel: false,
+    transactionCount: 120,
+    firstTransaction: '2024-01-01',
+    warnings: [],
+    etherscanLabels: [],
+    lookAlikeMatches: [],
+    sanctionsMatches: [],
+    screeningErrors: [],
+    payoutChainError: null,
+    chainScans: [],
+    riskBreakdown: [],
+    counterpartyAnalysis: null,
+    scannedAt: '2026-02-07T00:00:00.000Z',
+    cached: false,
+    contractInspections: [],
+    ...overrides,
+  };
+}
+
+// Every check ran and found nothing
+function context(overrides: Partial<PolicyGateContext> = {}): PolicyGateContext {
+  return {
+    invoiceData: invoice(),
+    securityScan: scan(),
+    duplicateCheck: {
+      fingerprint: { contentHash: 'a', invoiceKey: 'b', invoiceNumber: 'INV1', vendor: 'ethzeck auditors', amount: '100.00 USDC', walletAddress: WALLET },
+      isDuplicate: false,
+      matchType: null,
+      reasons: [],
+      original: null,
+      originalUrl: null,
+    },
+    vendorCheck: { status: 'verified', vendor: null, addressOwner: null, matchedAddress: null, issues: [] },
+    budgetCheck: null,
+    ...overrides,
+  };
+}
+
+function llm(recommendation: CFORecommendation['recommendation']): CFORecommendation {
+  return {
+    recommendation,
+    summary: 'LLM summary',
+    riskLevel: recommendation === 'APPROVE' ? 'LOW' : recommendation === 'REVIEW' ? 'MEDIUM' : 'HIGH',
+    details: ['LLM detail'],
+  };
+}
+
+const DUPLICATE = {
+  ...context().duplicateCheck!,
+  isDuplicate: true,
+  matchType: 'same-invoice' as const,
+  reasons: ['Invoice INV1 was already processed (first.pdf)'],
+};
+
+describe('policy gate', () => {
+  it('leaves a clean approval alone', () => {
+    const { recommendation, decision } = gate.applyPolicyGate(llm('APPROVE'), context());
+
+    assert.equal(recommendation.recommendation, 'APPROVE');
+    assert.equal(decision.overridden, false);
+    assert.equal(decision.enforcedBy, null);
+    assert.deepEqual(decision.firedRules, []);
+  });
+
+  it('reports fired rules in severity order, whatever the context', () => {
+    const { decision } = gate.applyPolicyGate(llm('APPROVE'), context({
+      invoiceData: invoice({ amount: '5000 USDC', total: 5000 }),
+      duplicateCheck: DUPLICATE,
+      securityScan: scan({ riskScore: 50 }),
+    }));
+
+    assert.deepEqual(decision.firedRules.map(hit => hit.ruleId), [
+      'risk-review-threshold',
+      'amount-over-limit',
+      'duplicate-invoice',
+      'totals-mismatch',
+    ]);
+  });
+
+  it('credits the first rule that downgraded the verdict', () => {
+    const { recommendation, decision } = gate.applyPolicyGate(llm('APPROVE'), context({
+      duplicateCheck: DUPLICATE,
+      securityScan: scan({ riskScore: 50 }),
+    }));
+
+    assert.equal(recommendation.recommendation, 'REVIEW');
+    assert.equal(decision.overridden, true);
+    assert.equal(decision.enforcedBy, 'risk-review-threshold');
+    assert.equal(decision.finalVerdict, 'REVIEW');
+    assert.equal(decision.llmRecommendation.recommendation, 'APPROVE');
+  });
+
+  it('lets a REJECT rule override earlier REVIEW verdicts', () => {
+    const { recommendation, decision } = gate.applyPolicyGate(llm('REVIEW'), context({
+      securityScan: scan({
+        riskScore: 100,
+        sanctionsMatches: [{ provider: 'blocklist', list: 'OFAC SDN', address: WALLET, label: 'Test entity' }],
+      }),
+      duplicateCheck: DUPLICATE,
+    }));
+
+    assert.equal(recommendation.recommendation, 'REJECT');
+    assert.equal(decision.enforcedBy, 'sanctioned-address');
+    assert.equal(decision.firedRules[0].ruleId, 'sanctioned-address');
+  });
+
+  it('never upgrades the LLM verdict', () => {
+    const { recommendation, decision } = gate.applyPolicyGate(llm('REJECT'), context({
+      securityScan: scan({ riskScore: 50 }),
+    }));
+
+    assert.equal(recommendation.recommendation, 'REJECT');
+    assert.equal(recommendation.summary, 'LLM summary');
+    assert.equal(decision.overridden, false);
+    assert.equal(decision.enforcedBy, null);
+    // The rule is still recorded and explained
+    assert.equal(decision.firedRules[0].ruleId, 'risk-review-threshold');
+    assert.match(recommendation.details[0], /^Policy gate \(risk-review-threshold\)/);
+  });
+
+  it('holds the payment when the duplicate or vendor check did not run', () => {
+    const { recommendation, decision } = gate.applyPolicyGate(llm('APPROVE'), context({ duplicateCheck: null, vendorCheck: null }));
+
+    assert.equal(recommendation.recommendation, 'REVIEW');
+    assert.equal(decision.enforcedBy, 'incomplete-invoice-checks');
+    assert.match(decision.firedRules[0].reason, /duplicate check, vendor check/);
+  });
+
+  it('holds the payment when screening or the payout chain scan is incomplete', () => {
+    const screening = gate.applyPolicyGate(llm('APPROVE'), context({ securityScan: scan({ screeningErrors: ['OFAC SDN not loaded'] }) }));
+    const payoutChain = gate.applyPolicyGate(llm('APPROVE'), context({ securityScan: scan({ payoutChainError: 'Arc Testnet could not be scanned' }) }));
+
+    assert.equal(screening.decision.enforcedBy, 'incomplete-screening');
+    assert.equal(payoutChain.decision.enforcedBy, 'incomplete-payout-chain-scan');
+  });
+
+  it('holds unverified contracts unless every inspection found a Safe', () => {
+    const safe = {
+      chain: 'ARC-TESTNET' as const,
+      codeHash: null,
+      isProxy: false,
+      implementation: null,
+      proxyAdmin: null,
+      beacon: null,
+      owner: null,
+      isErc20: false,
+      tokenSymbol: null,
+      isSafe: true,
+      safeSingleton: null,
+      respondsLikeSafe: true,
+      safeThreshold: 2,
+      safeOwners: [WALLET],
+      safeVersion: '1.3.0',
+    };
+    const contract = (contractInspections: SecurityScan['contractInspections']) =>
+      gate.applyPolicyGate(llm('APPROVE'), context({ securityScan: scan({ isContract: true, contractInspections }) }));
+
+    assert.equal(contract([safe]).recommendation.recommendation, 'APPROVE');
+    assert.equal(contract([safe, { ...safe, chain: 'ETH-SEPOLIA', isSafe: false }]).decision.enforcedBy, 'unverified-contract');
+    assert.equal(contract([]).decision.enforcedBy, 'unverified-contract');
+  });
+});
@@ -0,0 +1,83 @@
+// tests/quoteGuard.test.ts
+// Swap quote guard between plan and execution: quote age and price deviation in either direction
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+import type { SwapCall, TreasuryPlan } from '@/app/lib/services/treasuryManager';
+
+// Tolerances are read when the module loads
+process.env.QUOTE_MAX_AGE_MINUTES = '60';
+process.env.QUOTE_MAX_DEVIATION_BPS = '200';
+
+let treasuryManager: typeof import('@/app/lib/services/treasuryManager');
+
+before(async () => {
+  treasuryManager = await import('@/app/lib/services/treasuryManager');
+});
+
+const ONE_ETH = BigInt(10) ** BigInt(18);
+
+function plan(quotedMinutesAgo: number | null): TreasuryPlan {
+  return {
+    invoiceAmount: '3000',
+    invoiceCurrency: 'USDC',
+    recipientAddress: '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0',
+    arcBalance: '0',
+    arcSufficient: false,
+    deficit: '3000',
+    sepoliaEthBalance: '5',
+    sepoliaUsdcBalance: '0',
+    swapNeeded: true,
+    swapQuoteEth: '1.05',
+    swapQuote: quotedMinutesAgo === null ? null : {
+      amountInEth: '1',
+      maxAmountInEth: '1.05',
+      amountOutUsdc: '3000',
+      quotedAt: new Date(Date.now() - quotedMinutesAgo * 60 * 1000).toISOString(),
+      blockNumber: '7000000',
+    },
+    bridgeNeeded: true,
+    bridgeAmount: '3000',
+    steps: [],
+    canExecute: true,
+  };
+}
+
+// Re-quote needing `amountIn` wei of ETH
+function swap(amountIn: bigint): SwapCall {
+  return { args: ['0x', [], BigInt(0)], maxAmountIn: (amountIn * BigInt(105)) / BigInt(100), amountIn, amountOut: BigInt(3000e6) };
+}
+
+describe('swap quote guard', () => {
+  it('accepts a fresh re-quote within tolerance', () => {
+    assert.doesNotThrow(() => treasuryManager.guardSwapQuote(plan(5), swap(ONE_ETH)));
+    assert.doesNotThrow(() => treasuryManager.guardSwapQuote(plan(5), swap((ONE_ETH * BigInt(102)) / BigInt(100))));
+    assert.doesNotThrow(() => treasuryManager.guardSwapQuote(plan(5), swap((ONE_ETH * BigInt(98)) / BigInt(100))));
+  });
+
+  it('asks for re-approval when the price moved beyond tolerance either way', () => {
+    assert.throws(
+      () => treasuryManager.guardSwapQuote(plan(5), swap((ONE_ETH * BigInt(103)) / BigInt(100))),
+      { name: 'QuoteGuardError', message: /^Swap now needs 1\.03 ETH, 3\.00% off the approved 1 ETH \(tolerance 2\.00%\)/ }
+    );
+    assert.throws(
+      () => treasuryManager.guardSwapQuote(plan(5), swap((ONE_ETH * BigInt(90)) / BigInt(100))),
+      treasuryManager.QuoteGuardError
+    );
+  });
+
+  it('asks for re-approval when the plan\'s quote is too old', () => {
+    assert.throws(
+      () => treasuryManager.guardSwapQuote(plan(61), swap(ONE_ETH)),
+      { name: 'QuoteGuardError', message: /^Swap quote from block 7000000 is 61 minutes old \(max 60\)/ }
+    );
+  });
+
+  it('asks for re-approval when the plan recorded no quote', () => {
+    assert.throws(
+      () => treasuryManager.guardSwapQuote(plan(null), swap(ONE_ETH)),
+      { name: 'QuoteGuardError', message: 'Plan has no recorded swap quote; re-approval required' }
+    );
+  });
+});
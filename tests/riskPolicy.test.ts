@@ -0,0 +1,129 @@
+// tests/riskPolicy.test.ts
+// Risk scoring against a small fixed policy: weighted rules, numeric conditions, pinned scores and thresholds
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { RiskFactors, RiskPolicy } from '@/app/lib/services/riskPolicy';
+
+const POLICY: RiskPolicy = {
+  thresholds: { review: 40, reject: 70 },
+  rules: [
+    { id: 'sanctioned', label: 'On a sanctions list', when: { sanctionsMatchCount: { gte: 1 } }, setScore: 100 },
+    { id: 'look-alike', label: 'Mimics a past counterparty', when: { lookAlikeCount: { gte: 1 } }, setScore: 80 },
+    { id: 'unverified-contract', label: 'Unverified contract', when: { isContract: true, isVerified: false }, weight: 40 },
+    { id: 'low-history', label: 'Few transactions', when: { transactionCount: { lt: 10 } }, weight: 15 },
+    { id: 'no-labels', label: 'No labels', when: { labelCount: { eq: 0 } }, weight: 5 },
+    { id: 'new-wallet', label: 'Younger than 30 days', when: { walletAgeDays: { lt: 30 } }, weight: 20 },
+    { id: 'mixer', label: 'Mixer exposure', when: { mixerExposureCount: { gte: 1 } }, weight: 70 },
+  ],
+};
+
+// The policy is read from RISK_POLICY_PATH when first used, so it is written before the module loads
+const policyPath = path.join(mkdtempSync(path.join(os.tmpdir(), 'risk-policy-')), 'risk-policy.json');
+writeFileSync(policyPath, JSON.stringify(POLICY));
+process.env.RISK_POLICY_PATH = policyPath;
+
+let riskPolicy: typeof import('@/app/lib/services/riskPolicy');
+
+before(async () => {
+  // The policy load is logged to stdout, where Node 20's runner can misread it
+  mock.method(console, 'log', () => {});
+  riskPolicy = await import('@/app/lib/services/riskPolicy');
+});
+
+// An established, labelled EOA that no rule matches
+function cleanFactors(overrides: Partial<RiskFactors> = {}): RiskFactors {
+  return {
+    isContract: false,
+    isVerified: false,
+    isProxy: false,
+    isErc20: false,
+    isSafe: false,
+    hasMaliciousLabel: false,
+    hasSuspiciousLabel: false,
+    transactionCount: 250,
+    labelCount: 2,
+    walletAgeDays: 400,
+    lookAlikeCount: 0,
+    sanctionsMatchCount: 0,
+    mixerExposureCount: 0,
+    knownBadExposureCount: 0,
+    freshDrainerCount: 0,
+    ...overrides,
+  };
+}
+
+describe('risk policy scoring', () => {
+  it('scores zero when no rule fires', () => {
+    const { score, breakdown } = riskPolicy.evaluateRiskPolicy(cleanFactors());
+
+    assert.equal(score, 0);
+    assert.deepEqual(breakdown, []);
+  });
+
+  it('adds the weights of every matching rule', () => {
+    const { score, breakdown } = riskPolicy.evaluateRiskPolicy(
+      cleanFactors({ isContract: true, transactionCount: 3, labelCount: 0 })
+    );
+
+    assert.equal(score, 60);
+    assert.deepEqual(breakdown.map(contribution => contribution.ruleId), ['unverified-contract', 'low-history', 'no-labels']);
+    assert.ok(breakdown.every(contribution => !contribution.setsScore));
+  });
+
+  it('matches numeric conditions at their bounds', () => {
+    assert.equal(riskPolicy.evaluateRiskPolicy(cleanFactors({ transactionCount: 10 })).score, 0);
+    assert.equal(riskPolicy.evaluateRiskPolicy(cleanFactors({ transactionCount: 9 })).score, 15);
+    assert.equal(riskPolicy.evaluateRiskPolicy(cleanFactors({ walletAgeDays: 29 })).score, 20);
+  });
+
+  it('never matches a numeric condition on an unknown value', () => {
+    assert.equal(riskPolicy.evaluateRiskPolicy(cleanFactors({ walletAgeDays: null })).score, 0);
+  });
+
+  it('requires every condition of a rule', () => {
+    assert.equal(riskPolicy.evaluateRiskPolicy(cleanFactors({ isContract: true, isVerified: true })).score, 0);
+  });
+
+  it('clamps the weighted sum to 100', () => {
+    const { score, breakdown } = riskPolicy.evaluateRiskPolicy(
+      cleanFactors({ isContract: true, mixerExposureCount: 1 })
+    );
+
+    assert.equal(score, 100);
+    assert.equal(breakdown.reduce((sum, contribution) => sum + contribution.points, 0), 110);
+  });
+});
+
+describe('pinned scores', () => {
+  it('replaces the weighted sum with setScore', () => {
+    const { score, breakdown } = riskPolicy.evaluateRiskPolicy(
+      cleanFactors({ lookAlikeCount: 1, transactionCount: 3, labelCount: 0 })
+    );
+
+    assert.equal(score, 80);
+    assert.deepEqual(breakdown, [{ ruleId: 'look-alike', label: 'Mimics a past counterparty', points: 80, setsScore: true }]);
+  });
+
+  it('uses the highest pinned score when several fire', () => {
+    const { score, breakdown } = riskPolicy.evaluateRiskPolicy(
+      cleanFactors({ lookAlikeCount: 2, sanctionsMatchCount: 1 })
+    );
+
+    assert.equal(score, 100);
+    assert.equal(breakdown[0].ruleId, 'sanctioned');
+  });
+});
+
+describe('recommendation thresholds', () => {
+  it('maps scores to verdicts at the policy thresholds', () => {
+    assert.deepEqual(riskPolicy.getRecommendationFromScore(39), { recommendation: 'APPROVE', riskLevel: 'LOW' });
+    assert.deepEqual(riskPolicy.getRecommendationFromScore(40), { recommendation: 'REVIEW', riskLevel: 'MEDIUM' });
+    assert.deepEqual(riskPolicy.getRecommendationFromScore(69), { recommendation: 'REVIEW', riskLevel: 'MEDIUM' });
+    assert.deepEqual(riskPolicy.getRecommendationFromScore(70), { recommendation: 'REJECT', riskLevel: 'HIGH' });
+  });
+});
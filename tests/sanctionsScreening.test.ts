@@ -0,0 +1,101 @@
+// tests/sanctionsScreening.test.ts
+// Sanctions screening over a temp blocklist: matches, unloaded required lists and failing providers
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { BlocklistFile } from '@/app/lib/services/sanctionsScreening';
+
+const SANCTIONED = '0x8589427373d6d84e98730d7795d8f6f8731fda16';
+const DENIED = '0x1111111111111111111111111111111111111111';
+const CLEAN = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+
+const tempDir = mkdtempSync(path.join(os.tmpdir(), 'sanctions-'));
+const blocklistPath = path.join(tempDir, 'blocklist.json');
+
+function writeBlocklist(filePath: string, sdnEntries: BlocklistFile['lists'][number]['entries']) {
+  const blocklist: BlocklistFile = {
+    lists: [
+      { name: 'OFAC SDN', required: true, entries: sdnEntries },
+      { name: 'Internal deny list', entries: [{ address: DENIED, label: 'Chargeback fraud' }] },
+    ],
+  };
+  writeFileSync(filePath, JSON.stringify(blocklist));
+}
+
+// The default provider reads SANCTIONS_BLOCKLIST_PATH when the module loads
+writeBlocklist(blocklistPath, [{ address: SANCTIONED, label: 'Tornado Cash (ETH)' }]);
+process.env.SANCTIONS_BLOCKLIST_PATH = blocklistPath;
+
+let screening: typeof import('@/app/lib/services/sanctionsScreening');
+
+before(async () => {
+  // Blocklist and match logs would share stdout with Node 20's runner messages
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  screening = await import('@/app/lib/services/sanctionsScreening');
+});
+
+describe('local blocklist provider', () => {
+  it('matches addresses on any list, in any case', async () => {
+    const provider = screening.createLocalBlocklistProvider(blocklistPath);
+
+    assert.deepEqual(await provider.screen(SANCTIONED.toUpperCase().replace('0X', '0x')), [{
+      provider: 'local-blocklist',
+      list: 'OFAC SDN',
+      address: SANCTIONED.toUpperCase().replace('0X', '0x'),
+      label: 'Tornado Cash (ETH)',
+    }]);
+    assert.equal((await provider.screen(DENIED))[0].list, 'Internal deny list');
+    assert.deepEqual(await provider.screen(CLEAN), []);
+  });
+
+  it('refuses to clear an address while a required list is empty', async () => {
+    const emptyPath = path.join(tempDir, 'empty-sdn.json');
+    writeBlocklist(emptyPath, []);
+    const provider = screening.createLocalBlocklistProvider(emptyPath);
+
+    await assert.rejects(provider.screen(CLEAN), { message: 'OFAC SDN list not loaded' });
+    // A hit on another list is still reported
+    assert.equal((await provider.screen(DENIED)).length, 1);
+  });
+
+  it('picks up changes to the file', async () => {
+    const changingPath = path.join(tempDir, 'changing.json');
+    writeBlocklist(changingPath, [{ address: SANCTIONED }]);
+    const provider = screening.createLocalBlocklistProvider(changingPath);
+    assert.deepEqual(await provider.screen(CLEAN), []);
+
+    // Sleep past coarse mtime resolution so the rewrite is seen as a change
+    await new Promise(resolve => setTimeout(resolve, 20));
+    writeBlocklist(changingPath, [{ address: SANCTIONED }, { address: CLEAN, label: 'Newly listed' }]);
+
+    assert.equal((await provider.screen(CLEAN))[0]?.label, 'Newly listed');
+  });
+});
+
+describe('screenAddress', () => {
+  it('reports matches from the default blocklist', async () => {
+    const { matches, errors } = await screening.screenAddress(SANCTIONED);
+
+    assert.deepEqual(matches.map(match => match.list), ['OFAC SDN']);
+    assert.deepEqual(errors, []);
+  });
+
+  it('reports a failing provider as an error instead of failing the scan', async () => {
+    screening.registerScreeningProvider({
+      name: 'hosted-api',
+      screen: async () => {
+        throw new Error('HTTP 503');
+      },
+    });
+
+    const { matches, errors } = await screening.screenAddress(DENIED);
+
+    assert.equal(matches.length, 1);
+    assert.deepEqual(errors, ['hosted-api: HTTP 503']);
+  });
+});
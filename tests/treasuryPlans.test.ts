@@ -0,0 +1,129 @@
+// tests/treasuryPlans.test.ts
+// Server-issued treasury plans against a temp store: run binding, expiry, one-time execution and the plan hash
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { before, describe, it, mock } from 'node:test';
+
+import type { IssuedTreasuryPlan, TreasuryPlan } from '@/app/types';
+
+// The store directory is read when the modules load
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'treasury-plans-'));
+process.env.TRESORA_DATA_DIR = dataDir;
+process.env.PLAN_TTL_MINUTES = '60';
+
+let treasuryPlans: typeof import('@/app/lib/services/treasuryPlans');
+
+before(async () => {
+  // Issued-plan logs share stdout with the runner's test messages, which Node 20 can fail to parse
+  mock.method(console, 'log', () => {});
+  treasuryPlans = await import('@/app/lib/services/treasuryPlans');
+});
+
+const WALLET = '0x7c138715a4906a2d8371d6d1f5a66ab086f163f0';
+const RUN_ID = 'run-1';
+
+function plan(overrides: Partial<TreasuryPlan> = {}): TreasuryPlan {
+  return {
+    invoiceAmount: '10',
+    invoiceCurrency: 'USDC',
+    recipientAddress: WALLET,
+    arcBalance: '50',
+    arcSufficient: true,
+    deficit: '0',
+    sepoliaEthBalance: '0',
+    sepoliaUsdcBalance: '0',
+    swapNeeded: false,
+    swapQuoteEth: null,
+    bridgeNeeded: false,
+    bridgeAmount: null,
+    steps: [{ id: 'pay', name: 'Pay invoice', description: 'Send 10 USDC', status: 'pending' }],
+    canExecute: true,
+    ...overrides,
+  };
+}
+
+// Rewrite a stored plan directly, as anyone with access to the data directory could
+function editStoredPlan(id: string, change: (issued: IssuedTreasuryPlan) => IssuedTreasuryPlan) {
+  const storePath = path.join(dataDir, 'treasury-plans.json');
+  const plans = JSON.parse(readFileSync(storePath, 'utf8')) as IssuedTreasuryPlan[];
+  writeFileSync(storePath, JSON.stringify(plans.map(issued => (issued.id === id ? change(issued) : issued))));
+}
+
+describe('issued treasury plans', () => {
+  it('issues a plan with an ID and expiry that verifies for its run', async () => {
+    const issued = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    assert.ok(issued.planId);
+    assert.ok(new Date(issued.expiresAt!).getTime() - Date.now() > 59 * 60 * 1000);
+
+    const { plan: verified, error, status } = await treasuryPlans.verifyPlanForExecution(issued.planId!, RUN_ID);
+
+    assert.equal(error, null);
+    assert.equal(status, 200);
+    assert.deepEqual(verified, issued);
+  });
+
+  it('refuses unknown plan IDs', async () => {
+    const { error, status } = await treasuryPlans.verifyPlanForExecution('missing', RUN_ID);
+
+    assert.equal(status, 404);
+    assert.equal(error, 'Plan not found');
+  });
+
+  it('refuses a plan ID replayed from another run', async () => {
+    const { planId } = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+
+    assert.equal((await treasuryPlans.verifyPlanForExecution(planId!, 'run-2')).status, 409);
+    assert.equal((await treasuryPlans.verifyPlanForExecution(planId!, null)).status, 409);
+  });
+
+  it('refuses an expired plan', async () => {
+    const { planId, expiresAt } = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    const later = new Date(new Date(expiresAt!).getTime() + 1000);
+
+    const { error, status } = await treasuryPlans.verifyPlanForExecution(planId!, RUN_ID, later);
+
+    assert.equal(status, 410);
+    assert.match(error ?? '', /^Plan expired at/);
+  });
+
+  it('refuses a plan edited in the store after it was issued', async () => {
+    const { planId } = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    editStoredPlan(planId!, issued => ({ ...issued, plan: { ...issued.plan, recipientAddress: `0x${'f'.repeat(40)}` } }));
+
+    const { error, status } = await treasuryPlans.verifyPlanForExecution(planId!, RUN_ID);
+
+    assert.equal(status, 409);
+    assert.equal(error, 'Plan was modified after it was issued');
+  });
+
+  it('refuses a plan whose stored ID was swapped', async () => {
+    const { planId } = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    editStoredPlan(planId!, issued => ({ ...issued, plan: { ...issued.plan, planId: 'other' } }));
+
+    assert.equal((await treasuryPlans.verifyPlanForExecution(planId!, RUN_ID)).status, 409);
+  });
+
+  it('executes a plan at most once', async () => {
+    const { planId } = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    await treasuryPlans.markPlanExecuted(planId!);
+
+    const { error, status } = await treasuryPlans.verifyPlanForExecution(planId!, RUN_ID);
+
+    assert.equal(status, 409);
+    assert.match(error ?? '', /^Plan was already executed at/);
+  });
+
+  it('refuses a superseded plan, but never supersedes an executed one', async () => {
+    const replaced = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    const executed = await treasuryPlans.issueTreasuryPlan(plan(), RUN_ID);
+    await treasuryPlans.markPlanSuperseded(replaced.planId!);
+    await treasuryPlans.markPlanExecuted(executed.planId!);
+    await treasuryPlans.markPlanSuperseded(executed.planId!);
+
+    assert.match((await treasuryPlans.verifyPlanForExecution(replaced.planId!, RUN_ID)).error ?? '', /^Plan was replaced/);
+    assert.equal((await treasuryPlans.getIssuedPlan(executed.planId!))?.status, 'executed');
+  });
+});